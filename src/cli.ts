@@ -0,0 +1,169 @@
+/**
+ * コマンドライン (md-table)
+ *
+ * 拡張機能と同じ規則で、Markdownファイル内のテーブルを整形・検査します。
+ *
+ *   md-table format [options] [files...]   テーブルを整形してファイルを書き換えます
+ *   md-table check [options] [files...]    整形されていないテーブルや列数の合わない行を file:line で表示します
+ *
+ * ファイルにはglobパターン (`docs/**\/*.md`) やディレクトリも指定できます。省略するとカレントディレクトリ以下の
+ * すべての .md ファイルが対象です。check は問題が見つかると終了コード 1 で終了します。
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as glob from 'glob';
+import { formatMarkdown, findTableProblems, TableFormatOptions } from './lib';
+
+const USAGE = `Usage: md-table <format|check> [options] [files...]
+
+Commands:
+  format                     Format every table in place
+  check                      Report unformatted tables and rows whose cell count does not match the header
+
+Options:
+  --ambiguous-width <1|2>    Display width of East Asian ambiguous characters (default: 1)
+  --style <padded|compact>   Output style (default: padded)
+  --no-outer-pipes           Omit leading and trailing pipes where possible
+  -h, --help                 Show this help
+
+Files may be paths, directories or glob patterns (default: **/*.md).`;
+
+// 終了コード
+const EXIT_OK = 0;
+const EXIT_PROBLEMS = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * コマンドラインの引数の解析結果
+ */
+interface CliArguments {
+    command: 'format' | 'check';
+    options: TableFormatOptions;
+    patterns: string[];
+}
+
+/**
+ * 使い方の誤り (使い方を表示して終了します)
+ */
+class UsageError extends Error { }
+
+/**
+ * コマンドラインの引数を解析します。
+ */
+function parseArguments(args: string[]): CliArguments | null {
+    if (args.length === 0 || args.includes('-h') || args.includes('--help')) {
+        return null;
+    }
+    const [command, ...rest] = args;
+    if (command !== 'format' && command !== 'check') {
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+    const options: TableFormatOptions = {};
+    const patterns: string[] = [];
+    for (let i = 0; i < rest.length; i++) {
+        const arg = rest[i];
+        switch (arg) {
+            case '--ambiguous-width': {
+                const value = rest[++i];
+                if (value !== '1' && value !== '2') {
+                    throw new UsageError('--ambiguous-width must be 1 or 2');
+                }
+                options.ambiguousWidth = value === '2' ? 2 : 1;
+                break;
+            }
+            case '--style': {
+                const value = rest[++i];
+                if (value !== 'padded' && value !== 'compact') {
+                    throw new UsageError('--style must be padded or compact');
+                }
+                options.style = value;
+                break;
+            }
+            case '--no-outer-pipes':
+                options.outerPipes = false;
+                break;
+            default:
+                if (arg.startsWith('-')) {
+                    throw new UsageError(`Unknown option: ${arg}`);
+                }
+                patterns.push(arg);
+        }
+    }
+    return { command, options, patterns: patterns.length > 0 ? patterns : ['**/*.md'] };
+}
+
+/**
+ * パターンに一致するファイルを返します (重複を除き、名前の順)。
+ * ディレクトリはその下の .md ファイル、globの記号を含まないパスはそのファイルとします。
+ */
+function expandPatterns(patterns: string[]): string[] {
+    const files = new Set<string>();
+    for (const pattern of patterns) {
+        const normalized = pattern.replace(/\\/g, '/');
+        if (!glob.hasMagic(normalized)) {
+            if (!fs.existsSync(pattern)) {
+                throw new UsageError(`File not found: ${pattern}`);
+            }
+            if (!fs.statSync(pattern).isDirectory()) {
+                files.add(path.normalize(pattern));
+                continue;
+            }
+        }
+        const expanded = glob.hasMagic(normalized) ? normalized : normalized.replace(/\/$/, '') + '/**/*.md';
+        for (const file of glob.sync(expanded, { nodir: true, ignore: '**/node_modules/**' })) {
+            files.add(path.normalize(file));
+        }
+    }
+    return [...files].sort();
+}
+
+/**
+ * コマンドを実行し、終了コードを返します。
+ */
+function run(args: string[]): number {
+    let parsed: CliArguments | null;
+    let files: string[];
+    try {
+        parsed = parseArguments(args);
+        if (!parsed) {
+            console.log(USAGE);
+            return EXIT_OK;
+        }
+        files = expandPatterns(parsed.patterns);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            console.error(`md-table: ${error.message}\n\n${USAGE}`);
+            return EXIT_USAGE;
+        }
+        throw error;
+    }
+
+    const { command, options } = parsed;
+    let problemCount = 0;
+    for (const file of files) {
+        const text = fs.readFileSync(file, 'utf8');
+        if (command === 'format') {
+            const formatted = formatMarkdown(text, options);
+            if (formatted !== text) {
+                fs.writeFileSync(file, formatted, 'utf8');
+                console.log(`Formatted ${file}`);
+            }
+            continue;
+        }
+        for (const problem of findTableProblems(text, options)) {
+            console.log(`${file}:${problem.line + 1}: ${problem.message}`);
+            problemCount++;
+        }
+    }
+
+    if (command === 'check') {
+        if (problemCount > 0) {
+            console.log(`\n${problemCount} problem${problemCount === 1 ? '' : 's'} found.`);
+            return EXIT_PROBLEMS;
+        }
+        console.log(`Checked ${files.length} file${files.length === 1 ? '' : 's'}, no problems found.`);
+    }
+    return EXIT_OK;
+}
+
+process.exitCode = run(process.argv.slice(2));
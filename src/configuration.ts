@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import type { TableFormatOptions } from './markdownParser';
+import type { AmbiguousWidth } from './displayWidth';
+
+/** 設定のセクション名 */
+export const CONFIGURATION_SECTION = 'markdownTableEditor';
+
+/**
+ * Webviewに渡す設定
+ */
+export interface EditorSettings {
+    /** 曖昧な幅の文字の表示幅 (列幅の自動調整に使用) */
+    ambiguousWidth: AmbiguousWidth;
+    /** セル内の改行を表すタグ */
+    lineBreak: string;
+    /** セルの入力をMarkdownに反映するまでの待ち時間 (ミリ秒) */
+    syncDelay: number;
+    /** 列の幅の初期値 (ピクセル) */
+    defaultColumnWidth: number;
+    /** 1列目を行番号として扱うオプションの初期値 */
+    rowNumberColumn: boolean;
+}
+
+/**
+ * 拡張機能の設定 (markdownTableEditor.*) を取得します。
+ * @param scope 設定を取得する対象 (ドキュメントなど)
+ */
+function getConfiguration(scope?: vscode.ConfigurationScope) {
+    return vscode.workspace.getConfiguration(CONFIGURATION_SECTION, scope);
+}
+
+/**
+ * 設定からテーブル文字列の生成オプションを作成します。
+ * @param scope 設定を取得する対象 (ドキュメントなど)
+ */
+export function getTableFormatOptions(scope?: vscode.ConfigurationScope): TableFormatOptions {
+    const config = getConfiguration(scope);
+    return {
+        ambiguousWidth: config.get<number>('ambiguousCharacterWidth', 1) === 2 ? 2 : 1,
+        style: config.get<string>('tableStyle', 'padded') === 'compact' ? 'compact' : 'padded',
+        outerPipes: config.get<boolean>('leadingAndTrailingPipes', true)
+    };
+}
+
+/**
+ * 設定からWebviewに渡す設定を作成します。
+ * @param scope 設定を取得する対象 (ドキュメントなど)
+ */
+export function getEditorSettings(scope?: vscode.ConfigurationScope): EditorSettings {
+    const config = getConfiguration(scope);
+    return {
+        ambiguousWidth: getTableFormatOptions(scope).ambiguousWidth ?? 1,
+        lineBreak: getLineBreak(scope),
+        syncDelay: Math.max(0, config.get<number>('syncDelay', 300)),
+        defaultColumnWidth: Math.max(50, config.get<number>('defaultColumnWidth', 150)),
+        rowNumberColumn: config.get<boolean>('rowNumberColumn', false)
+    };
+}
+
+/**
+ * 設定からセル内の改行を表すタグを取得します。
+ * @param scope 設定を取得する対象 (ドキュメントなど)
+ */
+export function getLineBreak(scope?: vscode.ConfigurationScope): string {
+    return getConfiguration(scope).get<string>('lineBreak', '<br>');
+}
@@ -0,0 +1,282 @@
+/**
+ * CSV / TSV ファイルを書式を保ったまま読み書きするためのモデル
+ *
+ * 区切り文字付きテキストを RFC 4180 の規則で解析し、レコードごとに元のテキストを保持します。
+ * 書き戻すときは、内容が変わらないレコードは元のテキストのまま、変わったレコードは元の
+ * 引用符の付け方 (フィールドごと) に合わせて書き出します。
+ * 区切り文字・改行コード・末尾の改行・BOM もファイルのものを使います。
+ */
+
+/**
+ * ファイルの書式
+ */
+export interface DelimitedFormat {
+    /** 区切り文字 */
+    delimiter: string;
+    /** 改行コード (最初のレコードの区切りに使われているもの) */
+    lineEnding: string;
+    /** ファイルの末尾が改行で終わるかどうか */
+    trailingLineEnding: boolean;
+    /** 先頭に BOM があるかどうか */
+    bom: boolean;
+    /** すべてのフィールドが引用符で囲まれているかどうか (新しいフィールドもそれに合わせます) */
+    quoteAll: boolean;
+}
+
+/**
+ * 1つのレコード (行)
+ */
+export interface DelimitedRecord {
+    fields: string[];
+    /** フィールドごとに、引用符で囲まれていたかどうか */
+    quoted: boolean[];
+    /** 元のテキスト (改行を含むフィールドがある場合は複数行) */
+    raw: string;
+}
+
+/**
+ * 解析したファイル
+ */
+export interface DelimitedDocument {
+    records: DelimitedRecord[];
+    format: DelimitedFormat;
+}
+
+/**
+ * 引用符の外にある最初の改行コードを返します。改行がない場合は RFC 4180 の CRLF を返します。
+ */
+export function detectLineEnding(text: string): string {
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"') {
+            inQuotes = !inQuotes;
+        } else if (!inQuotes && (ch === '\r' || ch === '\n')) {
+            return ch === '\r' && text[i + 1] === '\n' ? '\r\n' : ch;
+        }
+    }
+    return '\r\n';
+}
+
+/**
+ * 区切り文字付きテキストを、書式とレコードごとの元のテキストを含めて解析します。
+ * ダブルクォートで囲まれたフィールド内の区切り文字・改行はフィールドの一部として扱います。
+ */
+export function parseDelimitedDocument(text: string, delimiter: string = ','): DelimitedDocument {
+    const bom = text.startsWith('\uFEFF');
+    const source = bom ? text.slice(1) : text;
+    const records: DelimitedRecord[] = [];
+    let fields: string[] = [];
+    let quoted: boolean[] = [];
+    let field = '';
+    let isQuoted = false;
+    let inQuotes = false;
+    let recordStart = 0;
+    let trailingLineEnding = false;
+
+    const endField = () => {
+        fields.push(field);
+        quoted.push(isQuoted);
+        field = '';
+        isQuoted = false;
+    };
+    const endRecord = (end: number) => {
+        endField();
+        records.push({ fields, quoted, raw: source.slice(recordStart, end) });
+        fields = [];
+        quoted = [];
+    };
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (inQuotes) {
+            if (ch === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '' && !isQuoted) {
+            inQuotes = true;
+            isQuoted = true;
+        } else if (ch === delimiter) {
+            endField();
+        } else if (ch === '\n' || ch === '\r') {
+            const end = i;
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            endRecord(end);
+            recordStart = i + 1;
+            if (recordStart === source.length) {
+                trailingLineEnding = true;
+            }
+        } else {
+            field += ch;
+        }
+    }
+    if (source.length > 0 && !trailingLineEnding) {
+        endRecord(source.length);
+    }
+
+    const allFields = records.flatMap(record => record.quoted);
+    return {
+        records,
+        format: {
+            delimiter,
+            lineEnding: detectLineEnding(source),
+            trailingLineEnding,
+            bom,
+            quoteAll: allFields.length > 0 && allFields.every(Boolean)
+        }
+    };
+}
+
+/**
+ * フィールドを書き出します。引用符が必要なフィールドは、元の書式によらず引用符で囲みます。
+ */
+function formatField(field: string, quote: boolean, format: DelimitedFormat): string {
+    const value = field.replace(/\r\n|\r|\n/g, format.lineEnding);
+    const needsQuotes = value.includes(format.delimiter) || /["\r\n]/.test(value);
+    return quote || needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 改行コードの違いを無視してフィールドを比較します。
+ */
+function isSameFields(a: string[], b: string[]): boolean {
+    const normalize = (field: string) => field.replace(/\r\n|\r/g, '\n');
+    return a.length === b.length && a.every((field, index) => normalize(field) === normalize(b[index]));
+}
+
+/**
+ * グリッドで揃えるために補った空のセルを除いた行を返します。
+ */
+function trimPadding(row: string[], record: DelimitedRecord): string[] {
+    if (row.length > record.fields.length && row.slice(record.fields.length).every(field => field === '')) {
+        return row.slice(0, record.fields.length);
+    }
+    return row;
+}
+
+/**
+ * 行がレコードと同じ内容かどうかを判定します。
+ */
+function isSameRecord(row: string[], record: DelimitedRecord): boolean {
+    return isSameFields(trimPadding(row, record), record.fields);
+}
+
+/**
+ * 内容でレコードを探すためのキー (末尾の空のフィールドと改行コードの違いを無視します)
+ */
+function getRecordKey(fields: string[]): string {
+    let length = fields.length;
+    while (length > 0 && fields[length - 1] === '') length--;
+    return JSON.stringify(fields.slice(0, length).map(field => field.replace(/\r\n|\r/g, '\n')));
+}
+
+/**
+ * 編集後の行ごとに、元になったレコードを返します (新しい行は undefined)。
+ * 行数が変わらない場合は同じ位置のレコードを対応させます。
+ * 行の挿入・削除で行数が変わった場合は、先頭と末尾から内容の一致する行を対応させ、
+ * 残りの行は同じ内容のレコードがあればそれを、なければ対応するもののないレコードを順に対応させます。
+ */
+function matchRecords(rows: string[][], records: DelimitedRecord[]): (DelimitedRecord | undefined)[] {
+    if (rows.length === records.length) return records;
+    const matched = new Array<DelimitedRecord | undefined>(rows.length).fill(undefined);
+    let head = 0;
+    while (head < rows.length && head < records.length && isSameRecord(rows[head], records[head])) {
+        matched[head] = records[head];
+        head++;
+    }
+    let tail = 0;
+    while (head + tail < rows.length && head + tail < records.length
+        && isSameRecord(rows[rows.length - 1 - tail], records[records.length - 1 - tail])) {
+        matched[rows.length - 1 - tail] = records[records.length - 1 - tail];
+        tail++;
+    }
+
+    const middle = records.slice(head, records.length - tail);
+    const remaining = new Map<string, DelimitedRecord[]>();
+    for (const record of middle) {
+        const key = getRecordKey(record.fields);
+        remaining.set(key, [...(remaining.get(key) ?? []), record]);
+    }
+    const used = new Set<DelimitedRecord>();
+    for (let i = head; i < rows.length - tail; i++) {
+        const candidates = remaining.get(getRecordKey(rows[i]));
+        const index = candidates ? candidates.findIndex(record => isSameRecord(rows[i], record)) : -1;
+        if (candidates && index !== -1) {
+            matched[i] = candidates.splice(index, 1)[0];
+            used.add(matched[i]!);
+        }
+    }
+    // 内容の変わった行は、対応するもののないレコードと順に対応させます (フィールドごとの引用符の付け方を引き継ぎます)
+    const unused = middle.filter(record => !used.has(record));
+    let next = 0;
+    for (let i = head; i < rows.length - tail && next < unused.length; i++) {
+        if (!matched[i]) {
+            matched[i] = unused[next++];
+        }
+    }
+    return matched;
+}
+
+/**
+ * 編集後の行を、元のファイルの書式に合わせて区切り文字付きテキストにします。
+ * @param rows 編集後の行 (グリッドで揃えた列数のままでかまいません)
+ * @param previous 編集前のファイル (書式と、変わらないレコードの元のテキストに使います)
+ */
+export function serializeDelimitedDocument(rows: string[][], previous: DelimitedDocument): string {
+    const { format } = previous;
+    const records = matchRecords(rows, previous.records);
+    const lines = rows.map((row, index) => {
+        const record = records[index];
+        if (!record) {
+            return row.map(field => formatField(field, format.quoteAll, format)).join(format.delimiter);
+        }
+        // 短い行をグリッドで揃えるために補った空のセルは書き出しません
+        const fields = trimPadding(row, record);
+        if (isSameFields(fields, record.fields)) {
+            return record.raw;
+        }
+        return fields
+            .map((field, i) => formatField(field, record.quoted[i] ?? format.quoteAll, format))
+            .join(format.delimiter);
+    });
+    const text = lines.join(format.lineEnding) + (format.trailingLineEnding && lines.length > 0 ? format.lineEnding : '');
+    return (format.bom ? '\uFEFF' : '') + text;
+}
+
+/**
+ * レコードをグリッドで編集する行にします。列数は最も多い行に合わせ、足りないセルは空文字で補います。
+ */
+export function toGridRows(document: DelimitedDocument): string[][] {
+    const width = document.records.reduce((max, record) => Math.max(max, record.fields.length), 0);
+    return document.records.map(record => record.fields.length < width
+        ? [...record.fields, ...new Array<string>(width - record.fields.length).fill('')]
+        : record.fields);
+}
+
+// グリッドのセルで改行を表す `<br>` と、その前の `<` (または `&lt;` などのエスケープ)
+const GRID_LINE_BREAK_PATTERN = /(&(?:amp;)*lt;|<)(?=br\s*\/?>)/gi;
+
+/**
+ * フィールドをグリッドのセルの値にします。改行は `<br>` にします。
+ * フィールドにもともと書かれている `<br>` は改行と区別できるよう `&lt;br>` に (`&lt;br>` は `&amp;lt;br>` に) エスケープします。
+ */
+export function toGridCell(field: string): string {
+    return field
+        .replace(GRID_LINE_BREAK_PATTERN, lead => lead === '<' ? '&lt;' : '&amp;' + lead.slice(1))
+        .replace(/\r\n|\r|\n/g, '<br>');
+}
+
+/**
+ * グリッドのセルの値をフィールドに戻します (toGridCell の逆の変換)。
+ */
+export function fromGridCell(cell: string): string {
+    return cell.replace(/(&(?:amp;)*lt;|<)(br\s*\/?>)/gi, (_, lead: string, tag: string) => {
+        if (lead === '<') return '\n';
+        return (lead.toLowerCase() === '&lt;' ? '<' : '&' + lead.slice('&amp;'.length)) + tag;
+    });
+}
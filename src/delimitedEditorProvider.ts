@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import type { MarkdownTable, ColumnAlignment } from './markdownParser';
+import { parseDelimitedDocument, serializeDelimitedDocument, toGridRows, toGridCell, fromGridCell, DelimitedDocument } from './delimitedDocument';
+import { detectDelimiter } from './formatConverter';
+import { applyCellChanges } from './tablePatch';
+import { getWebviewContent, getUiStateKey, openCellLink, TablePanelState, TableUiState, WebviewMessage } from './tableEditorPanel';
+import { saveTableAs } from './formatCommands';
+import { getEditorSettings } from './configuration';
+
+/** CSV / TSV のエディタの種類 (package.json の customEditors と同じ) */
+export const DELIMITED_EDITOR_VIEW_TYPE = 'markdownTableEditor.delimitedEditor';
+
+/**
+ * ファイルの区切り文字を返します。.tsv はタブ、それ以外は内容から推定します (セミコロン区切りのCSVなど)。
+ */
+function getDelimiter(document: vscode.TextDocument): string {
+    return /\.tsv$/i.test(document.uri.path) ? '\t' : detectDelimiter(document.getText());
+}
+
+/**
+ * 1つのCSV / TSVファイルを表示しているグリッドエディタ
+ *
+ * Markdownのテーブルの編集パネルと同じWebviewを使い、同じメッセージでドキュメントと双方向に同期します。
+ * 書き戻すときは、区切り文字・引用符の付け方・改行コードをファイルのものに合わせます。
+ */
+class DelimitedEditorSession {
+    private readonly delimiter: string;
+    // ドキュメントの解析結果 (書き戻すときの書式と、変更のないレコードの元のテキスト)
+    private parsed: DelimitedDocument;
+    // グリッドに表示しているテーブル (Webviewから送られるセルの変更はこれに適用する)
+    private table: MarkdownTable;
+    // 最後にグリッドの内容で書き込んだテキスト (自身の書き込みによる変更は同期しない)
+    private lastWrittenText: string | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly document: vscode.TextDocument,
+        private readonly panel: vscode.WebviewPanel
+    ) {
+        this.delimiter = getDelimiter(document);
+        this.parsed = parseDelimitedDocument(document.getText(), this.delimiter);
+        this.table = this.toTable();
+
+        this.panel.webview.options = { enableScripts: true, localResourceRoots: [vscode.Uri.file(context.extensionPath)] };
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message), null, this.disposables);
+
+        // テキストエディタなどでファイルが変更されたらグリッドに反映します
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (e.document === this.document && e.contentChanges.length > 0) {
+                this.syncFromDocument();
+            }
+        }, null, this.disposables);
+
+        const scriptUri = this.panel.webview.asWebviewUri(vscode.Uri.file(context.extensionPath + '/dist/webview.js'));
+        const header = this.table.data[0] || [];
+        const panelState: TablePanelState = {
+            documentUri: document.uri.toString(),
+            startLine: 0,
+            header,
+            ui: context.workspaceState.get<TableUiState>(getUiStateKey(document, header)) || {},
+            documentKind: 'delimited'
+        };
+        this.panel.webview.html = getWebviewContent(scriptUri, this.table, {}, getEditorSettings(document), panelState);
+    }
+
+    /**
+     * 解析したレコードをグリッドに表示するテーブルにします。フィールド内の改行は `<br>` にします
+     * (フィールドにもともと書かれている `<br>` はエスケープし、書き戻すときに元に戻します)。
+     */
+    private toTable(): MarkdownTable {
+        const data = toGridRows(this.parsed).map(row => row.map(toGridCell));
+        const width = data[0]?.length ?? 0;
+        return { data, alignments: new Array<ColumnAlignment>(width).fill('none') };
+    }
+
+    /**
+     * Webviewから受信したメッセージを処理します。
+     */
+    private handleMessage(message: WebviewMessage) {
+        switch (message.command) {
+            case 'updateTable':
+                // CSV / TSV には配置やメタデータを保存できないため、セルの内容だけを書き込みます
+                this.writeTable({ data: message.data, alignments: message.alignments });
+                return;
+            case 'updateCells':
+                this.writeTable(applyCellChanges(this.table, message.changes));
+                return;
+            case 'exportTable':
+                saveTableAs({ data: message.data, alignments: message.alignments }, message.format, this.document.uri);
+                return;
+            case 'openLink':
+                openCellLink(this.document.uri, message.href);
+                return;
+            case 'saveUiState':
+                this.context.workspaceState.update(getUiStateKey(this.document, message.header), message.ui);
+                return;
+        }
+    }
+
+    /**
+     * グリッドの内容をファイルの書式に合わせて書き戻します。変更された部分だけを置き換えます。
+     */
+    private writeTable(table: MarkdownTable) {
+        this.table = table;
+        const rows = table.data.map(row => row.map(fromGridCell));
+        const text = serializeDelimitedDocument(rows, this.parsed);
+        const current = this.document.getText();
+        if (text === current) {
+            return;
+        }
+        this.lastWrittenText = text;
+
+        // 前後の一致する部分を除いた範囲だけを置き換えます
+        let start = 0;
+        const maxLength = Math.min(text.length, current.length);
+        while (start < maxLength && text[start] === current[start]) {
+            start++;
+        }
+        let end = 0;
+        while (end < maxLength - start && text[text.length - 1 - end] === current[current.length - 1 - end]) {
+            end++;
+        }
+        const range = new vscode.Range(this.document.positionAt(start), this.document.positionAt(current.length - end));
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(this.document.uri, range, text.slice(start, text.length - end));
+        vscode.workspace.applyEdit(edit);
+    }
+
+    /**
+     * ドキュメントの変更をWebviewに反映します。
+     */
+    private syncFromDocument() {
+        const text = this.document.getText();
+        this.parsed = parseDelimitedDocument(text, this.delimiter);
+        // グリッドからの書き込みによる変更は送り返しません (入力中のセルが上書きされるのを防ぐ)
+        if (text === this.lastWrittenText) {
+            return;
+        }
+        this.table = this.toTable();
+        this.panel.webview.postMessage({
+            command: 'syncData',
+            data: this.table.data,
+            alignments: this.table.alignments,
+            metadata: {}
+        });
+    }
+
+    private dispose() {
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
+
+/**
+ * CSV / TSV ファイルをグリッドで編集するカスタムエディタ
+ *
+ * 既定のエディタはテキストのままにし、「エディターを選択して開く」(Reopen With…) や
+ * エディタのタイトルのボタンで、グリッドとテキストを切り替えます。
+ */
+class DelimitedEditorProvider implements vscode.CustomTextEditorProvider {
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    resolveCustomTextEditor(document: vscode.TextDocument, webviewPanel: vscode.WebviewPanel): void {
+        new DelimitedEditorSession(this.context, document, webviewPanel);
+    }
+}
+
+/**
+ * 表示中のエディタのファイルを返します (カスタムエディタで開いている場合を含む)。
+ */
+function getActiveResource(): vscode.Uri | undefined {
+    const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+    if (input instanceof vscode.TabInputCustom || input instanceof vscode.TabInputText) {
+        return input.uri;
+    }
+    return vscode.window.activeTextEditor?.document.uri;
+}
+
+/**
+ * CSV / TSV のグリッドエディタと、グリッドとテキストを切り替えるコマンドを登録します。
+ */
+export function registerDelimitedEditor(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.window.registerCustomEditorProvider(DELIMITED_EDITOR_VIEW_TYPE, new DelimitedEditorProvider(context), {
+            // タブを切り替えても編集履歴やフィルターを失わないよう、非表示の間もWebviewを保持します
+            webviewOptions: { retainContextWhenHidden: true }
+        }),
+
+        // エディタのタイトルのボタンからは、対象のファイルが引数で渡されます
+        vscode.commands.registerCommand('markdownTableEditor.openInGridEditor', (uri?: vscode.Uri) => {
+            const target = uri ?? getActiveResource();
+            if (target) {
+                vscode.commands.executeCommand('vscode.openWith', target, DELIMITED_EDITOR_VIEW_TYPE);
+            }
+        }),
+        vscode.commands.registerCommand('markdownTableEditor.openInTextEditor', (uri?: vscode.Uri) => {
+            const target = uri ?? getActiveResource();
+            if (target) {
+                vscode.commands.executeCommand('vscode.openWith', target, 'default');
+            }
+        })
+    );
+}
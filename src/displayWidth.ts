@@ -0,0 +1,138 @@
+/**
+ * 等幅フォントでの表示幅の計算
+ *
+ * Unicode の East Asian Width (UAX #11) に従い、全角 (W/F) の文字は2、
+ * 曖昧 (A) の文字は設定に応じて1または2、それ以外は1として数えます。
+ * 結合文字や異体字セレクタ、ZWJで結合された絵文字などは書記素クラスタ単位で1文字として扱います。
+ * テーブルの生成 (generateMarkdownTable) とWebviewの列幅の自動調整の両方で使います。
+ */
+
+/** 曖昧な幅 (East Asian Width = A) の文字の幅 */
+export type AmbiguousWidth = 1 | 2;
+
+// East Asian Width が W (Wide) または F (Fullwidth) の範囲 [開始, 終了]
+const WIDE_RANGES: [number, number][] = [
+    [0x1100, 0x115F], [0x231A, 0x231B], [0x2329, 0x232A], [0x23E9, 0x23EC], [0x23F0, 0x23F0],
+    [0x23F3, 0x23F3], [0x25FD, 0x25FE], [0x2614, 0x2615], [0x2648, 0x2653], [0x267F, 0x267F],
+    [0x2693, 0x2693], [0x26A1, 0x26A1], [0x26AA, 0x26AB], [0x26BD, 0x26BE], [0x26C4, 0x26C5],
+    [0x26CE, 0x26CE], [0x26D4, 0x26D4], [0x26EA, 0x26EA], [0x26F2, 0x26F3], [0x26F5, 0x26F5],
+    [0x26FA, 0x26FA], [0x26FD, 0x26FD], [0x2705, 0x2705], [0x270A, 0x270B], [0x2728, 0x2728],
+    [0x274C, 0x274C], [0x274E, 0x274E], [0x2753, 0x2755], [0x2757, 0x2757], [0x2795, 0x2797],
+    [0x27B0, 0x27B0], [0x27BF, 0x27BF], [0x2B1B, 0x2B1C], [0x2B50, 0x2B50], [0x2B55, 0x2B55],
+    [0x2E80, 0x303E], [0x3041, 0x33FF], [0x3400, 0x4DBF], [0x4E00, 0x9FFF], [0xA000, 0xA4CF],
+    [0xA960, 0xA97F], [0xAC00, 0xD7A3], [0xF900, 0xFAFF], [0xFE10, 0xFE19], [0xFE30, 0xFE6F],
+    [0xFF00, 0xFF60], [0xFFE0, 0xFFE6], [0x16FE0, 0x16FE4], [0x17000, 0x18CFF], [0x1B000, 0x1B2FF],
+    [0x1F004, 0x1F004], [0x1F0CF, 0x1F0CF], [0x1F18E, 0x1F18E], [0x1F191, 0x1F19A], [0x1F200, 0x1F202],
+    [0x1F210, 0x1F23B], [0x1F240, 0x1F248], [0x1F250, 0x1F251], [0x1F260, 0x1F265], [0x1F300, 0x1F320],
+    [0x1F32D, 0x1F335], [0x1F337, 0x1F37C], [0x1F37E, 0x1F393], [0x1F3A0, 0x1F3CA], [0x1F3CF, 0x1F3D3],
+    [0x1F3E0, 0x1F3F0], [0x1F3F4, 0x1F3F4], [0x1F3F8, 0x1F43E], [0x1F440, 0x1F440], [0x1F442, 0x1F4FC],
+    [0x1F4FF, 0x1F53D], [0x1F54B, 0x1F54E], [0x1F550, 0x1F567], [0x1F57A, 0x1F57A], [0x1F595, 0x1F596],
+    [0x1F5A4, 0x1F5A4], [0x1F5FB, 0x1F64F], [0x1F680, 0x1F6C5], [0x1F6CC, 0x1F6CC], [0x1F6D0, 0x1F6D2],
+    [0x1F6D5, 0x1F6D7], [0x1F6DC, 0x1F6DF], [0x1F6EB, 0x1F6EC], [0x1F6F4, 0x1F6FC], [0x1F7E0, 0x1F7EB],
+    [0x1F7F0, 0x1F7F0], [0x1F90C, 0x1F93A], [0x1F93C, 0x1F945], [0x1F947, 0x1F9FF], [0x1FA70, 0x1FAFF],
+    [0x20000, 0x2FFFD], [0x30000, 0x3FFFD]
+];
+
+// East Asian Width が A (Ambiguous) の主な範囲 [開始, 終了]
+const AMBIGUOUS_RANGES: [number, number][] = [
+    [0x00A1, 0x00A1], [0x00A4, 0x00A4], [0x00A7, 0x00A8], [0x00AA, 0x00AA], [0x00AD, 0x00AE],
+    [0x00B0, 0x00B4], [0x00B6, 0x00BA], [0x00BC, 0x00BF], [0x00C6, 0x00C6], [0x00D0, 0x00D0],
+    [0x00D7, 0x00D8], [0x00DE, 0x00E1], [0x00E6, 0x00E6], [0x00E8, 0x00EA], [0x00EC, 0x00ED],
+    [0x00F0, 0x00F0], [0x00F2, 0x00F3], [0x00F7, 0x00FA], [0x00FC, 0x00FC], [0x00FE, 0x00FE],
+    [0x0391, 0x03A9], [0x03B1, 0x03C9], [0x0401, 0x0401], [0x0410, 0x044F], [0x0451, 0x0451],
+    [0x2010, 0x2010], [0x2013, 0x2016], [0x2018, 0x2019], [0x201C, 0x201D], [0x2020, 0x2022],
+    [0x2024, 0x2027], [0x2030, 0x2030], [0x2032, 0x2033], [0x2035, 0x2035], [0x203B, 0x203B],
+    [0x203E, 0x203E], [0x2103, 0x2103], [0x2105, 0x2105], [0x2109, 0x2109], [0x2113, 0x2113],
+    [0x2116, 0x2116], [0x2121, 0x2122], [0x2126, 0x2126], [0x212B, 0x212B], [0x2153, 0x2154],
+    [0x215B, 0x215E], [0x2160, 0x216B], [0x2170, 0x2179], [0x2190, 0x2199], [0x21D2, 0x21D2],
+    [0x21D4, 0x21D4], [0x2200, 0x2200], [0x2202, 0x2203], [0x2207, 0x2208], [0x220B, 0x220B],
+    [0x220F, 0x220F], [0x2211, 0x2211], [0x2215, 0x2215], [0x221A, 0x221A], [0x221D, 0x2220],
+    [0x2223, 0x2223], [0x2225, 0x2225], [0x2227, 0x222C], [0x222E, 0x222E], [0x2234, 0x2237],
+    [0x223C, 0x223D], [0x2248, 0x2248], [0x224C, 0x224C], [0x2252, 0x2252], [0x2260, 0x2261],
+    [0x2264, 0x2267], [0x226A, 0x226B], [0x226E, 0x226F], [0x2282, 0x2283], [0x2286, 0x2287],
+    [0x2295, 0x2295], [0x2299, 0x2299], [0x22A5, 0x22A5], [0x22BF, 0x22BF], [0x2312, 0x2312],
+    [0x2460, 0x24E9], [0x24EB, 0x254B], [0x2550, 0x2573], [0x2580, 0x258F], [0x2592, 0x2595],
+    [0x25A0, 0x25A1], [0x25A3, 0x25A9], [0x25B2, 0x25B3], [0x25B6, 0x25B7], [0x25BC, 0x25BD],
+    [0x25C0, 0x25C1], [0x25C6, 0x25C8], [0x25CB, 0x25CB], [0x25CE, 0x25D1], [0x25E2, 0x25E5],
+    [0x25EF, 0x25EF], [0x2605, 0x2606], [0x2609, 0x2609], [0x260E, 0x260F], [0x261C, 0x261C],
+    [0x261E, 0x261E], [0x2640, 0x2640], [0x2642, 0x2642], [0x2660, 0x2661], [0x2663, 0x2665],
+    [0x2667, 0x266A], [0x266C, 0x266D], [0x266F, 0x266F], [0x273D, 0x273D], [0x2776, 0x277F],
+    [0x2B56, 0x2B59], [0x3248, 0x324F], [0xE000, 0xF8FF], [0xFFFD, 0xFFFD], [0x1F100, 0x1F10A],
+    [0x1F110, 0x1F12D], [0x1F130, 0x1F169], [0x1F170, 0x1F18D], [0x1F18F, 0x1F190], [0x1F19B, 0x1F1AC],
+    [0xF0000, 0xFFFFD], [0x100000, 0x10FFFD]
+];
+
+/**
+ * コードポイントが範囲の一覧に含まれるかを二分探索で判定します。
+ */
+function inRanges(codePoint: number, ranges: [number, number][]): boolean {
+    let low = 0;
+    let high = ranges.length - 1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (codePoint < ranges[mid][0]) {
+            high = mid - 1;
+        } else if (codePoint > ranges[mid][1]) {
+            low = mid + 1;
+        } else {
+            return true;
+        }
+    }
+    return false;
+}
+
+// 直前の文字と結合して1つの書記素クラスタになる文字 (結合文字、異体字セレクタ、肌の色の修飾子など)
+const EXTEND_PATTERN = /^[\p{M}\u200D\uFE00-\uFE0F\u{1F3FB}-\u{1F3FF}\u{E0020}-\u{E007F}]$/u;
+// 幅を持たない文字 (制御文字、書式文字)
+const ZERO_WIDTH_PATTERN = /^[\p{Cc}\p{Cf}]$/u;
+const REGIONAL_INDICATOR_PATTERN = /^\p{Regional_Indicator}$/u;
+
+/**
+ * 文字列を書記素クラスタ (見た目の1文字) に分割します。
+ */
+export function splitGraphemes(text: string): string[] {
+    const clusters: string[] = [];
+    let previous = '';
+    for (const char of text) {
+        const last = clusters.length - 1;
+        const joinsPrevious = last >= 0 && (
+            EXTEND_PATTERN.test(char)
+            // Characters joined by ZWJ (e.g. family emoji)
+            || previous === '\u200D'
+            // Flags are pairs of regional indicators
+            || (REGIONAL_INDICATOR_PATTERN.test(char) && [...clusters[last]].length === 1 && REGIONAL_INDICATOR_PATTERN.test(clusters[last]))
+        );
+        if (joinsPrevious) {
+            clusters[last] += char;
+        } else {
+            clusters.push(char);
+        }
+        previous = char;
+    }
+    return clusters;
+}
+
+/**
+ * 書記素クラスタ1つの表示幅を返します。
+ */
+function clusterWidth(cluster: string, ambiguousWidth: AmbiguousWidth): number {
+    const base = cluster.codePointAt(0)!;
+    const baseChar = String.fromCodePoint(base);
+    if (ZERO_WIDTH_PATTERN.test(baseChar) || EXTEND_PATTERN.test(baseChar)) return 0;
+    // Emoji presentation (VS16), ZWJ sequences and flags are displayed as wide emoji
+    if (cluster.includes('\uFE0F') || cluster.includes('\u200D') || REGIONAL_INDICATOR_PATTERN.test(baseChar)) return 2;
+    if (inRanges(base, WIDE_RANGES)) return 2;
+    if (inRanges(base, AMBIGUOUS_RANGES)) return ambiguousWidth;
+    return 1;
+}
+
+/**
+ * 文字列の等幅フォントでの表示幅を返します。
+ * @param text 対象の文字列
+ * @param ambiguousWidth 曖昧な幅の文字 (ギリシャ文字、罫線、丸数字など) の幅 (既定: 1)
+ */
+export function getDisplayWidth(text: string, ambiguousWidth: AmbiguousWidth = 1): number {
+    // Fast path for ASCII
+    if (/^[\x20-\x7E]*$/.test(text)) return text.length;
+    return splitGraphemes(text).reduce((sum, cluster) => sum + clusterWidth(cluster, ambiguousWidth), 0);
+}
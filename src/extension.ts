@@ -7,9 +7,32 @@
  * - カーソル位置のMarkdownテーブルを検出してWebviewで開く
  * - Excel風のUIでセル編集、行/列の追加・削除・複製
  * - 編集内容をリアルタイムでMarkdownファイルに反映
+ * - テーブルごとに独立した編集パネルを同時に開く
+ * - 新しいテーブルの作成 (大きさを選択して挿入し、そのまま編集)
+ * - CSV / TSV / JSON / HTML とのインポート・エクスポート
+ * - Webviewを開かずにドキュメント内のすべてのテーブルを整形 (保存時の整形にも対応)
+ * - テキストエディタ上でのテーブル編集 (Tab でのセル移動、行・列の操作、並べ替え)
+ * - テーブルの上のCodeLensと、エクスプローラーのテーブル一覧から編集パネルを開く
+ * - 列の種類 (数値・日付・チェックボックス・選択肢) の指定と、種類に合わない値の検出
+ * - 計算列と集計行 (合計・平均など)
+ * - CSV / TSV ファイルをグリッドで編集 (区切り文字・引用符・改行コードを保持)
+ * - 崩れたテーブル (列数の合わない行、区切り行の誤り、空・重複したヘッダー) の診断とクイックフィックス
  */
 import * as vscode from 'vscode';
-import { parseMarkdownTable, generateMarkdownTable, findTableAtPosition } from './markdownParser';
+import { findTableAtPosition, generateMarkdownTable, createEmptyTable } from './markdownParser';
+import { TablePanelManager } from './tablePanelManager';
+import { TABLE_EDITOR_VIEW_TYPE, TablePanelState } from './tableEditorPanel';
+import { registerFormatCommands, insertTableAtCursor } from './formatCommands';
+import { pickTableSize } from './tableSizePicker';
+import { registerTableFormatter } from './tableFormatter';
+import { getTableFormatOptions, CONFIGURATION_SECTION } from './configuration';
+import { registerTableTextCommands } from './tableTextCommands';
+import { registerTableCodeLens } from './tableCodeLens';
+import { registerTableOutline } from './tableOutline';
+import { registerTableValidation } from './tableValidation';
+import { registerTableRecalculation } from './tableRecalculation';
+import { registerDelimitedEditor } from './delimitedEditorProvider';
+import { registerTableDiagnostics } from './tableDiagnostics';
 
 /**
  * 拡張機能が有効化されたときに呼び出されます。
@@ -17,150 +40,128 @@ import { parseMarkdownTable, generateMarkdownTable, findTableAtPosition } from '
  */
 export function activate(context: vscode.ExtensionContext) {
 
-    let currentPanel: vscode.WebviewPanel | undefined = undefined;
+    // ドキュメントとテーブルごとに編集パネルを管理します
+    const panelManager = new TablePanelManager(context);
+    context.subscriptions.push(panelManager);
+
+    // ウィンドウの再読み込み後に、開いていた編集パネルを復元します
+    context.subscriptions.push(
+        vscode.window.registerWebviewPanelSerializer(TABLE_EDITOR_VIEW_TYPE, {
+            deserializeWebviewPanel: (webviewPanel, state) => panelManager.restore(webviewPanel, state as TablePanelState | undefined)
+        })
+    );
+
+    // 設定の変更を開いているパネルに反映します
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(CONFIGURATION_SECTION)) {
+                panelManager.updateSettings();
+            }
+        })
+    );
 
     // 'markdownTableEditor.editTable' コマンドを登録します。
-    // このコマンドは、ショートカットキー (デフォルト: Ctrl+K E) またはコマンドパレットから実行されます。
+    // このコマンドは、ショートカットキー (デフォルト: Ctrl+K T) またはコマンドパレットから実行されます。
     context.subscriptions.push(
-        vscode.commands.registerCommand('markdownTableEditor.editTable', () => {
+        vscode.commands.registerCommand('markdownTableEditor.editTable', async () => {
             const editor = vscode.window.activeTextEditor;
             if (!editor) {
                 return;
             }
 
             const document = editor.document;
-            const selection = editor.selection;
-            const text = document.getText();
+            const line = editor.selection.active.line;
 
             // カーソル位置にあるテーブルを探索します
-            const tableInfo = findTableAtPosition(text, selection.active.line);
+            const tableInfo = findTableAtPosition(document.getText(), line);
 
             if (!tableInfo) {
-                vscode.window.showErrorMessage('No Markdown table found at the cursor position.');
+                // テーブルが無い場合は、新しいテーブルの作成を提案します
+                const action = await vscode.window.showInformationMessage(
+                    'No Markdown table found at the cursor position. Insert a new table?',
+                    'Insert Table'
+                );
+                if (action) {
+                    await vscode.commands.executeCommand('markdownTableEditor.insertTable');
+                }
                 return;
             }
 
-            const tableData = parseMarkdownTable(tableInfo.content);
-
-            if (currentPanel) {
-                // 既にパネルが開いている場合は、そのパネルを表示します
-                currentPanel.reveal(vscode.ViewColumn.Beside);
-            } else {
-                // 新しいWebviewパネルを作成します
-                currentPanel = vscode.window.createWebviewPanel(
-                    'markdownTableEditor',
-                    'Edit Table',
-                    vscode.ViewColumn.Beside,
-                    {
-                        enableScripts: true,
-                        // distフォルダ内のリソース（スクリプト等）を読み込めるように設定
-                        localResourceRoots: [vscode.Uri.file(context.extensionPath)]
-                    }
-                );
+            // 既にこのテーブルのパネルが開いている場合は、そのパネルを表示します
+            panelManager.open(document, line, tableInfo);
+        })
+    );
 
-                currentPanel.onDidDispose(() => {
-                    currentPanel = undefined;
-                }, null, context.subscriptions);
-
-                // Webviewからのメッセージを受信して処理します
-                currentPanel.webview.onDidReceiveMessage(
-                    message => {
-                        switch (message.command) {
-                            case 'updateTable':
-                                const newData = message.data;
-                                const newTableMarkdown = generateMarkdownTable(newData);
-
-                                editor.edit(editBuilder => {
-                                    // Make sure we are replacing the CURRENT table content.
-                                    // The table might have changed size (previous edits), so we need to find it again.
-                                    // We assume the start line hasn't changed drastically or we use the cached start line.
-                                    // Robustness: re-scan from the original start line.
-                                    const currentText = document.getText();
-                                    const currentTableInfo = findTableAtPosition(currentText, tableInfo.range.startLine);
-
-                                    if (currentTableInfo) {
-                                        const start = new vscode.Position(currentTableInfo.range.startLine, 0);
-                                        const end = new vscode.Position(currentTableInfo.range.endLine, document.lineAt(currentTableInfo.range.endLine).text.length);
-                                        const range = new vscode.Range(start, end);
-                                        editBuilder.replace(range, newTableMarkdown.trim());
-
-                                        // Update the reference tableInfo if needed, though we find it fresh each time.
-                                        // But we must update 'tableInfo' captured in closure if we want to rely on it? 
-                                        // No, we just use 'currentTableInfo' derived from 'tableInfo.range.startLine'.
-                                        // Note: If startLine moves (due to edits above), this will break. 
-                                        // Ideally we track the range using a VS Code feature but for now this fixes the "cell edit -> duplicate rows" bug.
-                                    }
-                                });
-                                return;
-                        }
-                    },
-                    undefined,
-                    context.subscriptions
-                );
+    // 'markdownTableEditor.openTableAt' コマンドを登録します。
+    // 指定したドキュメントと行にあるテーブルを開きます (CodeLens やテーブル一覧から実行されます)。
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdownTableEditor.openTableAt', async (uri: vscode.Uri, line: number) => {
+            const document = await vscode.workspace.openTextDocument(uri);
+            const tableInfo = findTableAtPosition(document.getText(), line);
+            if (!tableInfo) {
+                vscode.window.showErrorMessage('The table is no longer at this position.');
+                return;
+            }
+
+            // 編集内容の反映が見えるよう、ドキュメントを表示していなければ先に表示します
+            if (!vscode.window.visibleTextEditors.some(e => e.document === document)) {
+                const position = new vscode.Position(line, 0);
+                await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+            }
+            panelManager.open(document, line, tableInfo);
+        })
+    );
 
-                // Two-way Sync: Update Webview when Markdown changes
-                const changeDocumentSubscription = vscode.workspace.onDidChangeTextDocument(e => {
-                    if (e.document === document && currentPanel) {
-                        // Check if the change is within the table
-                        // We need the CURRENT table bounds.
-                        const currentText = document.getText();
-                        const currentTableInfo = findTableAtPosition(currentText, tableInfo.range.startLine);
-
-                        if (currentTableInfo) {
-                            // Check if changes overlap with table
-                            // Simple optimization: Just parse and send. The Webview can decide if it needs to update (avoid loop).
-                            // But we should debounce this?
-                            // For now, let's send it.
-                            const newTableData = parseMarkdownTable(currentTableInfo.content);
-                            currentPanel.webview.postMessage({
-                                command: 'syncData',
-                                data: newTableData
-                            });
-                        }
-                    }
-                });
-                // Ensure subscription is disposed when panel is closed
-                currentPanel.onDidDispose(() => {
-                    changeDocumentSubscription.dispose();
-                    currentPanel = undefined;
-                }, null, context.subscriptions);
+    // 'markdownTableEditor.insertTable' コマンドを登録します。
+    // 大きさを選択して空のテーブルをカーソル位置に挿入し、そのままWebviewで開きます。
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdownTableEditor.insertTable', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
             }
 
-            // Get path to the webpack bundled webview script
-            const scriptPathOnDisk = vscode.Uri.file(
-                // @ts-ignore
-                // path is available via require in node env but we need to assume files exist relative to this file
-                // actually better to use context.extensionPath
-                context.extensionPath + '/dist/webview.js'
-            );
-            const scriptUri = currentPanel.webview.asWebviewUri(scriptPathOnDisk);
+            const size = await pickTableSize();
+            if (!size) {
+                return;
+            }
 
-            currentPanel.webview.html = getWebviewContent(scriptUri, tableData);
+            const startLine = await insertTableAtCursor(editor, generateMarkdownTable(createEmptyTable(size.rows, size.columns), getTableFormatOptions(editor.document)));
+            if (startLine === undefined) {
+                return;
+            }
+
+            const tableInfo = findTableAtPosition(editor.document.getText(), startLine);
+            if (tableInfo) {
+                panelManager.open(editor.document, startLine, tableInfo);
+            }
         })
     );
-}
 
-/**
- * WebviewのHTMLコンテンツを生成します。
- * Reactアプリケーションのエントリーポイントを含みます。
- */
-function getWebviewContent(scriptUri: vscode.Uri, initialData: string[][]) {
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Table Editor</title>
-</head>
-<body>
-    <div id="root"></div>
-    <script>
-        window.initialData = ${JSON.stringify(initialData)};
-        const vscode = acquireVsCodeApi();
-    </script>
-    <script src="${scriptUri}"></script>
-</body>
-</html>`;
+    // CSV / TSV / JSON / HTML のインポート・エクスポート
+    registerFormatCommands(context);
+
+    // テーブルの整形 (コマンド、フォーマッター、保存時の整形)
+    registerTableFormatter(context);
+
+    // テキストエディタ上でのテーブル編集 (セル間の移動、行・列の操作)
+    registerTableTextCommands(context);
+
+    // テーブルの上のCodeLensと、エクスプローラーのテーブル一覧
+    registerTableCodeLens(context);
+    registerTableOutline(context);
+
+    // 列の種類に合っていないセルの一覧
+    registerTableValidation(context);
+
+    // テキストエディタでの編集に合わせた計算列・集計行の再計算
+    registerTableRecalculation(context);
+
+    // CSV / TSV ファイルのグリッドエディタ
+    registerDelimitedEditor(context);
+
+    // 崩れたテーブルの診断とクイックフィックス
+    registerTableDiagnostics(context);
 }
 
 /**
@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { parseMarkdownTable, generateMarkdownTable, findTableAtPosition, MarkdownTable } from './markdownParser';
+import { exportTable, delimitedToTable, detectDelimiter, ExportFormat } from './formatConverter';
+import { getTableFormatOptions, getLineBreak } from './configuration';
+
+// 形式ごとのファイルの種類 (保存ダイアログ用)
+const EXPORT_FILE_TYPES: Record<ExportFormat, { label: string, extension: string }> = {
+    csv: { label: 'CSV', extension: 'csv' },
+    tsv: { label: 'TSV', extension: 'tsv' },
+    json: { label: 'JSON', extension: 'json' },
+    html: { label: 'HTML', extension: 'html' }
+};
+
+/**
+ * テーブルを指定した形式でファイルに保存します。
+ * 保存先は、Markdownファイルと同じ場所を初期値とした保存ダイアログで選択します。
+ * @param table エクスポートするテーブル
+ * @param format エクスポートする形式
+ * @param documentUri テーブルを含むMarkdownファイル
+ */
+export async function saveTableAs(table: MarkdownTable, format: ExportFormat, documentUri: vscode.Uri): Promise<void> {
+    const { label, extension } = EXPORT_FILE_TYPES[format];
+    const defaultUri = documentUri.scheme === 'file'
+        ? documentUri.with({ path: documentUri.path.replace(/\.[^/.]*$/, '') + '.' + extension })
+        : undefined;
+
+    const uri = await vscode.window.showSaveDialog({ defaultUri, filters: { [label]: [extension] } });
+    if (!uri) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(exportTable(table, format)));
+    vscode.window.showInformationMessage(`Table exported to ${vscode.workspace.asRelativePath(uri)}.`);
+}
+
+/**
+ * カーソル位置にMarkdownのテーブルを挿入します。
+ * 前後の段落とつながらないよう、必要に応じて空行を補います。
+ * @param markdown generateMarkdownTable で生成したテーブル文字列
+ * @returns 挿入したテーブルの開始行 (挿入に失敗した場合はundefined)
+ */
+export async function insertTableAtCursor(editor: vscode.TextEditor, markdown: string): Promise<number | undefined> {
+    const document = editor.document;
+    const line = editor.selection.active.line;
+    const isBlank = (index: number) => index < 0 || index >= document.lineCount || document.lineAt(index).isEmptyOrWhitespace;
+    const table = markdown.trimEnd();
+
+    let position: vscode.Position;
+    let text: string;
+    let startLine: number;
+    if (isBlank(line)) {
+        // Use the empty line for the table itself
+        position = new vscode.Position(line, 0);
+        text = (isBlank(line - 1) ? '' : '\n') + table + (isBlank(line + 1) ? '' : '\n');
+        startLine = line + (isBlank(line - 1) ? 0 : 1);
+    } else {
+        // Insert after the current line, separated by an empty line
+        position = document.lineAt(line).range.end;
+        text = '\n\n' + table + (isBlank(line + 1) ? '' : '\n');
+        startLine = line + 2;
+    }
+
+    const applied = await editor.edit(editBuilder => editBuilder.insert(position, text));
+    return applied ? startLine : undefined;
+}
+
+/**
+ * アクティブなエディタのカーソル位置にあるテーブルを取得します。
+ * 見つからない場合はエラーメッセージを表示してnullを返します。
+ */
+function getTableAtCursor(): { table: MarkdownTable, document: vscode.TextDocument } | null {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor) {
+        return null;
+    }
+    const tableInfo = findTableAtPosition(editor.document.getText(), editor.selection.active.line);
+    if (!tableInfo) {
+        vscode.window.showErrorMessage('No Markdown table found at the cursor position.');
+        return null;
+    }
+    return { table: parseMarkdownTable(tableInfo.content), document: editor.document };
+}
+
+/**
+ * テーブルのインポート・エクスポートに関するコマンドを登録します。
+ */
+export function registerFormatCommands(context: vscode.ExtensionContext) {
+    // カーソル位置のテーブルを各形式でエクスポート
+    const exportCommands: Record<string, ExportFormat> = {
+        'markdownTableEditor.exportCsv': 'csv',
+        'markdownTableEditor.exportTsv': 'tsv',
+        'markdownTableEditor.exportJson': 'json',
+        'markdownTableEditor.exportHtml': 'html'
+    };
+    for (const [command, format] of Object.entries(exportCommands)) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(command, () => {
+                const found = getTableAtCursor();
+                if (found) {
+                    return saveTableAs(found.table, format, found.document.uri);
+                }
+            })
+        );
+    }
+
+    // 選択範囲のCSV/TSVをMarkdownのテーブルに変換
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdownTableEditor.convertSelectionToTable', () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+            const text = editor.document.getText(editor.selection);
+            if (text.trim() === '') {
+                vscode.window.showErrorMessage('Select CSV or TSV text to convert to a Markdown table.');
+                return;
+            }
+
+            const markdown = generateMarkdownTable(delimitedToTable(text.trim(), undefined, getLineBreak(editor.document)), getTableFormatOptions(editor.document));
+            // 選択範囲が改行で終わっていない場合は、後ろの行とつなげたままにする
+            return editor.edit(editBuilder => {
+                editBuilder.replace(editor.selection, /\r?\n$/.test(text) ? markdown : markdown.trimEnd());
+            });
+        })
+    );
+
+    // CSV/TSVファイルを読み込んでカーソル位置にテーブルとして挿入
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdownTableEditor.insertTableFromCsv', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'CSV / TSV': ['csv', 'tsv', 'txt'] }
+            });
+            if (!uris || uris.length === 0) {
+                return;
+            }
+
+            const text = new TextDecoder('utf-8').decode(await vscode.workspace.fs.readFile(uris[0]));
+            if (text.trim() === '') {
+                vscode.window.showErrorMessage('The selected file does not contain any data.');
+                return;
+            }
+            const delimiter = uris[0].path.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(text);
+            await insertTableAtCursor(editor, generateMarkdownTable(delimitedToTable(text, delimiter, getLineBreak(editor.document)), getTableFormatOptions(editor.document)));
+        })
+    );
+}
@@ -0,0 +1,203 @@
+import { MarkdownTable, ColumnAlignment } from './markdownParser';
+
+/**
+ * テーブルと他の形式 (CSV, TSV, JSON, HTML) との相互変換
+ *
+ * CSV/TSV は RFC 4180 の規則に従います:
+ * - 区切り文字・ダブルクォート・改行を含むフィールドはダブルクォートで囲む
+ * - フィールド内のダブルクォートは2つ重ねる ("")
+ * Markdownのセル内改行 (`<br>`) は、CSV/TSV/JSON では改行文字として扱います。
+ */
+
+/** エクスポートできる形式 */
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'html';
+
+/** 区切り文字付きテキストの書き出しオプション */
+export interface DelimitedOptions {
+    /** 区切り文字 (既定: カンマ) */
+    delimiter?: string;
+    /** 改行コード (既定: RFC 4180 の CRLF) */
+    lineEnding?: string;
+}
+
+/**
+ * セル内の `<br>` (`<br/>`, `<br />` を含む) を改行文字に変換します。
+ */
+export function brToNewline(cell: string): string {
+    return cell.replace(/<br\s*\/?>/gi, '\n');
+}
+
+/**
+ * 改行文字を `<br>` に変換します (Markdownのセルは1行で表す必要があるため)。
+ * @param lineBreak 改行を表すタグ (設定 markdownTableEditor.lineBreak)
+ */
+export function newlineToBr(cell: string, lineBreak: string = '<br>'): string {
+    return cell.replace(/\r\n|\r|\n/g, lineBreak);
+}
+
+/**
+ * RFC 4180 の規則に従ってフィールドを必要に応じてダブルクォートで囲みます。
+ */
+export function quoteField(field: string, delimiter: string): string {
+    const needsQuotes = field.includes(delimiter) || /["\r\n]/.test(field);
+    return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * 2次元配列を区切り文字付きテキスト (CSV/TSV) に変換します。
+ */
+export function toDelimited(rows: string[][], options: DelimitedOptions = {}): string {
+    const delimiter = options.delimiter ?? ',';
+    const lineEnding = options.lineEnding ?? '\r\n';
+    return rows.map(row => row.map(field => quoteField(field, delimiter)).join(delimiter)).join(lineEnding);
+}
+
+/**
+ * 区切り文字付きテキスト (CSV/TSV) を RFC 4180 の規則に従って解析します。
+ * ダブルクォートで囲まれたフィールド内の区切り文字・改行はフィールドの一部として扱います。
+ * 末尾の改行は無視します。
+ */
+export function parseDelimited(text: string, delimiter: string = ','): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const source = text.replace(/^\uFEFF/, '').replace(/(?:\r\n|\r|\n)$/, '');
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (inQuotes) {
+            if (ch === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    row.push(field);
+    rows.push(row);
+    return rows;
+}
+
+/**
+ * テキストの区切り文字を推定します。
+ * 引用符の外にある最初の行のタブ・カンマ・セミコロンの数で判定します。
+ */
+export function detectDelimiter(text: string): string {
+    const unquoted = (text.split(/\r?\n/)[0] || '').replace(/"[^"]*"/g, '');
+    const candidates = ['\t', ',', ';'];
+    const counts = candidates.map(c => unquoted.split(c).length - 1);
+    const max = Math.max(...counts);
+    return max > 0 ? candidates[counts.indexOf(max)] : ',';
+}
+
+/**
+ * 区切り文字付きテキストからテーブルを作成します。1行目をヘッダーとして扱います。
+ * 列数は最も多い行に合わせ、足りないセルは空文字で補います。
+ * @param lineBreak セル内の改行を表すタグ
+ */
+export function delimitedToTable(text: string, delimiter: string = detectDelimiter(text), lineBreak: string = '<br>'): MarkdownTable {
+    const rows = parseDelimited(text, delimiter).map(row => row.map(cell => newlineToBr(cell.trim(), lineBreak)));
+    const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const data = rows.map(row => row.length < width ? [...row, ...new Array(width - row.length).fill('')] : row);
+    return { data, alignments: new Array<ColumnAlignment>(width).fill('none') };
+}
+
+/**
+ * テーブルを区切り文字付きテキストに変換します。セル内の `<br>` は改行になります。
+ */
+export function tableToDelimited(table: MarkdownTable, options: DelimitedOptions = {}): string {
+    return toDelimited(table.data.map(row => row.map(brToNewline)), options);
+}
+
+/**
+ * テーブルをJSON (ヘッダーをキーとするオブジェクトの配列) に変換します。
+ * 空のヘッダーは `column{列番号}`、重複したヘッダーは `_2`, `_3` などの接尾辞を付けたキーにします。
+ */
+export function tableToJson(table: MarkdownTable): string {
+    const [header = [], ...body] = table.data;
+    const used = new Set<string>();
+    const keys = header.map((name, i) => {
+        const base = name.trim() || `column${i + 1}`;
+        let key = base;
+        for (let n = 2; used.has(key); n++) {
+            key = `${base}_${n}`;
+        }
+        used.add(key);
+        return key;
+    });
+    const records = body.map(row => {
+        const record: Record<string, string> = {};
+        keys.forEach((key, i) => {
+            record[key] = brToNewline(row[i] || '');
+        });
+        return record;
+    });
+    return JSON.stringify(records, null, 2);
+}
+
+/**
+ * HTMLの特殊文字をエスケープします。セル内改行の `<br>` はそのまま残します。
+ */
+function escapeHtml(text: string): string {
+    return text.split(/<br\s*\/?>/i).map(part => part
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')).join('<br>');
+}
+
+/**
+ * テーブルをHTMLの `<table>` に変換します。列の配置は text-align で表します。
+ */
+export function tableToHtml(table: MarkdownTable): string {
+    const [header = [], ...body] = table.data;
+    const cell = (tag: string, value: string, i: number) => {
+        const alignment = table.alignments[i];
+        const style = alignment && alignment !== 'none' ? ` style="text-align: ${alignment}"` : '';
+        return `<${tag}${style}>${escapeHtml(value)}</${tag}>`;
+    };
+    const lines = [
+        '<table>',
+        '  <thead>',
+        `    <tr>${header.map((value, i) => cell('th', value, i)).join('')}</tr>`,
+        '  </thead>',
+        '  <tbody>',
+        ...body.map(row => `    <tr>${header.map((_, i) => cell('td', row[i] || '', i)).join('')}</tr>`),
+        '  </tbody>',
+        '</table>'
+    ];
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * テーブルを指定した形式の文字列に変換します。
+ */
+export function exportTable(table: MarkdownTable, format: ExportFormat): string {
+    switch (format) {
+        case 'csv':
+            return tableToDelimited(table, { delimiter: ',' }) + '\r\n';
+        case 'tsv':
+            return tableToDelimited(table, { delimiter: '\t' }) + '\r\n';
+        case 'json':
+            return tableToJson(table) + '\n';
+        case 'html':
+            return tableToHtml(table);
+    }
+}
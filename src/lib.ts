@@ -0,0 +1,36 @@
+/**
+ * Markdown Table Editor のライブラリ
+ *
+ * 拡張機能と同じ規則でテーブルを解析・整形する関数を、VS Code に依存せずに提供します
+ * (dist/lib.js)。コマンドライン (md-table) や、pre-commit フック・CI のスクリプトから使います。
+ *
+ * このファイルから vscode を参照するモジュールを読み込まないでください
+ * (webpack の設定で vscode を外部モジュールにしていないため、ビルドが失敗します)。
+ */
+import { formatTables, applyTableFormatEdits, TableFormatOptions } from './markdownParser';
+
+export {
+    parseMarkdownTable, generateMarkdownTable, createEmptyTable, splitTableRow, findTables, scanTables,
+    formatTables, recalculateTables, applyTableFormatEdits
+} from './markdownParser';
+export type {
+    MarkdownTable, ColumnAlignment, TableStyle, TableFormatOptions, TableLocation, TableSummary, TableFormatEdit
+} from './markdownParser';
+export { parseTableMetadata, serializeTableMetadata, findInvalidCells } from './tableMetadata';
+export type { TableMetadata, ColumnDefinition, ColumnDefinitions, SummaryFunction, InvalidCell } from './tableMetadata';
+export { applyTableFormulas } from './tableFormulas';
+export { getDisplayWidth } from './displayWidth';
+export type { AmbiguousWidth } from './displayWidth';
+export { findTableProblems } from './tableLint';
+export type { TableProblem, TableProblemKind, TableLintOptions } from './tableLint';
+
+/**
+ * Markdownのテキスト内のすべてのテーブルを整形します (計算列・集計行も計算し直します)。
+ * テーブル以外の部分と改行コードは変更しません。
+ * @param markdown Markdownのテキスト
+ * @param options 生成オプション
+ * @returns 整形後のテキスト
+ */
+export function formatMarkdown(markdown: string, options: TableFormatOptions = {}): string {
+    return applyTableFormatEdits(markdown, formatTables(markdown, undefined, undefined, options));
+}
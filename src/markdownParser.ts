@@ -1,69 +1,357 @@
 
+import { getDisplayWidth, AmbiguousWidth } from './displayWidth';
+import { parseTableMetadata, TableMetadata } from './tableMetadata';
+import { applyTableFormulas, hasTableFormulas, hasSummaryRow, getSummaryRowKey, restoreSummaryRowPosition } from './tableFormulas';
+
+/**
+ * 列の配置 (区切り行の `:---`, `---:`, `:---:` に対応)
+ * 'none' は配置指定なし (`---`) を表します。
+ */
+export type ColumnAlignment = 'none' | 'left' | 'center' | 'right';
+
+/**
+ * テーブルのモデル
+ * data[0] がヘッダー行、以降がデータ行です。alignments は列ごとの配置です。
+ */
+export interface MarkdownTable {
+    data: string[][];
+    alignments: ColumnAlignment[];
+}
+
+/**
+ * 区切り行のセル1つから配置を判定します。区切りセルでない場合はnullを返します。
+ */
+function parseAlignment(cell: string): ColumnAlignment | null {
+    const match = cell.match(/^(:?)-+(:?)$/);
+    if (!match) return null;
+    const [, left, right] = match;
+    if (left && right) return 'center';
+    if (left) return 'left';
+    if (right) return 'right';
+    return 'none';
+}
+
+// HTMLのタグ・コメント (CommonMarkの raw HTML 定義に準拠した簡易版)
+const HTML_TAG_PATTERN = /<!--[\s\S]*?-->|<\/[A-Za-z][A-Za-z0-9-]*\s*>|<[A-Za-z][A-Za-z0-9-]*(?:\s+[A-Za-z_:][A-Za-z0-9_.:-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>/y;
+
+/**
+ * 指定位置から始まるバッククォートの連続数を返します。
+ */
+function countBackticks(text: string, start: number): number {
+    let end = start;
+    while (text[end] === '`') end++;
+    return end - start;
+}
+
+/**
+ * コードスパンの閉じバッククォート (開きと同じ長さの連続) を探します。
+ * @returns 閉じバッククォートの開始位置、見つからない場合は -1
+ */
+export function findClosingBackticks(text: string, from: number, length: number): number {
+    let i = from;
+    while (i < text.length) {
+        if (text[i] === '`') {
+            const run = countBackticks(text, i);
+            if (run === length) return i;
+            i += run;
+        } else {
+            i++;
+        }
+    }
+    return -1;
+}
+
+/**
+ * テーブルの行内のセル (区切りの `|` を含まない範囲)
+ */
+interface RowToken {
+    /** セルの内容 (`\|` はエスケープ解除済み、前後の空白は未除去) */
+    text: string;
+    /** 行内での開始位置 */
+    start: number;
+    /** 行内での終了位置 (この位置を含まない) */
+    end: number;
+}
+
+/**
+ * テーブルの1行をGFMの規則に従ってセルに分割し、セルごとの位置を返します。
+ */
+function tokenizeTableRow(line: string): RowToken[] {
+    const offset = line.length - line.trimStart().length;
+    const text = line.trim();
+    const cells: RowToken[] = [];
+    let current = '';
+    let endsWithPipe = false;
+    let i = text.startsWith('|') ? 1 : 0;
+    let cellStart = i;
+
+    while (i < text.length) {
+        const ch = text[i];
+        endsWithPipe = false;
+
+        if (ch === '\\' && i + 1 < text.length) {
+            // Only escaped pipes are unescaped, other escapes belong to the inline content
+            current += text[i + 1] === '|' ? '|' : text.slice(i, i + 2);
+            i += 2;
+            continue;
+        }
+
+        if (ch === '`') {
+            const length = countBackticks(text, i);
+            const close = findClosingBackticks(text, i + length, length);
+            if (close !== -1) {
+                current += text.slice(i, close + length).replace(/\\\|/g, '|');
+                i = close + length;
+            } else {
+                current += text.slice(i, i + length);
+                i += length;
+            }
+            continue;
+        }
+
+        if (ch === '<') {
+            HTML_TAG_PATTERN.lastIndex = i;
+            const match = HTML_TAG_PATTERN.exec(text);
+            if (match) {
+                // 出力時に属性の中のパイプもエスケープされるため、コードスパンと同じく元に戻します
+                current += match[0].replace(/\\\|/g, '|');
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        if (ch === '|') {
+            cells.push({ text: current, start: offset + cellStart, end: offset + i });
+            current = '';
+            endsWithPipe = true;
+            i++;
+            cellStart = i;
+            continue;
+        }
+
+        current += ch;
+        i++;
+    }
+
+    if (!endsWithPipe) {
+        cells.push({ text: current, start: offset + cellStart, end: offset + text.length });
+    }
+    return cells;
+}
+
+/**
+ * テーブルの1行をGFMの規則に従ってセルに分割します。
+ * - `\|` はセル区切りではなく、セル内容の `|` として扱います
+ * - コードスパン (`` `a | b` ``) とHTMLタグ (`<span title="x|y">`) 内の `|` では分割しません
+ * - 行頭・行末の `|` は省略可能です
+ * @param line テーブルの行
+ * @returns 前後の空白を除去したセルの配列 (`\|` はエスケープ解除済み)
+ */
+export function splitTableRow(line: string): string[] {
+    return tokenizeTableRow(line).map(cell => cell.text.trim());
+}
+
+/**
+ * テーブルの行内でのセルの位置
+ */
+export interface CellRange {
+    /** セルの内容 (前後の空白を除く) の開始位置 */
+    start: number;
+    /** セルの内容の終了位置 (この位置を含まない) */
+    end: number;
+    /** 区切りの `|` の間の範囲 (前後の空白を含む) */
+    outerStart: number;
+    outerEnd: number;
+}
+
+/**
+ * テーブルの1行 (接頭辞を除いたもの) のセルごとの位置を返します。
+ * 空のセルの内容の位置は、区切りの `|` と1つの空白の後ろとします。
+ * @param line テーブルの行
+ */
+export function getCellRanges(line: string): CellRange[] {
+    return tokenizeTableRow(line).map(({ start, end }) => {
+        const raw = line.slice(start, end);
+        const content = raw.trim();
+        if (content === '') {
+            const position = Math.min(start + 1, end);
+            return { start: position, end: position, outerStart: start, outerEnd: end };
+        }
+        const contentStart = start + raw.length - raw.trimStart().length;
+        return { start: contentStart, end: contentStart + content.length, outerStart: start, outerEnd: end };
+    });
+}
+
+/**
+ * セル内容の `|` をエスケープします (splitTableRow の逆変換)。
+ */
+function escapeCell(cell: string): string {
+    return cell.replace(/\|/g, '\\|');
+}
+
 /**
- * Markdownテキストを解析して、2次元配列のグリッドデータに変換します。
+ * Markdownテキストを解析して、テーブルモデルに変換します。
+ * ヘッダーより短い行は空のセルで補完します。
  * @param text Markdownのテーブル文字列
- * @returns 文字列の2次元配列 (行 x 列)
+ * @returns グリッドデータ (行 x 列) と列ごとの配置
  */
-export function parseMarkdownTable(text: string): string[][] {
+export function parseMarkdownTable(text: string): MarkdownTable {
     const lines = text.trim().split(/\r?\n/);
     if (lines.length < 2) {
-        return [];
+        return { data: [], alignments: [] };
     }
 
-    const rows = lines.map(line => {
-        // Simple regex to split by pipe, ignoring escaped pipes could be added later if needed
-        const cells = line.split('|').map(cell => cell.trim());
-        // Remove first and last empty elements if the row starts/ends with a pipe
-        if (line.trim().startsWith('|')) cells.shift();
-        if (line.trim().endsWith('|')) cells.pop();
-        return cells;
-    });
+    const rows = lines.map(splitTableRow);
 
-    // Remove the separator line (usually the second line e.g. |---|---|)
-    // We assume the second line is structural if it contains dashes
-    if (rows.length > 1 && rows[1].every(cell => cell.match(/^[-:]+$/))) {
-        rows.splice(1, 1);
+    // Remove the separator line (usually the second line e.g. |:---|---:|)
+    // and keep the alignment it describes
+    const columnCount = rows[0].length;
+    let alignments: ColumnAlignment[] = new Array(columnCount).fill('none');
+    if (rows.length > 1) {
+        const parsed = rows[1].map(parseAlignment);
+        if (parsed.every(a => a !== null)) {
+            alignments = alignments.map((a, i) => parsed[i] || a);
+            rows.splice(1, 1);
+        }
     }
 
-    return rows;
+    // GFM: rows with fewer cells than the header are filled with empty cells
+    // (extra cells are kept so that editing never drops content)
+    const data = rows.map(row => row.length < columnCount
+        ? [...row, ...new Array(columnCount - row.length).fill('')]
+        : row);
+
+    return { data, alignments };
+}
+
+/**
+ * 新しい空のテーブルを作成します。ヘッダーには列名 (Column 1, Column 2, ...) を設定します。
+ * @param rows データ行の数 (ヘッダー行を除く)
+ * @param columns 列の数
+ */
+export function createEmptyTable(rows: number, columns: number): MarkdownTable {
+    const header = Array.from({ length: columns }, (_, i) => `Column ${i + 1}`);
+    const body = Array.from({ length: rows }, () => new Array<string>(columns).fill(''));
+    return { data: [header, ...body], alignments: new Array<ColumnAlignment>(columns).fill('none') };
+}
+
+/**
+ * 配置に合わせてセルを指定幅までパディングします。
+ */
+function padCell(cell: string, width: number, alignment: ColumnAlignment, ambiguousWidth: AmbiguousWidth): string {
+    const space = Math.max(0, width - getDisplayWidth(cell, ambiguousWidth));
+    switch (alignment) {
+        case 'right':
+            return ' '.repeat(space) + cell;
+        case 'center': {
+            const left = Math.floor(space / 2);
+            return ' '.repeat(left) + cell + ' '.repeat(space - left);
+        }
+        default:
+            return cell + ' '.repeat(space);
+    }
+}
+
+/**
+ * 指定幅の区切りセル (`---`, `:---`, `---:`, `:---:`) を生成します。
+ */
+function separatorCell(width: number, alignment: ColumnAlignment): string {
+    switch (alignment) {
+        case 'left':
+            return ':' + '-'.repeat(width - 1);
+        case 'right':
+            return '-'.repeat(width - 1) + ':';
+        case 'center':
+            return ':' + '-'.repeat(width - 2) + ':';
+        default:
+            return '-'.repeat(width);
+    }
+}
+
+/**
+ * テーブルの出力形式
+ * - 'padded': 列幅を揃えて整形します
+ * - 'compact': セルの前後に空白を1つ入れるだけで、列幅は揃えません
+ */
+export type TableStyle = 'padded' | 'compact';
+
+/**
+ * テーブル文字列の生成オプション
+ */
+export interface TableFormatOptions {
+    /** 曖昧な幅の文字 (East Asian Width = A) の表示幅 (既定: 1) */
+    ambiguousWidth?: AmbiguousWidth;
+    /** 出力形式 (既定: 'padded') */
+    style?: TableStyle;
+    /** 行頭・行末の `|` を付けるかどうか (既定: true) */
+    outerPipes?: boolean;
+    /** テーブルのメタデータ (計算列・集計行がある場合は、計算した値を書き出します) */
+    metadata?: TableMetadata;
+}
+
+/**
+ * 行頭・行末の `|` を省略できるかどうかを判定します。
+ * 1列だけのテーブルや、先頭・末尾のセルが空の行があるテーブルでは、
+ * `|` を省略すると列を判別できなくなるため省略しません。
+ */
+function canOmitOuterPipes(data: string[][]): boolean {
+    return data[0].length > 1 && data.every(row => row[0] !== '' && row[row.length - 1] !== '');
 }
 
 /**
- * 2次元配列のグリッドデータからMarkdownのテーブル文字列を生成します。
- * 列幅を計算して整形します。
- * @param data 文字列の2次元配列
+ * テーブルモデルからMarkdownのテーブル文字列を生成します。
+ * 列幅を計算し、列の配置に合わせて整形します。
+ * 列幅は文字数ではなく等幅フォントでの表示幅 (全角文字は2) で揃えます。
+ * @param table グリッドデータと列ごとの配置
+ * @param options 生成オプション
  * @returns 整形されたMarkdownテーブル文字列
  */
-export function generateMarkdownTable(data: string[][]): string {
-    if (data.length === 0) return '';
+export function generateMarkdownTable(table: MarkdownTable, options: TableFormatOptions = {}): string {
+    const { alignments } = table;
+    const ambiguousWidth = options.ambiguousWidth ?? 1;
+    const padded = (options.style ?? 'padded') === 'padded';
+    if (table.data.length === 0) return '';
 
-    // Calculate column widths for pretty printing
-    const colWidths: number[] = new Array(data[0].length).fill(0);
-    data.forEach(row => {
-        row.forEach((cell, i) => {
-            // Handle case where row might be shorter than header
-            if (i < colWidths.length) {
-                colWidths[i] = Math.max(colWidths[i], cell.length);
-            }
+    // Pipes typed into a cell must not become column delimiters.
+    // Rows shorter than the header are filled with empty cells, longer rows keep their extra cells
+    const columnCount = table.data[0].length;
+    const data = applyTableFormulas(table.data, options.metadata).map(row => (row.length < columnCount
+        ? [...row, ...new Array<string>(columnCount - row.length).fill('')]
+        : row).map(escapeCell));
+
+    // Calculate column widths for pretty printing (including the extra cells of longer rows)
+    const colWidths: number[] = new Array(data.reduce((max, row) => Math.max(max, row.length), 0)).fill(0);
+    if (padded) {
+        data.forEach(row => {
+            row.forEach((cell, i) => {
+                colWidths[i] = Math.max(colWidths[i], getDisplayWidth(cell, ambiguousWidth));
+            });
         });
-    });
+    }
 
     // Ensure minimum width of 3 for "---"
     for (let i = 0; i < colWidths.length; i++) {
         colWidths[i] = Math.max(colWidths[i], 3);
     }
 
+    const outerPipes = (options.outerPipes ?? true) || !canOmitOuterPipes(data);
+    const joinCells = (cells: string[]) => outerPipes ? '| ' + cells.join(' | ') + ' |' : cells.join(' | ');
+
     const formatRow = (row: string[]) => {
-        return '| ' + row.map((cell, i) => cell.padEnd(colWidths[i] || 0)).join(' | ') + ' |';
+        if (!padded) return joinCells(row);
+        const cells = row.map((cell, i) => padCell(cell, colWidths[i] || 0, alignments[i] || 'none', ambiguousWidth));
+        // Without the trailing pipe, padding after the last cell would only leave trailing whitespace
+        if (!outerPipes) cells[cells.length - 1] = cells[cells.length - 1].trimEnd();
+        return joinCells(cells);
     };
 
     const header = data[0];
     const body = data.slice(1);
 
-    const separator = colWidths.map(w => '-'.repeat(w));
+    const separator = colWidths.slice(0, columnCount).map((w, i) => separatorCell(w, alignments[i] || 'none'));
 
     let result = formatRow(header) + '\n';
-    result += '| ' + separator.join(' | ') + ' |\n';
+    result += joinCells(separator) + '\n';
 
     body.forEach(row => {
         result += formatRow(row) + '\n';
@@ -73,36 +361,523 @@ export function generateMarkdownTable(data: string[][]): string {
 }
 
 /**
- * 指定された行番号にあるテーブルを探し、その範囲と内容を返します。
- * 上下に探索を行ってテーブルの全範囲を特定します。
+ * ドキュメント内のテーブルの位置情報
+ */
+export interface TableLocation {
+    /** テーブルの開始行と終了行 (両端を含む) */
+    range: { startLine: number, endLine: number };
+    /** 引用 (`>`) やインデントの接頭辞を除いたテーブルの文字列 */
+    content: string;
+    /** ヘッダー行の接頭辞 (書き戻し時に各行の先頭に付与する) */
+    prefix: string;
+    /** テーブルの直前の行にあるメタデータ (列の種類など) */
+    metadata?: TableMetadata;
+    /** メタデータのHTMLコメントの行 */
+    metadataLine?: number;
+}
+
+/**
+ * 行を引用・インデントの接頭辞と本文に分割します。
+ */
+function splitLinePrefix(line: string): { prefix: string, quoteDepth: number, content: string } {
+    const prefix = line.match(/^(?:[ \t]*>[ \t]?)*[ \t]*/)![0];
+    const quoteDepth = (prefix.match(/>/g) || []).length;
+    return { prefix, quoteDepth, content: line.slice(prefix.length).trimEnd() };
+}
+
+/**
+ * 区切り行 (`| --- | :-: |`) であれば列数を、そうでなければ -1 を返します。
+ */
+function delimiterColumnCount(content: string): number {
+    if (!/^[\s|:-]+$/.test(content) || !content.includes('-')) return -1;
+    const cells = splitTableRow(content);
+    return cells.every(cell => parseAlignment(cell) !== null) ? cells.length : -1;
+}
+
+/**
+ * GFMでテーブルを中断させるブロック要素の開始行かどうかを判定します。
+ */
+function isBlockStart(content: string): boolean {
+    return /^#{1,6}(?:\s|$)/.test(content)        // ATX heading
+        || /^(?:`{3,}|~{3,})/.test(content)         // fenced code
+        || /^([-*_])(?:[ \t]*\1){2,}[ \t]*$/.test(content) // thematic break
+        || /^(?:[-+*]|\d{1,9}[.)])[ \t]+\S/.test(content) && !content.includes('|'); // list item
+}
+
+// HTMLブロックの開始条件と終了条件 (CommonMark の HTML blocks 1〜7)
+const HTML_BLOCK_TAGS = 'address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul';
+const HTML_BLOCK_RULES: { start: RegExp, end: RegExp | null }[] = [
+    { start: /^<(?:script|pre|style|textarea)(?:\s|>|$)/i, end: /<\/(?:script|pre|style|textarea)>/i },
+    { start: /^<!--/, end: /-->/ },
+    { start: /^<\?/, end: /\?>/ },
+    { start: /^<![A-Za-z]/, end: />/ },
+    { start: /^<!\[CDATA\[/, end: /\]\]>/ },
+    { start: new RegExp(`^</?(?:${HTML_BLOCK_TAGS})(?:\\s|/?>|$)`, 'i'), end: null },
+    { start: /^(?:<[A-Za-z][A-Za-z0-9-]*(?:\s+[A-Za-z_:][A-Za-z0-9_.:-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*\s*\/?>|<\/[A-Za-z][A-Za-z0-9-]*\s*>)\s*$/, end: null }
+];
+
+/**
+ * 指定行から始まるHTMLブロックの最終行を返します。HTMLブロックでなければ -1 を返します。
+ * 終了条件を持たないブロックは空行の直前までとします。
+ */
+function findHtmlBlockEnd(lines: string[], start: number): number {
+    const content = splitLinePrefix(lines[start]).content;
+    const rule = HTML_BLOCK_RULES.find(r => r.start.test(content));
+    if (!rule) return -1;
+    for (let i = start; i < lines.length; i++) {
+        if (rule.end ? rule.end.test(lines[i]) : i + 1 >= lines.length || lines[i + 1].trim() === '') {
+            return i;
+        }
+    }
+    return lines.length - 1;
+}
+
+/**
+ * 指定行から始まるフェンスコードブロックの最終行を返します。フェンスでなければ -1 を返します。
+ */
+function findFenceEnd(lines: string[], start: number): number {
+    const fence = splitLinePrefix(lines[start]).content.match(/^(`{3,}|~{3,})/);
+    if (!fence) return -1;
+    const closing = new RegExp(`^${fence[1][0]}{${fence[1].length},}\\s*$`);
+    for (let i = start + 1; i < lines.length; i++) {
+        if (closing.test(splitLinePrefix(lines[i]).content)) {
+            return i;
+        }
+    }
+    return lines.length - 1;
+}
+
+/**
+ * 先頭のフロントマター (`---` で囲まれたYAMLなど) の最終行を返します。無ければ -1 を返します。
+ */
+function findFrontMatterEnd(lines: string[]): number {
+    if (lines.length === 0 || !/^(?:---|\+\+\+)\s*$/.test(lines[0])) return -1;
+    const closing = lines[0].trim() === '---' ? /^(?:---|\.\.\.)\s*$/ : /^\+\+\+\s*$/;
+    for (let i = 1; i < lines.length; i++) {
+        if (closing.test(lines[i])) return i;
+    }
+    return -1;
+}
+
+/**
+ * 引用の記号を除いた行頭のインデントの幅を返します (タブは4文字の位置までとします)。
+ */
+function getIndentWidth(prefix: string): number {
+    let width = 0;
+    for (const ch of prefix.replace(/^(?:[ \t]*>[ \t]?)*/, '')) {
+        width = ch === '\t' ? width + 4 - width % 4 : width + 1;
+    }
+    return width;
+}
+
+/**
+ * インデントされたコードブロックの行を返します。
+ * リスト項目の内容の位置より4文字以上深くインデントされた行で、段落の途中ではないものをコードブロックとします。
+ * リスト項目内でその内容の位置までインデントされたテーブルは、コードブロックになりません。
+ */
+function findIndentedCodeLines(lines: string[]): Set<number> {
+    const codeLines = new Set<number>();
+    // 直前のリスト項目の内容の開始位置 (リストの外では 0)
+    let listIndent = 0;
+    let quoteDepth = 0;
+    // 段落の途中ではない (空行やコードブロックの直後) かどうか
+    let canStartCode = true;
+    lines.forEach((line, index) => {
+        const { prefix, quoteDepth: depth, content } = splitLinePrefix(line);
+        if (depth !== quoteDepth) {
+            quoteDepth = depth;
+            listIndent = 0;
+            canStartCode = true;
+        }
+        if (content === '') {
+            canStartCode = true;
+            return;
+        }
+        const indent = getIndentWidth(prefix);
+        if (canStartCode && indent >= listIndent + 4) {
+            codeLines.add(index);
+            return;
+        }
+        const marker = /^([-*_])(?:[ \t]*\1){2,}[ \t]*$/.test(content) ? null : content.match(/^(?:[-+*]|\d{1,9}[.)])(?:[ \t]+|$)/);
+        if (marker) {
+            listIndent = indent + marker[0].length;
+        } else if (canStartCode && indent < listIndent) {
+            // 空行の後の、リスト項目の内容より浅い行でリストが終わります
+            listIndent = 0;
+        }
+        canStartCode = false;
+    });
+    return codeLines;
+}
+
+/**
+ * 指定行がテーブルのヘッダー行 (直後に列数の一致する区切り行が続く) であるかを判定します。
+ */
+function isTableHeader(lines: string[], index: number): boolean {
+    if (index + 1 >= lines.length) return false;
+    const header = splitLinePrefix(lines[index]);
+    const delimiter = splitLinePrefix(lines[index + 1]);
+    if (header.content === '' || header.quoteDepth !== delimiter.quoteDepth || isBlockStart(header.content)) {
+        return false;
+    }
+    // A single column without any pipe would be a setext heading instead
+    if (!header.content.includes('|') && !delimiter.content.includes('|')) {
+        return false;
+    }
+    return delimiterColumnCount(delimiter.content) === splitTableRow(header.content).length;
+}
+
+/**
+ * ドキュメント全体を走査して、GFMの規則に従ってすべてのテーブルを検出します。
+ * フェンスコードブロック、インデントされたコードブロック、フロントマター、HTMLブロック内は対象外です。
+ * 引用 (`> | a |`) やリスト項目内のインデントされたテーブルにも対応します。
+ * @param documentText ドキュメント全体のテキスト
+ * @returns 検出したテーブルの位置情報 (出現順)
+ */
+export function findTables(documentText: string): TableLocation[] {
+    const lines = documentText.split(/\r?\n/);
+    const tables: TableLocation[] = [];
+    const indentedCode = findIndentedCodeLines(lines);
+
+    let i = findFrontMatterEnd(lines) + 1;
+    while (i < lines.length) {
+        if (indentedCode.has(i)) {
+            i++;
+            continue;
+        }
+        const skipTo = Math.max(findFenceEnd(lines, i), findHtmlBlockEnd(lines, i));
+        if (skipTo >= 0) {
+            i = skipTo + 1;
+            continue;
+        }
+        if (!isTableHeader(lines, i)) {
+            i++;
+            continue;
+        }
+
+        const header = splitLinePrefix(lines[i]);
+        const contentLines = [header.content, splitLinePrefix(lines[i + 1]).content];
+        let end = i + 1;
+        // The table is broken at the first empty line or the beginning of another block
+        while (end + 1 < lines.length) {
+            const row = splitLinePrefix(lines[end + 1]);
+            if (row.content === '' || row.quoteDepth !== header.quoteDepth || isBlockStart(row.content)
+                || isTableHeader(lines, end + 1) || findHtmlBlockEnd(lines, end + 1) >= 0) {
+                break;
+            }
+            contentLines.push(row.content);
+            end++;
+        }
+
+        const location: TableLocation = {
+            range: { startLine: i, endLine: end },
+            content: contentLines.join('\n'),
+            prefix: header.prefix
+        };
+        // 直前の行 (同じ引用の深さ) のメタデータのコメント
+        if (i > 0) {
+            const previous = splitLinePrefix(lines[i - 1]);
+            const metadata = previous.quoteDepth === header.quoteDepth ? parseTableMetadata(previous.content) : null;
+            if (metadata) {
+                location.metadata = metadata;
+                location.metadataLine = i - 1;
+            }
+        }
+        tables.push(location);
+        i = end + 1;
+    }
+
+    return tables;
+}
+
+/**
+ * テーブルの形をしているが、区切り行がないか正しくないためにテーブルとして認識されない行のまとまり
+ */
+export interface MalformedTable {
+    /**
+     * - 'missingDelimiter': ヘッダーの次の行が区切り行ではない
+     * - 'invalidDelimiter': 区切り行の列数がヘッダーと合わないか、書式が正しくない
+     */
+    kind: 'missingDelimiter' | 'invalidDelimiter';
+    /** 行のまとまりの開始行と終了行 (両端を含む) */
+    range: { startLine: number, endLine: number };
+    /** ヘッダー行の接頭辞 */
+    prefix: string;
+    /** ヘッダー行のセルの数 */
+    columnCount: number;
+    /** 区切り行から読み取れた列ごとの配置 (読み取れない列と、区切り行がない場合は 'none') */
+    alignments: ColumnAlignment[];
+}
+
+/**
+ * `|` で始まる行が2行以上続いているのに、テーブルとして認識されない箇所を探します。
+ * フェンスコードブロック、インデントされたコードブロック、フロントマター、HTMLブロック内と、正しいテーブルは対象外です。
+ * @param documentText ドキュメント全体のテキスト
+ * @returns 見つかった箇所 (出現順)
+ */
+export function findMalformedTables(documentText: string): MalformedTable[] {
+    const lines = documentText.split(/\r?\n/);
+    const tableEnds = new Map(findTables(documentText).map(t => [t.range.startLine, t.range.endLine]));
+    const results: MalformedTable[] = [];
+    const indentedCode = findIndentedCodeLines(lines);
+
+    let i = findFrontMatterEnd(lines) + 1;
+    while (i < lines.length) {
+        const tableEnd = tableEnds.get(i);
+        if (tableEnd !== undefined) {
+            i = tableEnd + 1;
+            continue;
+        }
+        if (indentedCode.has(i)) {
+            i++;
+            continue;
+        }
+        const skipTo = Math.max(findFenceEnd(lines, i), findHtmlBlockEnd(lines, i));
+        if (skipTo >= 0) {
+            i = skipTo + 1;
+            continue;
+        }
+        const header = splitLinePrefix(lines[i]);
+        if (!header.content.startsWith('|')) {
+            i++;
+            continue;
+        }
+
+        let end = i;
+        while (end + 1 < lines.length && !tableEnds.has(end + 1)) {
+            const row = splitLinePrefix(lines[end + 1]);
+            if (row.quoteDepth !== header.quoteDepth || !row.content.startsWith('|')) break;
+            end++;
+        }
+        // 1行だけの場合は、テーブルを書きかけているとはみなしません
+        if (end > i) {
+            const columnCount = splitTableRow(header.content).length;
+            const second = splitLinePrefix(lines[i + 1]).content;
+            const isDelimiterLike = /^[\s|:-]+$/.test(second) && second.includes('-');
+            const cells = isDelimiterLike ? splitTableRow(second) : [];
+            results.push({
+                kind: isDelimiterLike ? 'invalidDelimiter' : 'missingDelimiter',
+                range: { startLine: i, endLine: end },
+                prefix: header.prefix,
+                columnCount,
+                alignments: Array.from({ length: columnCount }, (_, col) => (cells[col] !== undefined && parseAlignment(cells[col])) || 'none')
+            });
+        }
+        i = end + 1;
+    }
+
+    return results;
+}
+
+/**
+ * 配置から区切り行 (`| --- | :-: |`) を生成します。
+ * @param alignments 列ごとの配置
+ */
+export function generateDelimiterRow(alignments: ColumnAlignment[]): string {
+    return '| ' + alignments.map(alignment => separatorCell(3, alignment)).join(' | ') + ' |';
+}
+
+/**
+ * ドキュメント内のテーブルの概要 (テーブルの一覧やCodeLensに表示する情報)
+ */
+export interface TableSummary {
+    location: TableLocation;
+    /** ヘッダー行のセル */
+    header: string[];
+    /** データ行の数 (ヘッダー行を除く) */
+    rowCount: number;
+    columnCount: number;
+    /** テーブルより前にある最も近い見出しのテキスト (見出しがない場合は null) */
+    heading: string | null;
+}
+
+/**
+ * 指定行が見出し (ATX見出し、またはSetext見出しの下線) であれば見出しのテキストを返します。
+ * 見出しでなければ undefined を返します。
+ * @param paragraphStart Setext見出しのテキストとみなせる最初の行 (直前のブロックの次の行)
+ */
+function getHeadingText(lines: string[], index: number, paragraphStart: number): string | undefined {
+    const content = splitLinePrefix(lines[index]).content;
+    const atx = content.match(/^#{1,6}(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/);
+    if (atx) return (atx[1] || '').trim();
+    if (index > paragraphStart && /^(?:=+|-+)[ \t]*$/.test(content)) {
+        const previous = splitLinePrefix(lines[index - 1]).content;
+        if (previous !== '' && !isBlockStart(previous)) return previous.trim();
+    }
+    return undefined;
+}
+
+/**
+ * ドキュメント全体を走査して、すべてのテーブルとその大きさ、直前の見出しを返します。
+ * テーブルの検出は findTables と同じ規則で、フェンスコードブロックなどの中の見出しは無視します。
+ * @param documentText ドキュメント全体のテキスト
+ * @returns テーブルの概要 (出現順)
+ */
+export function scanTables(documentText: string): TableSummary[] {
+    const lines = documentText.split(/\r?\n/);
+    const summaries: TableSummary[] = [];
+    let heading: string | null = null;
+    let line = findFrontMatterEnd(lines) + 1;
+    let paragraphStart = line;
+
+    for (const location of findTables(documentText)) {
+        // テーブルの手前までの見出しを探します
+        while (line < location.range.startLine) {
+            const skipTo = Math.max(findFenceEnd(lines, line), findHtmlBlockEnd(lines, line));
+            if (skipTo >= 0) {
+                line = paragraphStart = skipTo + 1;
+                continue;
+            }
+            if (lines[line].trim() === '') {
+                paragraphStart = line + 1;
+            }
+            const text = getHeadingText(lines, line, paragraphStart);
+            if (text !== undefined) {
+                heading = text || null;
+                paragraphStart = line + 1;
+            }
+            line++;
+        }
+
+        const table = parseMarkdownTable(location.content);
+        summaries.push({
+            location,
+            header: table.data[0] || [],
+            rowCount: Math.max(table.data.length - 1, 0),
+            columnCount: table.alignments.length,
+            heading
+        });
+        line = paragraphStart = location.range.endLine + 1;
+    }
+
+    return summaries;
+}
+
+/**
+ * 指定された行番号を含むテーブルを探し、その範囲と内容を返します。
  * @param documentText ドキュメント全体のテキスト
  * @param lineIndex 探索を開始する行番号
  * @returns テーブルの情報 (範囲と内容)、または見つからない場合はnull
  */
-export function findTableAtPosition(documentText: string, lineIndex: number): { range: { startLine: number, endLine: number }, content: string } | null {
-    const lines = documentText.split(/\r?\n/);
+export function findTableAtPosition(documentText: string, lineIndex: number): TableLocation | null {
+    return findTables(documentText).find(t => t.range.startLine <= lineIndex && lineIndex <= t.range.endLine) || null;
+}
 
-    // Check if current line is part of a table
-    if (!lines[lineIndex].trim().includes('|')) {
-        return null;
+/**
+ * ヘッダー行が一致するテーブルを探します。複数ある場合は指定した行に最も近いものを返します。
+ * 一致するテーブルがない場合は、指定した行を含むテーブルを返します。
+ * ウィンドウの再読み込み後など、保存しておいたテーブルを探し直すときに使います。
+ * @param documentText ドキュメント全体のテキスト
+ * @param header テーブルのヘッダー行のセル
+ * @param nearLine テーブルがあった行
+ */
+export function findTableByHeader(documentText: string, header: string[], nearLine: number): TableLocation | null {
+    const tables = findTables(documentText);
+    const key = JSON.stringify(header);
+    const matches = tables.filter(t => JSON.stringify(parseMarkdownTable(t.content).data[0] || []) === key);
+    if (matches.length === 0) {
+        return tables.find(t => t.range.startLine <= nearLine && nearLine <= t.range.endLine) || null;
     }
+    const distance = (t: TableLocation) => Math.abs(t.range.startLine - nearLine);
+    return matches.reduce((nearest, t) => distance(t) < distance(nearest) ? t : nearest);
+}
 
-    let startLine = lineIndex;
-    let endLine = lineIndex;
+/**
+ * 生成したテーブル文字列の各行に接頭辞 (`> ` やインデント) を付与します。
+ * @param markdown generateMarkdownTable で生成したテーブル文字列
+ * @param prefix TableLocation.prefix
+ */
+export function applyLinePrefix(markdown: string, prefix: string): string {
+    return markdown.split('\n').map(line => line === '' ? line : prefix + line).join('\n');
+}
+
+/**
+ * テーブルの整形結果 (置き換える範囲と整形後の文字列)
+ */
+export interface TableFormatEdit {
+    /** 置き換える行の範囲 (両端を含む) */
+    range: { startLine: number, endLine: number };
+    /** 整形後のテーブル (接頭辞付き、末尾の改行なし) */
+    text: string;
+}
 
-    // Expand upwards
-    while (startLine > 0 && lines[startLine - 1].trim().includes('|')) {
-        startLine--;
+/**
+ * ドキュメント内のテーブルを整形 (列幅を揃える) するための置き換え内容を計算します。
+ * 既に整形済みのテーブルは含みません。
+ * @param documentText ドキュメント全体のテキスト
+ * @param startLine 対象とする範囲の開始行 (この範囲に一部でも含まれるテーブルが対象)
+ * @param endLine 対象とする範囲の終了行
+ * @param options 生成オプション
+ * @returns テーブルごとの置き換え内容 (出現順)
+ */
+export function formatTables(documentText: string, startLine: number = 0, endLine: number = Number.MAX_SAFE_INTEGER, options: TableFormatOptions = {}): TableFormatEdit[] {
+    const lines = documentText.split(/\r?\n/);
+    return findTables(documentText)
+        .filter(t => t.range.startLine <= endLine && startLine <= t.range.endLine)
+        .map(t => ({
+            range: t.range,
+            text: applyLinePrefix(generateMarkdownTable(parseMarkdownTable(t.content), { ...options, metadata: t.metadata }).trim(), t.prefix)
+        }))
+        .filter(edit => edit.text !== lines.slice(edit.range.startLine, edit.range.endLine + 1).join('\n'));
+}
+
+/**
+ * ドキュメント内のテーブルの集計行を返します (recalculateTables の knownSummaryRows に渡します)。
+ * @param documentText ドキュメント全体のテキスト
+ */
+export function collectSummaryRows(documentText: string): Set<string> {
+    const rows = new Set<string>();
+    for (const t of findTables(documentText)) {
+        if (!hasSummaryRow(t.metadata)) continue;
+        const { data } = parseMarkdownTable(t.content);
+        if (data.length >= 2) {
+            rows.add(getSummaryRowKey(data[data.length - 1]));
+        }
     }
+    return rows;
+}
 
-    // Expand downwards
-    while (endLine < lines.length - 1 && lines[endLine + 1].trim().includes('|')) {
-        endLine++;
+/**
+ * 計算列・集計行の値が元のセルと合わなくなったテーブルを、計算し直すための置き換え内容を計算します。
+ * 計算式のないテーブルや、値が最新のテーブルは含みません。
+ * @param documentText ドキュメント全体のテキスト
+ * @param options 生成オプション
+ * @param knownSummaryRows 前回計算したときの集計行 (集計行の下に入力された行を、集計行の上に移すために使います)
+ * @returns テーブルごとの置き換え内容 (出現順)
+ */
+export function recalculateTables(documentText: string, options: TableFormatOptions = {}, knownSummaryRows: ReadonlySet<string> = new Set()): TableFormatEdit[] {
+    const edits: TableFormatEdit[] = [];
+    for (const t of findTables(documentText)) {
+        if (!hasTableFormulas(t.metadata)) continue;
+        const table = parseMarkdownTable(t.content);
+        const calculated = applyTableFormulas(restoreSummaryRowPosition(table.data, t.metadata, knownSummaryRows), t.metadata);
+        if (calculated.every((row, index) => row === table.data[index])) continue;
+        edits.push({
+            range: t.range,
+            text: applyLinePrefix(generateMarkdownTable({ data: calculated, alignments: table.alignments }, options).trim(), t.prefix)
+        });
     }
+    return edits;
+}
 
-    const content = lines.slice(startLine, endLine + 1).join('\n');
-    return {
-        range: { startLine, endLine },
-        content
-    };
+/**
+ * 置き換え内容をドキュメントのテキストに適用します (VS Code を使わずに整形するときに使います)。
+ * 置き換えた行の改行コードは元の行に合わせます。
+ * @param documentText ドキュメント全体のテキスト
+ * @param edits formatTables / recalculateTables の結果 (出現順)
+ * @returns 置き換え後のテキスト
+ */
+export function applyTableFormatEdits(documentText: string, edits: TableFormatEdit[]): string {
+    const lines = documentText.split('\n');
+    // 後ろのテーブルから置き換えると、前のテーブルの行番号が変わりません
+    for (const edit of [...edits].reverse()) {
+        const { startLine, endLine } = edit.range;
+        const cr = lines[startLine].endsWith('\r') ? '\r' : '';
+        // ファイルの最後の行 (改行で終わらない行) には改行コードを付けません
+        const lastLineCr = lines[endLine].endsWith('\r') ? cr : '';
+        const replaced = edit.text.split('\n');
+        lines.splice(startLine, endLine - startLine + 1,
+            ...replaced.map((line, index) => line + (index < replaced.length - 1 ? cr : lastLineCr)));
+    }
+    return lines.join('\n');
 }
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { scanTables } from './markdownParser';
+import { CONFIGURATION_SECTION } from './configuration';
+
+/**
+ * テーブルの行数・列数を表示用の文字列にします。
+ */
+export function formatTableSize(rows: number, columns: number): string {
+    return `${rows} ${rows === 1 ? 'row' : 'rows'} × ${columns} ${columns === 1 ? 'col' : 'cols'}`;
+}
+
+/**
+ * テーブルの上に「Edit table」のCodeLensを表示するプロバイダー
+ *
+ * クリックすると、そのテーブルを編集パネルで開きます。
+ * 設定 markdownTableEditor.codeLens で表示を切り替えられます。
+ */
+class TableCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly onDidChangeCodeLensesEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this.onDidChangeCodeLensesEmitter.event;
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!vscode.workspace.getConfiguration(CONFIGURATION_SECTION, document).get<boolean>('codeLens', true)) {
+            return [];
+        }
+        return scanTables(document.getText()).map(table => {
+            const line = table.location.range.startLine;
+            return new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+                title: `Edit table · ${formatTableSize(table.rowCount, table.columnCount)}`,
+                command: 'markdownTableEditor.openTableAt',
+                arguments: [document.uri, line]
+            });
+        });
+    }
+
+    /**
+     * CodeLensを再表示します (設定の変更時)。
+     */
+    refresh() {
+        this.onDidChangeCodeLensesEmitter.fire();
+    }
+
+    dispose() {
+        this.onDidChangeCodeLensesEmitter.dispose();
+    }
+}
+
+/**
+ * テーブルのCodeLensを登録します。
+ */
+export function registerTableCodeLens(context: vscode.ExtensionContext) {
+    const provider = new TableCodeLensProvider();
+    context.subscriptions.push(
+        provider,
+        vscode.languages.registerCodeLensProvider({ language: 'markdown' }, provider),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(`${CONFIGURATION_SECTION}.codeLens`)) {
+                provider.refresh();
+            }
+        })
+    );
+}
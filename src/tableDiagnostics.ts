@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { findTableProblems, getRaggedRowFixes, fixRaggedRows, fixDelimiterRow, TableProblem, TableProblemKind, RaggedRowFix } from './tableLint';
+import type { TableFormatEdit } from './markdownParser';
+import { getTableFormatOptions, CONFIGURATION_SECTION } from './configuration';
+
+// 入力が落ち着いてから診断し直すまでの待ち時間 (ミリ秒)
+const DIAGNOSE_DELAY = 300;
+
+// 問題パネルに表示する診断の発生元
+const DIAGNOSTIC_SOURCE = 'Markdown Table Editor';
+
+/**
+ * 診断が有効かどうかを返します (設定 markdownTableEditor.diagnostics)。
+ */
+function isEnabled(document: vscode.TextDocument): boolean {
+    return vscode.workspace.getConfiguration(CONFIGURATION_SECTION, document).get<boolean>('diagnostics', true);
+}
+
+/**
+ * テーブルの問題を診断にします。
+ */
+function toDiagnostic(document: vscode.TextDocument, problem: TableProblem): vscode.Diagnostic {
+    const line = document.lineAt(problem.line);
+    const range = problem.cell
+        ? new vscode.Range(problem.line, problem.cell.start, problem.line, problem.cell.end)
+        : new vscode.Range(problem.line, line.firstNonWhitespaceCharacterIndex, problem.line, line.text.length);
+    const diagnostic = new vscode.Diagnostic(range, problem.message, vscode.DiagnosticSeverity.Warning);
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = problem.kind;
+    return diagnostic;
+}
+
+// 列数の合わない行の直し方ごとの、クイックフィックスの名前
+const RAGGED_ROW_FIX_TITLES: Record<RaggedRowFix, string> = {
+    pad: 'Fill short rows with empty cells',
+    truncate: 'Remove cells beyond the header',
+    extendHeader: 'Add columns to the header'
+};
+
+/**
+ * テーブルの問題を直すクイックフィックス
+ *
+ * - 列数の合わない行: 空のセルで補う / 多いセルを削除する / ヘッダーに列を追加する
+ * - 区切り行がない・正しくない: 区切り行を挿入する / 書き直す
+ * - 空・重複したヘッダー: テーブルを編集パネルで開く
+ */
+class TableCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DIAGNOSTIC_SOURCE) continue;
+            const line = diagnostic.range.start.line;
+            switch (diagnostic.code as TableProblemKind) {
+                case 'raggedRow': {
+                    // 短い行と長い行が混ざっている場合は、両方の直し方を表示します
+                    for (const fix of getRaggedRowFixes(document.getText(), line)) {
+                        const edit = fixRaggedRows(document.getText(), line, fix, getTableFormatOptions(document));
+                        if (edit) {
+                            actions.push(this.createEditAction(document, RAGGED_ROW_FIX_TITLES[fix], edit, diagnostic, fix === 'pad'));
+                        }
+                    }
+                    break;
+                }
+                case 'missingDelimiter':
+                case 'invalidDelimiter': {
+                    const edit = fixDelimiterRow(document.getText(), line);
+                    if (edit) {
+                        const title = diagnostic.code === 'missingDelimiter' ? 'Insert a delimiter row' : 'Fix the delimiter row';
+                        actions.push(this.createEditAction(document, title, edit, diagnostic, true));
+                    }
+                    break;
+                }
+                case 'emptyHeader':
+                case 'duplicateHeader': {
+                    const action = new vscode.CodeAction('Edit the table in the table editor', vscode.CodeActionKind.QuickFix);
+                    action.diagnostics = [diagnostic];
+                    action.command = {
+                        title: action.title,
+                        command: 'markdownTableEditor.openTableAt',
+                        arguments: [document.uri, line]
+                    };
+                    actions.push(action);
+                    break;
+                }
+            }
+        }
+        return actions;
+    }
+
+    private createEditAction(document: vscode.TextDocument, title: string, edit: TableFormatEdit, diagnostic: vscode.Diagnostic, isPreferred: boolean): vscode.CodeAction {
+        const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+        const { startLine, endLine } = edit.range;
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length), edit.text);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = isPreferred;
+        return action;
+    }
+}
+
+/**
+ * Markdownのテーブルの診断 (列数の合わない行、区切り行の誤り、空・重複したヘッダー) と、
+ * そのクイックフィックスを登録します。
+ */
+export function registerTableDiagnostics(context: vscode.ExtensionContext) {
+    const collection = vscode.languages.createDiagnosticCollection('markdownTable');
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const diagnose = (document: vscode.TextDocument) => {
+        if (document.languageId !== 'markdown' || document.isClosed) {
+            return;
+        }
+        if (!isEnabled(document)) {
+            collection.delete(document.uri);
+            return;
+        }
+        // 整形されていないだけのテーブルは、整形のコマンドやフォーマッターに任せます
+        const problems = findTableProblems(document.getText(), { checkFormatting: false });
+        collection.set(document.uri, problems.map(problem => toDiagnostic(document, problem)));
+    };
+
+    const schedule = (document: vscode.TextDocument) => {
+        const key = document.uri.toString();
+        clearTimeout(timers.get(key));
+        timers.set(key, setTimeout(() => {
+            timers.delete(key);
+            diagnose(document);
+        }, DIAGNOSE_DELAY));
+    };
+
+    context.subscriptions.push(
+        collection,
+        vscode.languages.registerCodeActionsProvider({ language: 'markdown' }, new TableCodeActionProvider(), {
+            providedCodeActionKinds: TableCodeActionProvider.providedCodeActionKinds
+        }),
+        vscode.workspace.onDidOpenTextDocument(diagnose),
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (e.document.languageId === 'markdown' && e.contentChanges.length > 0) {
+                schedule(e.document);
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            clearTimeout(timers.get(document.uri.toString()));
+            timers.delete(document.uri.toString());
+            collection.delete(document.uri);
+        }),
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration(`${CONFIGURATION_SECTION}.diagnostics`)) {
+                vscode.workspace.textDocuments.forEach(diagnose);
+            }
+        }),
+        { dispose: () => timers.forEach(timer => clearTimeout(timer)) }
+    );
+
+    vscode.workspace.textDocuments.forEach(diagnose);
+}
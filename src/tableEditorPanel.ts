@@ -0,0 +1,384 @@
+import * as vscode from 'vscode';
+import { parseMarkdownTable, generateMarkdownTable, applyLinePrefix, MarkdownTable, TableLocation, ColumnAlignment } from './markdownParser';
+import { TableTracker } from './tableTracker';
+import { applyCellChanges, diffLines, LinePatch, CellChange } from './tablePatch';
+import { serializeTableMetadata, TableMetadata } from './tableMetadata';
+import { saveTableAs } from './formatCommands';
+import type { ExportFormat } from './formatConverter';
+import { getEditorSettings, getTableFormatOptions, EditorSettings } from './configuration';
+
+/** Webviewの種類 (パネルの復元に使用) */
+export const TABLE_EDITOR_VIEW_TYPE = 'markdownTableEditor';
+
+/**
+ * テーブルごとに保存するWebviewのUIの状態
+ */
+export interface TableUiState {
+    /** 列の幅 (ピクセル) */
+    columnWidths?: number[];
+    /** 1列目を行番号として扱うかどうか */
+    rowNumberColumn?: boolean;
+    /** アクティブなセル */
+    activeCell?: { row: number; col: number } | null;
+}
+
+/**
+ * Webviewの状態 (vscode.setState で保存し、ウィンドウの再読み込み後のパネルの復元に使用)
+ */
+export interface TablePanelState {
+    /** 編集中のドキュメントのURI */
+    documentUri: string;
+    /** パネルを開いたときのテーブルの開始行 */
+    startLine: number;
+    /** テーブルのヘッダー行 (テーブルを探し直すときの手がかり) */
+    header: string[];
+    ui: TableUiState;
+    /** 編集するファイルの種類 (CSV / TSV ファイルでは配置や列の設定など、Markdown固有の機能を表示しません) */
+    documentKind?: 'markdown' | 'delimited';
+}
+
+/**
+ * Webviewから受信するメッセージ (Markdownのテーブルの編集パネルと、CSV / TSV のグリッドエディタで共通)
+ */
+export type WebviewMessage =
+    | { command: 'updateTable', data: string[][], alignments: ColumnAlignment[], metadata?: TableMetadata, mergeWithPrevious?: boolean }
+    | { command: 'updateCells', changes: CellChange[], mergeWithPrevious?: boolean }
+    | { command: 'exportTable', format: ExportFormat, data: string[][], alignments: ColumnAlignment[] }
+    | { command: 'openLink', href: string }
+    | { command: 'saveUiState', header: string[], ui: TableUiState };
+
+/**
+ * UIの状態をワークスペースに保存するキーを返します。ドキュメントとヘッダー行の組ごとに保存します。
+ */
+export function getUiStateKey(document: vscode.TextDocument, header: string[]): string {
+    return `tableUiState:${document.uri.toString()}#${JSON.stringify(header)}`;
+}
+
+/**
+ * 1つのテーブルを編集するWebviewパネル
+ *
+ * パネルごとに対象のドキュメントとテーブルの位置を保持し、
+ * Webviewからのメッセージ処理とドキュメントからの同期を独立して行います。
+ */
+export class TableEditorPanel {
+    private readonly panel: vscode.WebviewPanel;
+    private readonly tracker: TableTracker;
+    // ドキュメント上のテーブルの内容 (Webviewから送られるセルの変更はこれに適用する)
+    private table: MarkdownTable;
+    // 最後にWebviewの内容で書き込んだテーブルとメタデータ (自身の書き込みによる変更は同期しない)
+    private lastWrittenContent: string | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly onDidDisposeEmitter = new vscode.EventEmitter<void>();
+
+    /** パネルが閉じられたときに発火します */
+    readonly onDidDispose = this.onDidDisposeEmitter.event;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        readonly document: vscode.TextDocument,
+        location: TableLocation,
+        restoredPanel?: vscode.WebviewPanel
+    ) {
+        // ドキュメントの編集に追従してテーブルの位置を追跡します
+        this.tracker = new TableTracker(location);
+
+        const fileName = document.uri.path.split('/').pop();
+        const title = `Edit Table: ${fileName}:${location.range.startLine + 1}`;
+        // distフォルダ内のリソース（スクリプト等）を読み込めるように設定
+        const localResourceRoots = [vscode.Uri.file(context.extensionPath)];
+        if (restoredPanel) {
+            // ウィンドウの再読み込み後に復元されたパネルを再利用します
+            this.panel = restoredPanel;
+            this.panel.title = title;
+            this.panel.webview.options = { enableScripts: true, localResourceRoots };
+        } else {
+            this.panel = vscode.window.createWebviewPanel(
+                TABLE_EDITOR_VIEW_TYPE,
+                title,
+                vscode.ViewColumn.Beside,
+                {
+                    enableScripts: true,
+                    // タブを切り替えても編集履歴やフィルターを失わないよう、非表示の間もWebviewを保持します
+                    retainContextWhenHidden: true,
+                    localResourceRoots
+                }
+            );
+        }
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        // Webviewからのメッセージを受信して処理します
+        this.panel.webview.onDidReceiveMessage(message => this.handleMessage(message), null, this.disposables);
+
+        // Two-way Sync: Update Webview when Markdown changes
+        vscode.workspace.onDidChangeTextDocument(e => {
+            if (e.document === this.document && e.contentChanges.length > 0) {
+                this.syncFromDocument(e.contentChanges);
+            }
+        }, null, this.disposables);
+
+        // Get path to the webpack bundled webview script
+        const scriptPathOnDisk = vscode.Uri.file(context.extensionPath + '/dist/webview.js');
+        const scriptUri = this.panel.webview.asWebviewUri(scriptPathOnDisk);
+
+        const table = parseMarkdownTable(location.content);
+        this.table = table;
+        const header = table.data[0] || [];
+        const panelState: TablePanelState = {
+            documentUri: document.uri.toString(),
+            startLine: location.range.startLine,
+            header,
+            ui: context.workspaceState.get<TableUiState>(getUiStateKey(document, header)) || {}
+        };
+        this.panel.webview.html = getWebviewContent(scriptUri, table, location.metadata || {}, getEditorSettings(document), panelState);
+    }
+
+    /**
+     * 指定したドキュメントの行がこのパネルで編集中のテーブルに含まれるかを判定します。
+     */
+    contains(document: vscode.TextDocument, line: number): boolean {
+        const location = this.tracker.current;
+        return document === this.document && !!location
+            && location.range.startLine <= line && line <= location.range.endLine;
+    }
+
+    /**
+     * パネルを前面に表示します。
+     */
+    reveal() {
+        this.panel.reveal();
+    }
+
+    /**
+     * 変更された設定をWebviewに反映します。
+     * テーブル文字列の生成オプションは書き込みのたびに設定から取得するため、ここでは送信しません。
+     */
+    updateSettings() {
+        this.panel.webview.postMessage({ command: 'updateSettings', settings: getEditorSettings(this.document) });
+    }
+
+    /**
+     * パネルを閉じます。
+     */
+    close() {
+        this.panel.dispose();
+    }
+
+    /**
+     * Webviewから受信したメッセージを処理します。
+     */
+    private handleMessage(message: WebviewMessage) {
+        switch (message.command) {
+            case 'updateTable':
+                this.writeTable({ data: message.data, alignments: message.alignments }, !!message.mergeWithPrevious, message.metadata);
+                return;
+            case 'updateCells':
+                // セルの入力などはテーブル全体ではなく、変更したセルだけが送られます
+                this.writeTable(applyCellChanges(this.table, message.changes), !!message.mergeWithPrevious);
+                return;
+            case 'exportTable':
+                // Webviewで表示中の内容 (未反映の入力を含む) をエクスポートします
+                saveTableAs({ data: message.data, alignments: message.alignments }, message.format, this.document.uri);
+                return;
+            case 'openLink':
+                openCellLink(this.document.uri, message.href);
+                return;
+            case 'saveUiState':
+                // 列幅などのUIの状態を、パネルを閉じた後も同じテーブルを開いたときに復元できるよう保存します
+                this.context.workspaceState.update(getUiStateKey(this.document, message.header), message.ui);
+                return;
+        }
+    }
+
+    /**
+     * 編集されたテーブルをドキュメントに書き戻します。
+     * 大きなテーブルでもエディタの負荷を抑えるよう、変更された行だけを置き換えます。
+     * Webviewの1つの操作がテキストエディタの1回の「元に戻す」に対応するよう、
+     * 同じ操作の続きは直前の編集と同じ取り消し単位にまとめます。
+     * @param mergeWithPrevious 直前に書き込んだ操作の続きであるかどうか
+     * @param metadata 列の種類や計算式 (指定した場合は、テーブルの直前のメタデータのコメントも書き換えます)
+     */
+    private writeTable(table: MarkdownTable, mergeWithPrevious: boolean, metadata?: TableMetadata) {
+        // テーブルを見失った場合は、誤った位置を上書きしないよう書き込みを停止します
+        const location = this.tracker.current;
+        if (!location) {
+            return;
+        }
+        this.table = table;
+
+        // 計算列・集計行の値は、書き込むメタデータの計算式で計算し直します
+        const options = { ...getTableFormatOptions(this.document), metadata: metadata ?? location.metadata };
+        const content = generateMarkdownTable(table, options).trim();
+        const oldComment = getMetadataComment(location);
+        const comment = metadata ? serializeTableMetadata(metadata) : oldComment;
+        if (content === location.content && comment === oldComment) {
+            return;
+        }
+        this.lastWrittenContent = getWrittenText(content, comment);
+
+        // 引用やリスト内のテーブルは接頭辞 (> やインデント) を保ったまま書き戻します
+        const newLines = applyLinePrefix(content, location.prefix).split('\n');
+        let firstLine = location.range.startLine;
+        if (metadata) {
+            firstLine = location.metadataLine ?? firstLine;
+            if (comment !== null) {
+                newLines.unshift(location.prefix + comment);
+            }
+        }
+        const oldLines: string[] = [];
+        for (let line = firstLine; line <= location.range.endLine; line++) {
+            oldLines.push(this.document.lineAt(line).text);
+        }
+        const patch = diffLines(oldLines, newLines);
+        if (!patch) {
+            return;
+        }
+        const { range, text } = getLinePatchEdit(this.document, firstLine, oldLines.length, patch);
+
+        // 取り消し単位を制御できるよう、ドキュメントを表示しているエディタがあればそれを使います
+        const editor = vscode.window.visibleTextEditors.find(e => e.document === this.document);
+        if (editor) {
+            editor.edit(editBuilder => editBuilder.replace(range, text), {
+                undoStopBefore: !mergeWithPrevious,
+                undoStopAfter: false
+            });
+        } else {
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(this.document.uri, range, text);
+            vscode.workspace.applyEdit(edit);
+        }
+    }
+
+    /**
+     * ドキュメントの変更をWebviewに反映します。
+     */
+    private syncFromDocument(changes: readonly vscode.TextDocumentContentChangeEvent[]) {
+        if (!this.tracker.current) {
+            return;
+        }
+
+        // 変更の行数の増減に合わせてテーブルの位置を更新します
+        const location = this.tracker.update(this.document.getText(), changes);
+
+        if (location) {
+            // Webviewからの書き込みによる変更は送り返しません (入力中のセルが上書きされるのを防ぐ)
+            if (getWrittenText(location.content, getMetadataComment(location)) === this.lastWrittenContent) {
+                return;
+            }
+            // Simple optimization: Just parse and send. The Webview can decide if it needs to update (avoid loop).
+            const table = parseMarkdownTable(location.content);
+            this.table = table;
+            this.panel.webview.postMessage({
+                command: 'syncData',
+                data: table.data,
+                alignments: table.alignments,
+                metadata: location.metadata || {}
+            });
+        } else {
+            // テーブルが削除された、またはテーブルとして認識できなくなった
+            this.panel.webview.postMessage({ command: 'tableLost' });
+        }
+    }
+
+    /**
+     * パネルに紐づくリソースを解放します。
+     */
+    private dispose() {
+        this.onDidDisposeEmitter.fire();
+        this.onDidDisposeEmitter.dispose();
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
+
+/**
+ * セルのリンクを開きます。
+ * http(s) と mailto はブラウザなどの外部アプリケーションで、相対パスはドキュメントからの相対位置のファイルをエディタで開きます。
+ * @param documentUri 編集中のドキュメント (相対パスの基準)
+ */
+export function openCellLink(documentUri: vscode.Uri, href: string) {
+    if (/^(https?|mailto):/i.test(href)) {
+        vscode.env.openExternal(vscode.Uri.parse(href));
+        return;
+    }
+    // Other schemes (javascript:, command:, etc.) are never opened from a table cell
+    if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+        return;
+    }
+    const path = href.split('#')[0];
+    if (path === '') {
+        return;
+    }
+    let decoded = path;
+    try {
+        decoded = decodeURIComponent(path);
+    } catch {
+        // Keep malformed escapes as they are
+    }
+    const target = vscode.Uri.joinPath(documentUri, '..', decoded);
+    vscode.commands.executeCommand('vscode.open', target);
+}
+
+/**
+ * テーブルの直前にあるメタデータのコメントを、書き込むときと同じ形式で返します。
+ */
+function getMetadataComment(location: TableLocation): string | null {
+    return location.metadata ? serializeTableMetadata(location.metadata) : null;
+}
+
+/**
+ * 書き込んだテーブルとメタデータのコメントを、自身の書き込みかどうかの比較用にまとめます。
+ */
+function getWrittenText(content: string, comment: string | null): string {
+    return comment === null ? content : `${comment}\n${content}`;
+}
+
+/**
+ * 行単位の差分を、ドキュメントを編集する範囲と置き換える文字列に変換します。
+ * 行の挿入・削除では、前後の行の改行も含めて置き換えます。
+ * @param firstLine 差分の基準となる行 (テーブルの開始行)
+ * @param lineCount 変更前の行数
+ */
+function getLinePatchEdit(document: vscode.TextDocument, firstLine: number, lineCount: number, patch: LinePatch) {
+    const start = firstLine + patch.start;
+    const end = start + patch.deleteCount;
+    const text = patch.lines.join('\n');
+    if (patch.deleteCount > 0 && patch.lines.length > 0) {
+        return { range: new vscode.Range(start, 0, end - 1, document.lineAt(end - 1).text.length), text };
+    }
+    if (patch.start + patch.deleteCount < lineCount) {
+        // 後ろに変更のない行が残る場合は、その行の先頭までを置き換えます
+        return { range: new vscode.Range(start, 0, end, 0), text: patch.lines.length > 0 ? text + '\n' : '' };
+    }
+    // テーブルの末尾の場合は、直前の行の末尾から置き換えます (テーブルの直後の改行を残すため)
+    const previousEnd = document.lineAt(start - 1).range.end;
+    const rangeEnd = patch.deleteCount > 0 ? document.lineAt(end - 1).range.end : previousEnd;
+    return { range: new vscode.Range(previousEnd, rangeEnd), text: patch.lines.length > 0 ? '\n' + text : '' };
+}
+
+/**
+ * WebviewのHTMLコンテンツを生成します。
+ * Reactアプリケーションのエントリーポイントを含みます。CSV / TSV のエディタでも使います。
+ */
+export function getWebviewContent(scriptUri: vscode.Uri, initialTable: MarkdownTable, initialMetadata: TableMetadata, settings: EditorSettings, panelState: TablePanelState) {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Table Editor</title>
+</head>
+<body>
+    <div id="root"></div>
+    <script>
+        window.initialTable = ${JSON.stringify(initialTable)};
+        window.initialMetadata = ${JSON.stringify(initialMetadata)};
+        window.editorSettings = ${JSON.stringify(settings)};
+        window.panelState = ${JSON.stringify(panelState)};
+        const vscode = acquireVsCodeApi();
+    </script>
+    <script src="${scriptUri}"></script>
+</body>
+</html>`;
+}
@@ -0,0 +1,76 @@
+import * as vscode from 'vscode';
+import { formatTables } from './markdownParser';
+import { getTableFormatOptions } from './configuration';
+
+/**
+ * ドキュメント内のテーブルを整形するための TextEdit を作成します。
+ * @param range 対象とする範囲 (省略時はドキュメント全体)
+ */
+function createFormatEdits(document: vscode.TextDocument, range?: vscode.Range): vscode.TextEdit[] {
+    const edits = range
+        ? formatTables(document.getText(), range.start.line, range.end.line, getTableFormatOptions(document))
+        : formatTables(document.getText(), undefined, undefined, getTableFormatOptions(document));
+    return edits.map(edit => vscode.TextEdit.replace(
+        new vscode.Range(edit.range.startLine, 0, edit.range.endLine, document.lineAt(edit.range.endLine).text.length),
+        edit.text
+    ));
+}
+
+/**
+ * Markdownのテーブルを整形するフォーマッター
+ *
+ * 「ドキュメントのフォーマット」「選択範囲のフォーマット」で、テーブルの列幅を揃えます。
+ * テーブル以外の部分は変更しません。
+ */
+class MarkdownTableFormatter implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    provideDocumentFormattingEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+        return createFormatEdits(document);
+    }
+
+    provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range): vscode.TextEdit[] {
+        return createFormatEdits(document, range);
+    }
+}
+
+/**
+ * テーブルの整形に関する機能 (コマンド、フォーマッター、保存時の整形) を登録します。
+ */
+export function registerTableFormatter(context: vscode.ExtensionContext) {
+    const selector: vscode.DocumentSelector = { language: 'markdown' };
+    const formatter = new MarkdownTableFormatter();
+    context.subscriptions.push(
+        vscode.languages.registerDocumentFormattingEditProvider(selector, formatter),
+        vscode.languages.registerDocumentRangeFormattingEditProvider(selector, formatter)
+    );
+
+    // 'markdownTableEditor.formatAllTables' コマンド: アクティブなドキュメントのすべてのテーブルを整形
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdownTableEditor.formatAllTables', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+            const edits = createFormatEdits(editor.document);
+            if (edits.length === 0) {
+                vscode.window.showInformationMessage('All tables are already formatted.');
+                return;
+            }
+            const workspaceEdit = new vscode.WorkspaceEdit();
+            workspaceEdit.set(editor.document.uri, edits);
+            await vscode.workspace.applyEdit(workspaceEdit);
+        })
+    );
+
+    // 保存時の整形 (markdownTableEditor.formatOnSave が有効な場合のみ)
+    context.subscriptions.push(
+        vscode.workspace.onWillSaveTextDocument(e => {
+            if (e.document.languageId !== 'markdown') {
+                return;
+            }
+            const enabled = vscode.workspace.getConfiguration('markdownTableEditor', e.document).get<boolean>('formatOnSave', false);
+            if (enabled) {
+                e.waitUntil(Promise.resolve(createFormatEdits(e.document)));
+            }
+        })
+    );
+}
@@ -0,0 +1,492 @@
+/**
+ * テーブルの計算式 (計算列と集計行)
+ *
+ * 計算列は、同じ行のほかの列を参照する式で値を求める列です。
+ * 列はヘッダーの文字列で参照します。空白や記号を含むヘッダーは [ ] で囲みます。
+ *
+ *     Price * Qty
+ *     ROUND([Unit Price] * 1.1, 0)
+ *     IF(Qty >= 10, Price * 0.9, Price)
+ *
+ * 集計行は、テーブルの最後の行に列ごとの合計・平均などを表示する行です。
+ *
+ * 式は独自の構文解析器で解釈し、eval などでJavaScriptとして実行することはありません。
+ */
+import { parseNumberValue } from './tableSort';
+import { TableMetadata, SummaryFunction, BOOLEAN_VALUES } from './tableMetadata';
+
+/**
+ * 計算式の構文木
+ */
+export type FormulaNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'reference'; name: string }
+    | { kind: 'unary'; operator: '-' | '+'; operand: FormulaNode }
+    | { kind: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+    | { kind: 'call'; name: string; args: FormulaNode[] };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+/**
+ * 計算式の解析結果 (正しくない式の場合は error に理由が入ります)
+ */
+export type ParsedFormula = { node: FormulaNode; error?: undefined } | { node?: undefined; error: string };
+
+/**
+ * 計算できなかったセルに表示する値
+ * - #ERROR!: 式が正しくない
+ * - #NAME?: 存在しない列または関数を参照している
+ * - #VALUE!: 数値でないセルを参照している
+ * - #DIV/0!: 0で割っている
+ * - #CYCLE!: 計算列どうしが循環して参照している
+ */
+export type FormulaErrorCode = '#ERROR!' | '#NAME?' | '#VALUE!' | '#DIV/0!' | '#CYCLE!';
+
+// 計算中のエラー (計算式の評価の外には出しません)
+class FormulaEvaluationError {
+    constructor(readonly code: FormulaErrorCode) { }
+}
+
+// 構文解析のエラー (parseFormula の外には出しません)
+class FormulaSyntaxError {
+    constructor(readonly message: string) { }
+}
+
+/**
+ * 使用できる関数 (引数の数の範囲と計算)
+ */
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number; apply: (args: number[]) => number }> = {
+    ABS: { minArgs: 1, maxArgs: 1, apply: ([x]) => Math.abs(x) },
+    ROUND: {
+        minArgs: 1,
+        maxArgs: 2,
+        apply: ([x, digits = 0]) => {
+            const factor = Math.pow(10, Math.trunc(digits));
+            return Math.sign(x) * Math.round(Math.abs(x) * factor) / factor;
+        }
+    },
+    MIN: { minArgs: 1, maxArgs: Infinity, apply: (args) => args.reduce((min, x) => Math.min(min, x)) },
+    MAX: { minArgs: 1, maxArgs: Infinity, apply: (args) => args.reduce((max, x) => Math.max(max, x)) },
+    IF: { minArgs: 3, maxArgs: 3, apply: ([condition, whenTrue, whenFalse]) => condition !== 0 ? whenTrue : whenFalse }
+};
+
+// 字句: 数値、[ ] で囲んだ列名、名前 (列名または関数名)、演算子、括弧、カンマ
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?|\.\d+)|\[([^\]]*)\]|([\p{L}_][\p{L}\p{N}_]*)|(<>|<=|>=|[-+*/%^=<>(),]))/uy;
+
+type Token =
+    | { type: 'number'; value: number }
+    | { type: 'reference'; name: string }
+    | { type: 'name'; name: string }
+    | { type: 'symbol'; symbol: string };
+
+/**
+ * 計算式を字句に分割します。
+ */
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+    while (expression.slice(TOKEN_PATTERN.lastIndex).trim() !== '') {
+        const start = TOKEN_PATTERN.lastIndex;
+        const match = TOKEN_PATTERN.exec(expression);
+        if (!match) {
+            throw new FormulaSyntaxError(`解釈できない文字があります: ${expression.slice(start).trim().charAt(0)}`);
+        }
+        const [, number, bracketed, name, symbol] = match;
+        if (number !== undefined) tokens.push({ type: 'number', value: Number(number) });
+        else if (bracketed !== undefined) tokens.push({ type: 'reference', name: bracketed.trim() });
+        else if (name !== undefined) tokens.push({ type: 'name', name });
+        else tokens.push({ type: 'symbol', symbol });
+    }
+    return tokens;
+}
+
+/**
+ * 計算式の構文解析器 (再帰下降)
+ *
+ *     comparison := additive (("=" | "<>" | "<" | "<=" | ">" | ">=") additive)?
+ *     additive   := multiplicative (("+" | "-") multiplicative)*
+ *     multiplicative := unary (("*" | "/" | "%") unary)*
+ *     unary      := ("-" | "+") unary | power
+ *     power      := primary ("^" unary)?
+ *     primary    := number | reference | name "(" arguments ")" | name | "(" comparison ")"
+ */
+class FormulaParser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    parse(): FormulaNode {
+        if (this.tokens.length === 0) {
+            throw new FormulaSyntaxError('式が空です');
+        }
+        const node = this.comparison();
+        if (this.index < this.tokens.length) {
+            throw new FormulaSyntaxError('式の途中に余分な記号があります');
+        }
+        return node;
+    }
+
+    private peekSymbol(): string | undefined {
+        const token = this.tokens[this.index];
+        return token?.type === 'symbol' ? token.symbol : undefined;
+    }
+
+    private expectSymbol(symbol: string) {
+        if (this.peekSymbol() !== symbol) {
+            throw new FormulaSyntaxError(`「${symbol}」が必要です`);
+        }
+        this.index++;
+    }
+
+    private binary(operators: string[], operand: () => FormulaNode, repeat: boolean): FormulaNode {
+        let left = operand();
+        let operator = this.peekSymbol();
+        while (operator !== undefined && operators.includes(operator)) {
+            this.index++;
+            left = { kind: 'binary', operator: operator as BinaryOperator, left, right: operand() };
+            if (!repeat) break;
+            operator = this.peekSymbol();
+        }
+        return left;
+    }
+
+    private comparison(): FormulaNode {
+        return this.binary(['=', '<>', '<', '<=', '>', '>='], () => this.additive(), false);
+    }
+
+    private additive(): FormulaNode {
+        return this.binary(['+', '-'], () => this.multiplicative(), true);
+    }
+
+    private multiplicative(): FormulaNode {
+        return this.binary(['*', '/', '%'], () => this.unary(), true);
+    }
+
+    private unary(): FormulaNode {
+        const operator = this.peekSymbol();
+        if (operator === '-' || operator === '+') {
+            this.index++;
+            return { kind: 'unary', operator, operand: this.unary() };
+        }
+        return this.power();
+    }
+
+    private power(): FormulaNode {
+        const base = this.primary();
+        if (this.peekSymbol() === '^') {
+            this.index++;
+            // 右結合 (2^3^2 = 2^9)
+            return { kind: 'binary', operator: '^', left: base, right: this.unary() };
+        }
+        return base;
+    }
+
+    private primary(): FormulaNode {
+        const token = this.tokens[this.index];
+        if (!token) {
+            throw new FormulaSyntaxError('式が途中で終わっています');
+        }
+        this.index++;
+        switch (token.type) {
+            case 'number':
+                return { kind: 'number', value: token.value };
+            case 'reference':
+                return { kind: 'reference', name: token.name };
+            case 'name':
+                if (this.peekSymbol() === '(') {
+                    this.index++;
+                    return { kind: 'call', name: token.name.toUpperCase(), args: this.arguments() };
+                }
+                return { kind: 'reference', name: token.name };
+            case 'symbol':
+                if (token.symbol === '(') {
+                    const node = this.comparison();
+                    this.expectSymbol(')');
+                    return node;
+                }
+                throw new FormulaSyntaxError(`「${token.symbol}」の位置が正しくありません`);
+        }
+    }
+
+    private arguments(): FormulaNode[] {
+        const args: FormulaNode[] = [];
+        if (this.peekSymbol() === ')') {
+            this.index++;
+            return args;
+        }
+        for (;;) {
+            args.push(this.comparison());
+            if (this.peekSymbol() === ',') {
+                this.index++;
+                continue;
+            }
+            this.expectSymbol(')');
+            return args;
+        }
+    }
+}
+
+/**
+ * 計算式を解析します。
+ */
+export function parseFormula(expression: string): ParsedFormula {
+    try {
+        return { node: new FormulaParser(tokenize(expression)).parse() };
+    } catch (e) {
+        if (e instanceof FormulaSyntaxError) {
+            return { error: e.message };
+        }
+        throw e;
+    }
+}
+
+/**
+ * 構文木が参照している列名と関数を検証します。問題がなければ null を返します。
+ * @param headers テーブルのヘッダー行
+ */
+export function validateFormula(node: FormulaNode, headers: string[]): string | null {
+    switch (node.kind) {
+        case 'number':
+            return null;
+        case 'reference':
+            return findColumn(headers, node.name) === -1 ? `列「${node.name}」が見つかりません` : null;
+        case 'unary':
+            return validateFormula(node.operand, headers);
+        case 'binary':
+            return validateFormula(node.left, headers) ?? validateFormula(node.right, headers);
+        case 'call': {
+            const fn = FUNCTIONS[node.name];
+            if (!fn) return `関数「${node.name}」は使用できません`;
+            if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+                return `関数「${node.name}」の引数の数が正しくありません`;
+            }
+            for (const arg of node.args) {
+                const error = validateFormula(arg, headers);
+                if (error) return error;
+            }
+            return null;
+        }
+    }
+}
+
+/**
+ * ヘッダーの文字列から列のインデックスを探します (前後の空白は無視します)。見つからない場合は -1 を返します。
+ */
+function findColumn(headers: string[], name: string): number {
+    return headers.findIndex(header => header.trim() === name.trim());
+}
+
+/**
+ * 構文木を計算します。
+ * @param resolve 列名からセルの値を求める関数
+ */
+function evaluate(node: FormulaNode, resolve: (name: string) => number): number {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'reference':
+            return resolve(node.name);
+        case 'unary': {
+            const value = evaluate(node.operand, resolve);
+            return node.operator === '-' ? -value : value;
+        }
+        case 'binary': {
+            const left = evaluate(node.left, resolve);
+            const right = evaluate(node.right, resolve);
+            return applyBinaryOperator(node.operator, left, right);
+        }
+        case 'call': {
+            const fn = FUNCTIONS[node.name];
+            if (!fn || node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+                throw new FormulaEvaluationError('#NAME?');
+            }
+            // IF は選ばれなかった側を計算しません (0除算などのエラーを避けるため)
+            if (node.name === 'IF') {
+                const condition = evaluate(node.args[0], resolve);
+                return evaluate(node.args[condition !== 0 ? 1 : 2], resolve);
+            }
+            return fn.apply(node.args.map(arg => evaluate(arg, resolve)));
+        }
+    }
+}
+
+function applyBinaryOperator(operator: BinaryOperator, left: number, right: number): number {
+    switch (operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+        case '%':
+            if (right === 0) throw new FormulaEvaluationError('#DIV/0!');
+            return operator === '/' ? left / right : left % right;
+        case '^': return Math.pow(left, right);
+        case '=': return left === right ? 1 : 0;
+        case '<>': return left !== right ? 1 : 0;
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+    }
+}
+
+/**
+ * セルの値を計算に使う数値にします。空のセルは0、チェックボックスの値は1 / 0 として扱います。
+ */
+function toFormulaNumber(value: string): number {
+    const text = value.trim();
+    if (text === '') return 0;
+    if (text === BOOLEAN_VALUES.checked) return 1;
+    if (text === BOOLEAN_VALUES.unchecked) return 0;
+    const number = parseNumberValue(text);
+    if (isNaN(number)) throw new FormulaEvaluationError('#VALUE!');
+    return number;
+}
+
+/**
+ * 計算結果をセルに書き込む文字列にします。浮動小数点の誤差 (0.1 + 0.2 など) は丸めます。
+ */
+export function formatFormulaValue(value: number): string {
+    if (!isFinite(value)) return '#VALUE!';
+    return String(Number(value.toPrecision(12)));
+}
+
+/**
+ * 列の値を集計します。数値でないセルは件数 (COUNT) 以外では無視します。
+ * @returns 集計した値 (平均・最小・最大で数値のセルがない場合は空文字)
+ */
+export function summarizeValues(values: string[], fn: SummaryFunction): string {
+    if (fn === 'count') {
+        return String(values.filter(value => value.trim() !== '').length);
+    }
+    const numbers = values.map(value => parseNumberValue(value)).filter(number => !isNaN(number));
+    if (fn === 'sum') {
+        return formatFormulaValue(numbers.reduce((total, number) => total + number, 0));
+    }
+    if (numbers.length === 0) return '';
+    switch (fn) {
+        case 'avg': return formatFormulaValue(numbers.reduce((total, number) => total + number, 0) / numbers.length);
+        case 'min': return formatFormulaValue(numbers.reduce((min, number) => Math.min(min, number)));
+        case 'max': return formatFormulaValue(numbers.reduce((max, number) => Math.max(max, number)));
+    }
+}
+
+/**
+ * テーブルに計算式があるかどうかを判定します。
+ */
+export function hasTableFormulas(metadata: TableMetadata | undefined): boolean {
+    return !!metadata && (Object.keys(metadata.formulas || {}).length > 0 || hasSummaryRow(metadata));
+}
+
+/**
+ * テーブルの最後の行が集計行かどうかを判定します。
+ */
+export function hasSummaryRow(metadata: TableMetadata | undefined): boolean {
+    return !!metadata?.summary && Object.keys(metadata.summary).length > 0;
+}
+
+/**
+ * 集計行を見分けるためのキーを返します (restoreSummaryRowPosition で使います)。
+ */
+export function getSummaryRowKey(row: string[]): string {
+    return JSON.stringify(row);
+}
+
+/**
+ * 集計行より下に入力された行を、集計行の上に移します。
+ * テキストエディタで集計行の下に行を入力すると、元の集計行がデータ行として集計され、
+ * 入力した行が集計行として上書きされるのを防ぎます。
+ * 最後の行がこれまでの集計行でなく、それより上にこれまでの集計行がある場合に、その下の行を移します。
+ * @param data ヘッダー行を含むテーブルのデータ
+ * @param metadata テーブルのメタデータ
+ * @param knownSummaryRows これまでの集計行 (getSummaryRowKey の値)
+ * @returns 行を移したデータ (移す必要がない場合は data のまま)
+ */
+export function restoreSummaryRowPosition(data: string[][], metadata: TableMetadata | undefined, knownSummaryRows: ReadonlySet<string>): string[][] {
+    if (!hasSummaryRow(metadata) || data.length < 3 || knownSummaryRows.has(getSummaryRowKey(data[data.length - 1]))) {
+        return data;
+    }
+    for (let index = data.length - 2; index >= 1; index--) {
+        if (knownSummaryRows.has(getSummaryRowKey(data[index]))) {
+            return [...data.slice(0, index), ...data.slice(index + 1), data[index]];
+        }
+    }
+    return data;
+}
+
+/**
+ * 計算列と集計行の値を計算したテーブルのデータを返します。
+ * 値が変わらない行は同じ配列のまま返します (変わったセルだけをドキュメントに送るため)。
+ * @param data ヘッダー行を含むテーブルのデータ
+ * @param metadata 計算式を含むテーブルのメタデータ
+ */
+export function applyTableFormulas(data: string[][], metadata: TableMetadata | undefined): string[][] {
+    if (!hasTableFormulas(metadata) || data.length === 0) return data;
+    const headers = data[0];
+    const summaryRow = hasSummaryRow(metadata) && data.length >= 2 ? data.length - 1 : -1;
+    const lastDataRow = summaryRow === -1 ? data.length - 1 : summaryRow - 1;
+
+    // 計算列 (列のインデックスごとの構文木。解析できない式は null)
+    const computed = new Map<number, FormulaNode | null>();
+    for (const [header, expression] of Object.entries(metadata!.formulas || {})) {
+        const col = headers.indexOf(header);
+        if (col !== -1) {
+            computed.set(col, parseFormula(expression).node ?? null);
+        }
+    }
+
+    const result = data.map(row => row);
+    const setCell = (rowIndex: number, col: number, value: string) => {
+        if (result[rowIndex][col] === value) return;
+        if (result[rowIndex] === data[rowIndex]) {
+            result[rowIndex] = [...data[rowIndex]];
+        }
+        result[rowIndex][col] = value;
+    };
+
+    for (let rowIndex = 1; rowIndex <= lastDataRow; rowIndex++) {
+        const row = data[rowIndex];
+        const values = new Map<number, number>();
+        const evaluating = new Set<number>();
+        // 列の値を求めます (計算列は先に計算し、循環している場合はエラーにします)
+        const getValue = (col: number): number => {
+            const cached = values.get(col);
+            if (cached !== undefined) return cached;
+            if (!computed.has(col)) return toFormulaNumber(row[col] ?? '');
+            const node = computed.get(col);
+            if (!node) throw new FormulaEvaluationError('#ERROR!');
+            if (evaluating.has(col)) throw new FormulaEvaluationError('#CYCLE!');
+            evaluating.add(col);
+            try {
+                const value = evaluate(node, name => {
+                    const index = findColumn(headers, name);
+                    if (index === -1) throw new FormulaEvaluationError('#NAME?');
+                    return getValue(index);
+                });
+                values.set(col, value);
+                return value;
+            } finally {
+                evaluating.delete(col);
+            }
+        };
+        for (const col of computed.keys()) {
+            let text: string;
+            try {
+                text = formatFormulaValue(getValue(col));
+            } catch (e) {
+                if (!(e instanceof FormulaEvaluationError)) throw e;
+                text = e.code;
+            }
+            setCell(rowIndex, col, text);
+        }
+    }
+
+    if (summaryRow !== -1) {
+        for (const [header, fn] of Object.entries(metadata!.summary!)) {
+            const col = headers.indexOf(header);
+            if (col === -1) continue;
+            const values = result.slice(1, lastDataRow + 1).map(row => row[col] ?? '');
+            setCell(summaryRow, col, summarizeValues(values, fn));
+        }
+    }
+    return result;
+}
@@ -0,0 +1,180 @@
+/**
+ * ドキュメント内のテーブルの問題の検出と修正
+ *
+ * 整形されていないテーブル、列数の合わない行、区切り行のないテーブル、空や重複したヘッダーを探します。
+ * コマンドラインの `md-table check` とエディタの診断 (問題パネル) の両方で使うため、VS Code には依存しません。
+ */
+import {
+    findTables, findTableAtPosition, findMalformedTables, formatTables, splitTableRow, getCellRanges, parseMarkdownTable,
+    generateMarkdownTable, generateDelimiterRow, applyLinePrefix, TableFormatOptions, TableFormatEdit, ColumnAlignment
+} from './markdownParser';
+
+/**
+ * 問題の種類
+ * - 'unformatted': テーブルが整形されていない (`md-table format` で直せます)
+ * - 'raggedRow': 行のセルの数がヘッダーと合わない
+ * - 'missingDelimiter': ヘッダーの次に区切り行がないため、テーブルとして表示されない
+ * - 'invalidDelimiter': 区切り行の列数や書式が正しくないため、テーブルとして表示されない
+ * - 'emptyHeader': ヘッダーのセルが空
+ * - 'duplicateHeader': 同じ名前のヘッダーがある (列の種類や計算式は列名で列を指定するため)
+ */
+export type TableProblemKind = 'unformatted' | 'raggedRow' | 'missingDelimiter' | 'invalidDelimiter' | 'emptyHeader' | 'duplicateHeader';
+
+/**
+ * テーブルの問題
+ */
+export interface TableProblem {
+    kind: TableProblemKind;
+    /** 問題のある行 (ドキュメントの行番号、0始まり) */
+    line: number;
+    /** ヘッダーの問題の場合、そのセルの行内での位置 */
+    cell?: { start: number, end: number };
+    message: string;
+}
+
+/**
+ * 問題の検出オプション (整形済みかどうかの判定には生成オプションを使います)
+ */
+export interface TableLintOptions extends TableFormatOptions {
+    /** 整形されていないテーブル ('unformatted') を検出するかどうか (既定: true) */
+    checkFormatting?: boolean;
+}
+
+/**
+ * 列数の合わない行の直し方
+ * - 'pad': 短い行を空のセルで補います
+ * - 'truncate': ヘッダーより多いセルを削除します
+ * - 'extendHeader': 多いセルの分だけヘッダーに列を追加します
+ */
+export type RaggedRowFix = 'pad' | 'truncate' | 'extendHeader';
+
+/**
+ * ヘッダーの空のセルと重複した名前を探します。
+ */
+function findHeaderProblems(headerLine: string, prefixLength: number, line: number): TableProblem[] {
+    const problems: TableProblem[] = [];
+    const cells = splitTableRow(headerLine);
+    const ranges = getCellRanges(headerLine);
+    const seen = new Set<string>();
+    cells.forEach((name, col) => {
+        const range = ranges[col];
+        const cell = range && { start: prefixLength + range.start, end: prefixLength + range.end };
+        if (name === '') {
+            problems.push({ kind: 'emptyHeader', line, cell, message: `Column ${col + 1} has no header.` });
+        } else if (seen.has(name)) {
+            problems.push({ kind: 'duplicateHeader', line, cell, message: `Duplicate header "${name}".` });
+        }
+        seen.add(name);
+    });
+    return problems;
+}
+
+/**
+ * ドキュメント内のテーブルの問題を探します。
+ * @param documentText ドキュメント全体のテキスト
+ * @param options 検出オプション (整形されていないテーブルを検出しない場合は、テーブルを整形し直しません)
+ * @returns 見つかった問題 (行の順)
+ */
+export function findTableProblems(documentText: string, options: TableLintOptions = {}): TableProblem[] {
+    const problems: TableProblem[] = [];
+    for (const location of findTables(documentText)) {
+        const lines = location.content.split('\n');
+        const rows = lines.map(splitTableRow);
+        const columnCount = rows[0].length;
+        problems.push(...findHeaderProblems(lines[0], location.prefix.length, location.range.startLine));
+        // 区切り行は列数が一致するものだけがテーブルとして検出されるため、データ行だけを調べます
+        rows.forEach((row, index) => {
+            if (index >= 2 && row.length !== columnCount) {
+                problems.push({
+                    kind: 'raggedRow',
+                    line: location.range.startLine + index,
+                    message: `Row has ${row.length} cell${row.length === 1 ? '' : 's'} but the header has ${columnCount}.`
+                });
+            }
+        });
+    }
+    for (const malformed of findMalformedTables(documentText)) {
+        problems.push(malformed.kind === 'missingDelimiter'
+            ? { kind: 'missingDelimiter', line: malformed.range.startLine, message: 'Table has no delimiter row (e.g. | --- | --- |) after the header.' }
+            : { kind: 'invalidDelimiter', line: malformed.range.startLine + 1, message: `Delimiter row does not match the ${malformed.columnCount} header cell${malformed.columnCount === 1 ? '' : 's'}.` });
+    }
+    if (options.checkFormatting ?? true) {
+        for (const edit of formatTables(documentText, undefined, undefined, options)) {
+            problems.push({ kind: 'unformatted', line: edit.range.startLine, message: 'Table is not formatted.' });
+        }
+    }
+    return problems.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * 指定した行を含むテーブルで使える、列数の合わない行の直し方を返します。
+ * 短い行があれば 'pad'、長い行があれば 'truncate' と 'extendHeader' を返します。
+ * @param documentText ドキュメント全体のテキスト
+ * @param line テーブル内の行
+ */
+export function getRaggedRowFixes(documentText: string, line: number): RaggedRowFix[] {
+    const location = findTableAtPosition(documentText, line);
+    if (!location) return [];
+    const lines = location.content.split('\n');
+    const columnCount = splitTableRow(lines[0]).length;
+    const rows = lines.slice(2).map(splitTableRow);
+    const fixes: RaggedRowFix[] = [];
+    if (rows.some(row => row.length < columnCount)) {
+        fixes.push('pad');
+    }
+    if (rows.some(row => row.length > columnCount)) {
+        fixes.push('truncate', 'extendHeader');
+    }
+    return fixes;
+}
+
+/**
+ * 指定した行を含むテーブルの、列数の合わない行を直すための置き換え内容を計算します。
+ * テーブル全体を書き直すため、テーブルは整形されます。
+ * @param documentText ドキュメント全体のテキスト
+ * @param line テーブル内の行
+ * @param fix 直し方
+ * @param options 生成オプション
+ * @returns 置き換え内容 (テーブルが見つからない場合は null)
+ */
+export function fixRaggedRows(documentText: string, line: number, fix: RaggedRowFix, options: TableFormatOptions = {}): TableFormatEdit | null {
+    const location = findTableAtPosition(documentText, line);
+    if (!location) return null;
+    const { data, alignments } = parseMarkdownTable(location.content);
+    const columnCount = data[0].length;
+
+    let table = { data, alignments };
+    if (fix === 'truncate') {
+        table = { data: data.map(row => row.slice(0, columnCount)), alignments };
+    } else if (fix === 'extendHeader') {
+        const width = data.reduce((max, row) => Math.max(max, row.length), 0);
+        const header = [...data[0], ...Array.from({ length: width - columnCount }, (_, i) => `Column ${columnCount + i + 1}`)];
+        table = {
+            data: [header, ...data.slice(1)],
+            alignments: [...alignments, ...new Array<ColumnAlignment>(width - columnCount).fill('none')]
+        };
+    }
+    // 'pad' は、生成時に短い行が空のセルで補われます
+    const markdown = generateMarkdownTable(table, { ...options, metadata: location.metadata });
+    return { range: location.range, text: applyLinePrefix(markdown.trim(), location.prefix) };
+}
+
+/**
+ * 指定した行を含む、区切り行のないテーブル (または正しくないテーブル) の区切り行を直すための置き換え内容を計算します。
+ * 区切り行がない場合はヘッダーの次に挿入し、正しくない場合は読み取れる配置を残して書き直します。
+ * @param documentText ドキュメント全体のテキスト
+ * @param line 対象の行
+ * @returns 置き換え内容 (該当する箇所がない場合は null)
+ */
+export function fixDelimiterRow(documentText: string, line: number): TableFormatEdit | null {
+    const malformed = findMalformedTables(documentText)
+        .find(m => m.range.startLine <= line && line <= m.range.endLine);
+    if (!malformed) return null;
+    const delimiter = malformed.prefix + generateDelimiterRow(malformed.alignments);
+    const { startLine } = malformed.range;
+    if (malformed.kind === 'missingDelimiter') {
+        const header = documentText.split(/\r?\n/)[startLine];
+        return { range: { startLine, endLine: startLine }, text: header + '\n' + delimiter };
+    }
+    return { range: { startLine: startLine + 1, endLine: startLine + 1 }, text: delimiter };
+}
@@ -0,0 +1,290 @@
+/**
+ * テーブルのメタデータ (列の種類など)
+ *
+ * メタデータはテーブルの直前の行に、JSONを含むHTMLコメントとして保存します。
+ * HTMLコメントはMarkdownのプレビューには表示されません。
+ *
+ *     <!-- markdown-table: {"columns":{"Status":{"type":"enum","values":["Todo","Done"]}}} -->
+ *     | Task | Status |
+ *     | ---- | ------ |
+ *
+ * 計算列の式 (formulas) と集計行の集計方法 (summary) も同じコメントに保存します。
+ *
+ *     <!-- markdown-table: {"formulas":{"Amount":"Price * Qty"},"summary":{"Amount":"sum"}} -->
+ *
+ * 列はヘッダー行のセルの文字列で指定するため、列を移動しても種類は列に付いたままです。
+ */
+import { parseNumberValue, parseDateValue } from './tableSort';
+
+/** 列の種類 */
+export type ColumnDataType = 'text' | 'number' | 'date' | 'boolean' | 'enum';
+
+/** 列の種類の表示名 */
+export const COLUMN_DATA_TYPE_LABELS: Record<ColumnDataType, string> = {
+    text: 'テキスト',
+    number: '数値',
+    date: '日付',
+    boolean: 'チェックボックス',
+    enum: '選択肢'
+};
+
+/**
+ * 列の定義
+ */
+export interface ColumnDefinition {
+    type: ColumnDataType;
+    /** 選択肢 (enum の場合のみ) */
+    values?: string[];
+}
+
+/** ヘッダー行のセルの文字列ごとの列の定義 */
+export type ColumnDefinitions = Record<string, ColumnDefinition>;
+
+/** 集計行の集計方法 */
+export type SummaryFunction = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+/** 集計方法の表示名 */
+export const SUMMARY_FUNCTION_LABELS: Record<SummaryFunction, string> = {
+    sum: '合計',
+    avg: '平均',
+    count: '件数',
+    min: '最小',
+    max: '最大'
+};
+
+/**
+ * テーブルのメタデータ
+ */
+export interface TableMetadata {
+    columns?: ColumnDefinitions;
+    /** 計算列の式 (ヘッダー行のセルの文字列ごと) */
+    formulas?: Record<string, string>;
+    /** 集計行の集計方法 (ヘッダー行のセルの文字列ごと)。指定がある場合、テーブルの最後の行が集計行になります */
+    summary?: Record<string, SummaryFunction>;
+}
+
+/** チェックボックスの列の値 */
+export const BOOLEAN_VALUES = { checked: 'true', unchecked: 'false' };
+
+// メタデータのHTMLコメント
+const METADATA_PATTERN = /^<!--\s*markdown-table:\s*(\{.*\})\s*-->$/;
+
+const COLUMN_DATA_TYPES = Object.keys(COLUMN_DATA_TYPE_LABELS) as ColumnDataType[];
+const SUMMARY_FUNCTIONS = Object.keys(SUMMARY_FUNCTION_LABELS) as SummaryFunction[];
+
+// メタデータの項目 (コメントに書き出す順序)
+const METADATA_KEYS: (keyof TableMetadata)[] = ['columns', 'formulas', 'summary'];
+
+/**
+ * JSONから読み込んだ値がオブジェクト (配列以外) かどうかを判定します。
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSONから読み込んだ列の定義を検証し、正しいものだけを返します。
+ */
+function sanitizeColumns(value: unknown): ColumnDefinitions {
+    const columns: ColumnDefinitions = {};
+    if (!isRecord(value)) return columns;
+    for (const [header, definition] of Object.entries(value)) {
+        if (!isRecord(definition) || !COLUMN_DATA_TYPES.includes(definition.type as ColumnDataType)) {
+            continue;
+        }
+        const type = definition.type as ColumnDataType;
+        columns[header] = type === 'enum'
+            ? { type: 'enum', values: Array.isArray(definition.values) ? definition.values.filter((v: unknown): v is string => typeof v === 'string') : [] }
+            : { type };
+    }
+    return columns;
+}
+
+/**
+ * JSONから読み込んだ、ヘッダーごとの文字列の値を検証し、正しいものだけを返します。
+ */
+function sanitizeRecord<T extends string>(value: unknown, isValid: (item: string) => item is T): Record<string, T> {
+    const record: Record<string, T> = {};
+    if (!isRecord(value)) return record;
+    for (const [header, item] of Object.entries(value)) {
+        if (typeof item === 'string' && isValid(item)) {
+            record[header] = item;
+        }
+    }
+    return record;
+}
+
+/**
+ * 行がメタデータのHTMLコメントであれば、メタデータを返します。そうでなければ null を返します。
+ * @param line 引用やインデントの接頭辞を除いた行
+ */
+export function parseTableMetadata(line: string): TableMetadata | null {
+    const match = line.trim().match(METADATA_PATTERN);
+    if (!match) return null;
+    let json: unknown;
+    try {
+        json = JSON.parse(match[1]);
+    } catch {
+        return null;
+    }
+    if (!isRecord(json)) return null;
+    return compactMetadata({
+        columns: sanitizeColumns(json.columns),
+        formulas: sanitizeRecord(json.formulas, (item): item is string => item.trim() !== ''),
+        summary: sanitizeRecord(json.summary, (item): item is SummaryFunction => SUMMARY_FUNCTIONS.includes(item as SummaryFunction))
+    });
+}
+
+/**
+ * 空の項目を除いたメタデータを返します。
+ */
+function compactMetadata(metadata: TableMetadata): TableMetadata {
+    const compacted: Record<string, unknown> = {};
+    for (const key of METADATA_KEYS) {
+        const value = metadata[key];
+        if (value && Object.keys(value).length > 0) {
+            compacted[key] = value;
+        }
+    }
+    return compacted as TableMetadata;
+}
+
+/**
+ * メタデータをHTMLコメントの文字列にします。保存する内容がない場合は null を返します。
+ */
+export function serializeTableMetadata(metadata: TableMetadata): string | null {
+    const json = compactMetadata(metadata);
+    if (Object.keys(json).length === 0) return null;
+    // コメントを閉じる文字列がJSONの文字列に含まれないようにします
+    return `<!-- markdown-table: ${JSON.stringify(json).replace(/--/g, '-\\u002d')} -->`;
+}
+
+/**
+ * ヘッダーの文字列に対応する列の定義を返します。定義がない場合は undefined を返します。
+ */
+export function getColumnDefinition(columns: ColumnDefinitions, header: string): ColumnDefinition | undefined {
+    return Object.prototype.hasOwnProperty.call(columns, header) ? columns[header] : undefined;
+}
+
+/**
+ * 列の定義を変更した新しいオブジェクトを返します。
+ * @param definition 新しい定義 (null の場合は定義を削除してテキストの列に戻します)
+ */
+export function setColumnDefinition(
+    columns: ColumnDefinitions,
+    header: string,
+    definition: ColumnDefinition | null
+): ColumnDefinitions {
+    const next = { ...columns };
+    if (definition && definition.type !== 'text') {
+        next[header] = definition;
+    } else {
+        delete next[header];
+    }
+    return next;
+}
+
+/**
+ * ヘッダーの文字列が変わったときに、ヘッダーごとの値 (列の定義など) を新しい文字列に付け替えます。
+ * 値がない場合や、新しい文字列に別の値がある場合は、元のオブジェクトをそのまま返します。
+ */
+export function renameColumnDefinition<T>(record: Record<string, T>, from: string, to: string): Record<string, T> {
+    const has = (key: string) => Object.prototype.hasOwnProperty.call(record, key);
+    if (!has(from) || from === to || has(to)) {
+        return record;
+    }
+    const next = { ...record };
+    delete next[from];
+    next[to] = record[from];
+    return next;
+}
+
+/**
+ * ヘッダーの文字列が変わったときに、列の種類・計算式・集計方法を新しい文字列に付け替えます。
+ * 付け替えるものがない場合は、元のオブジェクトをそのまま返します。
+ */
+export function renameColumnMetadata(metadata: TableMetadata, from: string, to: string): TableMetadata {
+    let next = metadata;
+    for (const key of METADATA_KEYS) {
+        const record = metadata[key] as Record<string, unknown> | undefined;
+        if (!record) continue;
+        const renamed = renameColumnDefinition(record, from, to);
+        if (renamed !== record) {
+            next = { ...next, [key]: renamed };
+        }
+    }
+    return next;
+}
+
+/**
+ * 列の種類・計算式・集計方法を削除したメタデータを返します (列を削除したときに使います)。
+ */
+export function removeColumnMetadata(metadata: TableMetadata, header: string): TableMetadata {
+    let next = metadata;
+    for (const key of METADATA_KEYS) {
+        const record = metadata[key] as Record<string, unknown> | undefined;
+        if (record && Object.prototype.hasOwnProperty.call(record, header)) {
+            const { [header]: _removed, ...rest } = record;
+            next = { ...next, [key]: rest };
+        }
+    }
+    return next;
+}
+
+/**
+ * セルの値が列の種類に合っているかどうかを判定します。空のセルは常に正しいものとします。
+ */
+export function isValidCellValue(value: string, definition: ColumnDefinition): boolean {
+    const text = value.trim();
+    if (text === '') return true;
+    switch (definition.type) {
+        case 'number':
+            return !isNaN(parseNumberValue(text));
+        case 'date':
+            return !isNaN(parseDateValue(text));
+        case 'boolean':
+            return text === BOOLEAN_VALUES.checked || text === BOOLEAN_VALUES.unchecked;
+        case 'enum':
+            return (definition.values || []).includes(text);
+        default:
+            return true;
+    }
+}
+
+/**
+ * 列の種類に合っていないセル
+ */
+export interface InvalidCell {
+    /** data のインデックス (ヘッダー行は含まない) */
+    row: number;
+    col: number;
+    value: string;
+    definition: ColumnDefinition;
+}
+
+/**
+ * テーブルのデータ行から、列の種類に合っていないセルを探します。
+ */
+export function findInvalidCells(data: string[][], columns: ColumnDefinitions): InvalidCell[] {
+    const header = data[0] || [];
+    const invalid: InvalidCell[] = [];
+    header.forEach((name, col) => {
+        const definition = getColumnDefinition(columns, name);
+        if (!definition) return;
+        for (let row = 1; row < data.length; row++) {
+            const value = data[row][col] ?? '';
+            if (!isValidCellValue(value, definition)) {
+                invalid.push({ row, col, value, definition });
+            }
+        }
+    });
+    return invalid.sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+/**
+ * 列の種類の説明 (選択肢の場合は選択肢の一覧を含む) を返します。
+ */
+export function describeColumnDefinition(definition: ColumnDefinition): string {
+    const label = COLUMN_DATA_TYPE_LABELS[definition.type];
+    return definition.type === 'enum' ? `${label} (${(definition.values || []).join(', ')})` : label;
+}
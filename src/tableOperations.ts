@@ -0,0 +1,135 @@
+/**
+ * テーブルの構造の操作 (行・列の挿入、削除、移動)
+ *
+ * テキストエディタのコマンドとWebviewで同じ結果になるよう、両方からこのモジュールを使います。
+ * いずれの関数も元のテーブルを変更せず、新しいテーブルを返します。
+ * 行のインデックスは data のインデックス (0 がヘッダー行) です。
+ */
+import type { MarkdownTable } from './markdownParser';
+
+/**
+ * 値を範囲内に収めます。
+ */
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * 配列の要素を移動した新しい配列を返します。
+ */
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+}
+
+/**
+ * 空の行を挿入します。ヘッダー行の上には挿入しません。
+ * @param index 挿入する位置 (挿入後の新しい行のインデックス)
+ */
+export function insertRow(table: MarkdownTable, index: number): MarkdownTable {
+    const columnCount = table.data[0]?.length ?? 0;
+    const data = [...table.data];
+    data.splice(clamp(index, 1, data.length), 0, new Array<string>(columnCount).fill(''));
+    return { data, alignments: table.alignments };
+}
+
+/**
+ * 行を削除します。行が1つしかない場合は削除しません。
+ */
+export function deleteRow(table: MarkdownTable, index: number): MarkdownTable {
+    if (table.data.length <= 1 || index < 0 || index >= table.data.length) return table;
+    return { data: table.data.filter((_, i) => i !== index), alignments: table.alignments };
+}
+
+/**
+ * 行を複製して、その直下に挿入します。
+ */
+export function duplicateRow(table: MarkdownTable, index: number): MarkdownTable {
+    if (index < 0 || index >= table.data.length) return table;
+    const data = [...table.data];
+    data.splice(index + 1, 0, [...table.data[index]]);
+    return { data, alignments: table.alignments };
+}
+
+/**
+ * データ行を移動します。ヘッダー行は移動しません。
+ * @param from 移動する行
+ * @param to 移動先 (移動後のインデックス)
+ */
+export function moveRow(table: MarkdownTable, from: number, to: number): MarkdownTable {
+    const last = table.data.length - 1;
+    if (from < 1 || from > last) return table;
+    const target = clamp(to, 1, last);
+    if (target === from) return table;
+    return { data: moveItem(table.data, from, target), alignments: table.alignments };
+}
+
+/**
+ * 行・列を from から to に移動したときの、index の位置にあった行・列の移動後の位置を返します。
+ * 移動に合わせてアクティブなセルや列ごとの設定 (列幅など) を追従させるときに使います。
+ */
+export function getMovedIndex(index: number, from: number, to: number): number {
+    if (index === from) return to;
+    if (from < index && index <= to) return index - 1;
+    if (to <= index && index < from) return index + 1;
+    return index;
+}
+
+/**
+ * 空の列 (配置指定なし) を挿入します。
+ * @param index 挿入する位置 (挿入後の新しい列のインデックス)
+ */
+export function insertColumn(table: MarkdownTable, index: number): MarkdownTable {
+    const position = clamp(index, 0, table.alignments.length);
+    const data = table.data.map(row => {
+        const next = [...row];
+        next.splice(Math.min(position, next.length), 0, '');
+        return next;
+    });
+    const alignments = [...table.alignments];
+    alignments.splice(position, 0, 'none');
+    return { data, alignments };
+}
+
+/**
+ * 列を削除します。列が1つしかない場合は削除しません。
+ */
+export function deleteColumn(table: MarkdownTable, index: number): MarkdownTable {
+    if (table.alignments.length <= 1 || index < 0 || index >= table.alignments.length) return table;
+    return {
+        data: table.data.map(row => row.filter((_, i) => i !== index)),
+        alignments: table.alignments.filter((_, i) => i !== index)
+    };
+}
+
+/**
+ * 列を移動します。列の配置も一緒に移動します。
+ * @param from 移動する列
+ * @param to 移動先 (移動後のインデックス)
+ */
+export function moveColumn(table: MarkdownTable, from: number, to: number): MarkdownTable {
+    const last = table.alignments.length - 1;
+    if (from < 0 || from > last) return table;
+    const target = clamp(to, 0, last);
+    if (target === from) return table;
+    return {
+        data: table.data.map(row => moveItem(row, from, target)),
+        alignments: moveItem(table.alignments, from, target)
+    };
+}
+
+/**
+ * 2つの列を入れ替えます。列の配置も一緒に入れ替えます。
+ */
+export function swapColumns(table: MarkdownTable, a: number, b: number): MarkdownTable {
+    const count = table.alignments.length;
+    if (a === b || a < 0 || b < 0 || a >= count || b >= count) return table;
+    const swap = <T>(items: T[]) => {
+        const next = [...items];
+        [next[a], next[b]] = [next[b], next[a]];
+        return next;
+    };
+    return { data: table.data.map(swap), alignments: swap(table.alignments) };
+}
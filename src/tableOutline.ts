@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import { scanTables, TableSummary } from './markdownParser';
+import { formatTableSize } from './tableCodeLens';
+
+// テーブル一覧の表示範囲を表すコンテキストキー (ビューのタイトルのボタンの切り替えに使用)
+const OUTLINE_SCOPE_CONTEXT_KEY = 'markdownTableEditor.outlineScope';
+
+// ワークスペースのテーブル一覧で走査しないフォルダ
+const EXCLUDED_FOLDERS = '**/node_modules/**';
+
+/** テーブル一覧の表示範囲 (アクティブなファイル / ワークスペース全体) */
+type OutlineScope = 'file' | 'workspace';
+
+/** テーブル一覧のファイル (ワークスペース全体を表示する場合のみ) */
+interface FileNode {
+    kind: 'file';
+    uri: vscode.Uri;
+    tables: TableSummary[];
+}
+
+/** テーブル一覧のテーブル */
+interface TableNode {
+    kind: 'table';
+    uri: vscode.Uri;
+    table: TableSummary;
+}
+
+type OutlineNode = FileNode | TableNode;
+
+/**
+ * エクスプローラーに表示するMarkdownのテーブルの一覧
+ *
+ * テーブルを最も近い見出しとヘッダー行で表示し、クリックするとテーブルの位置を表示します。
+ * アクティブなMarkdownファイルのテーブルと、ワークスペース全体のテーブルを切り替えられます。
+ */
+class TableOutlineProvider implements vscode.TreeDataProvider<OutlineNode>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private scope: OutlineScope = 'file';
+    // 最後にアクティブだったMarkdownのドキュメント (編集パネルにフォーカスがある間も一覧を保つ)
+    private document: vscode.TextDocument | undefined;
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor() {
+        this.setActiveEditor(vscode.window.activeTextEditor);
+    }
+
+    /**
+     * 表示範囲を切り替えます。
+     */
+    setScope(scope: OutlineScope) {
+        this.scope = scope;
+        vscode.commands.executeCommand('setContext', OUTLINE_SCOPE_CONTEXT_KEY, scope);
+        this.refresh();
+    }
+
+    /**
+     * アクティブなエディタが変わったときに呼び出されます。Markdown以外のエディタは無視します。
+     */
+    setActiveEditor(editor: vscode.TextEditor | undefined) {
+        if (editor && editor.document.languageId === 'markdown' && editor.document !== this.document) {
+            this.document = editor.document;
+            if (this.scope === 'file') {
+                this.refresh();
+            }
+        }
+    }
+
+    /**
+     * ドキュメントが変更されたときに呼び出されます。入力中に何度も走査しないよう、少し待ってから更新します。
+     */
+    handleDocumentChange(document: vscode.TextDocument) {
+        if (document.languageId !== 'markdown' || (this.scope === 'file' && document !== this.document)) {
+            return;
+        }
+        this.scheduleRefresh();
+    }
+
+    /**
+     * Markdownのファイルが作成・削除・保存されたときに呼び出されます。
+     */
+    handleFileChange(uri: vscode.Uri) {
+        if (this.scope === 'workspace' && !uri.path.includes('/node_modules/')) {
+            this.scheduleRefresh();
+        }
+    }
+
+    private scheduleRefresh() {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => this.refresh(), 500);
+    }
+
+    /**
+     * 一覧を更新します。
+     */
+    refresh() {
+        this.onDidChangeTreeDataEmitter.fire();
+    }
+
+    getTreeItem(node: OutlineNode): vscode.TreeItem {
+        if (node.kind === 'file') {
+            const item = new vscode.TreeItem(vscode.workspace.asRelativePath(node.uri), vscode.TreeItemCollapsibleState.Expanded);
+            item.resourceUri = node.uri;
+            item.iconPath = vscode.ThemeIcon.File;
+            item.description = `${node.tables.length}`;
+            return item;
+        }
+
+        const { table } = node;
+        const headerText = table.header.join(' | ');
+        const line = table.location.range.startLine;
+        const item = new vscode.TreeItem(table.heading ?? headerText);
+        item.description = table.heading !== null ? headerText : undefined;
+        item.tooltip = `Line ${line + 1} · ${formatTableSize(table.rowCount, table.columnCount)}\n${headerText}`;
+        item.iconPath = new vscode.ThemeIcon('table');
+        item.contextValue = 'table';
+        item.command = {
+            title: 'Reveal Table',
+            command: 'markdownTableEditor.revealTable',
+            arguments: [node.uri, line]
+        };
+        return item;
+    }
+
+    async getChildren(node?: OutlineNode): Promise<OutlineNode[]> {
+        if (node) {
+            return node.kind === 'file' ? this.toTableNodes(node.uri, node.tables) : [];
+        }
+        if (this.scope === 'file') {
+            return this.document && !this.document.isClosed
+                ? this.toTableNodes(this.document.uri, scanTables(this.document.getText()))
+                : [];
+        }
+        return this.getWorkspaceFiles();
+    }
+
+    private toTableNodes(uri: vscode.Uri, tables: TableSummary[]): TableNode[] {
+        return tables.map(table => ({ kind: 'table', uri, table }));
+    }
+
+    /**
+     * ワークスペース内のテーブルを含むMarkdownファイルを返します。
+     * 開いているドキュメントは、保存前の内容を使います。
+     */
+    private async getWorkspaceFiles(): Promise<FileNode[]> {
+        const uris = await vscode.workspace.findFiles('**/*.{md,markdown}', EXCLUDED_FOLDERS);
+        const decoder = new TextDecoder();
+        const files: FileNode[] = [];
+        for (const uri of uris) {
+            const opened = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+            let text: string;
+            try {
+                text = opened ? opened.getText() : decoder.decode(await vscode.workspace.fs.readFile(uri));
+            } catch {
+                continue;
+            }
+            const tables = scanTables(text);
+            if (tables.length > 0) {
+                files.push({ kind: 'file', uri, tables });
+            }
+        }
+        return files.sort((a, b) => a.uri.path.localeCompare(b.uri.path));
+    }
+
+    dispose() {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+}
+
+/**
+ * エクスプローラーのテーブル一覧を登録します。
+ */
+export function registerTableOutline(context: vscode.ExtensionContext) {
+    const provider = new TableOutlineProvider();
+    provider.setScope('file');
+
+    // Markdownのファイルの作成・削除・保存に合わせて、ワークスペース全体の一覧を更新します
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.{md,markdown}');
+    const handleFileChange = (uri: vscode.Uri) => provider.handleFileChange(uri);
+
+    context.subscriptions.push(
+        provider,
+        watcher,
+        vscode.window.registerTreeDataProvider('markdownTableEditor.tableOutline', provider),
+        vscode.window.onDidChangeActiveTextEditor(editor => provider.setActiveEditor(editor)),
+        vscode.workspace.onDidChangeTextDocument(e => provider.handleDocumentChange(e.document)),
+        watcher.onDidCreate(handleFileChange),
+        watcher.onDidDelete(handleFileChange),
+        watcher.onDidChange(handleFileChange),
+
+        vscode.commands.registerCommand('markdownTableEditor.outline.refresh', () => provider.refresh()),
+        vscode.commands.registerCommand('markdownTableEditor.outline.showWorkspace', () => provider.setScope('workspace')),
+        vscode.commands.registerCommand('markdownTableEditor.outline.showActiveFile', () => provider.setScope('file')),
+
+        // テーブル一覧のボタンから、テーブルを編集パネルで開きます
+        vscode.commands.registerCommand('markdownTableEditor.outline.editTable', (node: TableNode) => (
+            vscode.commands.executeCommand('markdownTableEditor.openTableAt', node.uri, node.table.location.range.startLine)
+        )),
+
+        // テーブルの位置をテキストエディタで表示します
+        vscode.commands.registerCommand('markdownTableEditor.revealTable', async (uri: vscode.Uri, line: number) => {
+            const position = new vscode.Position(line, 0);
+            await vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position) });
+        })
+    );
+}
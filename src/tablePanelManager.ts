@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+import { TableLocation, findTableByHeader } from './markdownParser';
+import { TableEditorPanel, TablePanelState } from './tableEditorPanel';
+
+/**
+ * テーブル編集パネルの管理
+ *
+ * ドキュメントとテーブルの組ごとに1つのパネルを割り当てます。
+ * 既にパネルが開いているテーブルを開こうとした場合は、そのパネルを前面に表示します。
+ */
+export class TablePanelManager implements vscode.Disposable {
+    private readonly panels: TableEditorPanel[] = [];
+
+    constructor(private readonly context: vscode.ExtensionContext) { }
+
+    /**
+     * 指定した位置のテーブルを編集するパネルを開きます。
+     * @param document 対象のドキュメント
+     * @param line カーソルのある行
+     * @param location 行を含むテーブルの位置
+     */
+    open(document: vscode.TextDocument, line: number, location: TableLocation): TableEditorPanel {
+        const existing = this.panels.find(p => p.contains(document, line));
+        if (existing) {
+            existing.reveal();
+            return existing;
+        }
+
+        return this.add(new TableEditorPanel(this.context, document, location));
+    }
+
+    /**
+     * ウィンドウの再読み込み後に、保存されていた状態からパネルを復元します。
+     * ドキュメントやテーブルが見つからない場合はパネルを閉じます。
+     * @param webviewPanel VS Codeが復元したパネル
+     * @param state Webviewが保存していた状態
+     */
+    async restore(webviewPanel: vscode.WebviewPanel, state: TablePanelState | undefined) {
+        if (!state || !state.documentUri) {
+            webviewPanel.dispose();
+            return;
+        }
+
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(vscode.Uri.parse(state.documentUri));
+        } catch {
+            webviewPanel.dispose();
+            return;
+        }
+
+        // 再読み込みの間にドキュメントが編集されている可能性があるため、ヘッダー行を手がかりに探し直します
+        const location = findTableByHeader(document.getText(), state.header || [], state.startLine);
+        if (!location || this.panels.some(p => p.contains(document, location.range.startLine))) {
+            webviewPanel.dispose();
+            return;
+        }
+        this.add(new TableEditorPanel(this.context, document, location, webviewPanel));
+    }
+
+    /**
+     * パネルを一覧に追加し、閉じられたときに取り除くようにします。
+     */
+    private add(panel: TableEditorPanel): TableEditorPanel {
+        this.panels.push(panel);
+        panel.onDidDispose(() => {
+            const index = this.panels.indexOf(panel);
+            if (index >= 0) {
+                this.panels.splice(index, 1);
+            }
+        });
+        return panel;
+    }
+
+    /**
+     * 変更された設定を開いているすべてのパネルに反映します。
+     */
+    updateSettings() {
+        this.panels.forEach(p => p.updateSettings());
+    }
+
+    dispose() {
+        // パネルを閉じると onDidDispose で一覧から取り除かれるため、コピーに対して処理します
+        [...this.panels].forEach(p => p.close());
+    }
+}
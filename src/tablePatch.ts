@@ -0,0 +1,96 @@
+/**
+ * Webviewとドキュメントの間でテーブルの差分をやり取りするための関数
+ *
+ * 大きなテーブルでも入力のたびにテーブル全体を送信・置換しないよう、
+ * Webviewは変更したセルだけを送り、拡張機能側は変更された行だけをドキュメントに書き込みます。
+ */
+import type { MarkdownTable } from './markdownParser';
+
+/**
+ * 1つのセルの変更
+ */
+export interface CellChange {
+    /** data のインデックス (0 がヘッダー行) */
+    row: number;
+    col: number;
+    value: string;
+}
+
+/**
+ * 行単位の差分 (start 行目から deleteCount 行を lines で置き換える)
+ */
+export interface LinePatch {
+    start: number;
+    deleteCount: number;
+    lines: string[];
+}
+
+/**
+ * 2つのテーブルのデータを比較し、変更されたセルを返します。
+ * 行数または列数が異なる場合 (セルの変更だけでは表せない場合) は null を返します。
+ * 変更されていない行は同じ配列を共有していることが多いため、行の参照が同じであれば比較を省きます。
+ */
+export function diffCells(before: string[][], after: string[][]): CellChange[] | null {
+    if (before.length !== after.length) {
+        return null;
+    }
+    const changes: CellChange[] = [];
+    for (let row = 0; row < after.length; row++) {
+        const oldRow = before[row];
+        const newRow = after[row];
+        if (oldRow === newRow) {
+            continue;
+        }
+        if (oldRow.length !== newRow.length) {
+            return null;
+        }
+        for (let col = 0; col < newRow.length; col++) {
+            if (oldRow[col] !== newRow[col]) {
+                changes.push({ row, col, value: newRow[col] });
+            }
+        }
+    }
+    return changes;
+}
+
+/**
+ * セルの変更を適用した新しいテーブルを返します。範囲外のセルの変更は無視します。
+ */
+export function applyCellChanges(table: MarkdownTable, changes: readonly CellChange[]): MarkdownTable {
+    const data = [...table.data];
+    for (const { row, col, value } of changes) {
+        if (row < 0 || row >= data.length || col < 0 || col >= data[row].length) {
+            continue;
+        }
+        if (data[row] === table.data[row]) {
+            data[row] = [...data[row]];
+        }
+        data[row][col] = value;
+    }
+    return { data, alignments: table.alignments };
+}
+
+/**
+ * 変更前後の行を比較し、先頭と末尾の一致する行を除いた差分を返します。
+ * 変更がない場合は null を返します。
+ */
+export function diffLines(before: readonly string[], after: readonly string[]): LinePatch | null {
+    const maxCommon = Math.min(before.length, after.length);
+    let prefix = 0;
+    while (prefix < maxCommon && before[prefix] === after[prefix]) {
+        prefix++;
+    }
+    if (prefix === before.length && prefix === after.length) {
+        return null;
+    }
+    let suffix = 0;
+    while (suffix < maxCommon - prefix
+        && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+        suffix++;
+    }
+    return {
+        start: prefix,
+        deleteCount: before.length - prefix - suffix,
+        lines: after.slice(prefix, after.length - suffix)
+    };
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import { recalculateTables, collectSummaryRows } from './markdownParser';
+import { getTableFormatOptions } from './configuration';
+
+// 入力が落ち着いてから計算し直すまでの待ち時間 (ミリ秒)
+const RECALCULATE_DELAY = 500;
+
+// メタデータのコメントを含まないドキュメントは走査しません
+const METADATA_MARKER = 'markdown-table:';
+
+/**
+ * テキストエディタでの編集に合わせて、計算列と集計行の値を計算し直します。
+ *
+ * 元に戻す / やり直しによる変更では計算し直しません
+ * (計算し直した結果を元に戻せなくなるのを防ぐため)。
+ * 集計行の下に行が入力された場合は、前回の集計行を覚えておき、入力された行を集計行の上に移します。
+ */
+export function registerTableRecalculation(context: vscode.ExtensionContext) {
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    // ドキュメントごとの、前回計算したときの集計行
+    const summaryRows = new Map<string, Set<string>>();
+
+    const rememberSummaryRows = (document: vscode.TextDocument) => {
+        if (document.languageId === 'markdown' && document.getText().includes(METADATA_MARKER)) {
+            summaryRows.set(document.uri.toString(), collectSummaryRows(document.getText()));
+        }
+    };
+
+    const recalculate = async (document: vscode.TextDocument) => {
+        if (document.isClosed) {
+            return;
+        }
+        const key = document.uri.toString();
+        const edits = recalculateTables(document.getText(), getTableFormatOptions(document), summaryRows.get(key));
+        if (edits.length === 0) {
+            rememberSummaryRows(document);
+            return;
+        }
+        const workspaceEdit = new vscode.WorkspaceEdit();
+        for (const edit of edits) {
+            const { startLine, endLine } = edit.range;
+            workspaceEdit.replace(
+                document.uri,
+                new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length),
+                edit.text
+            );
+        }
+        await vscode.workspace.applyEdit(workspaceEdit);
+        rememberSummaryRows(document);
+    };
+
+    vscode.workspace.textDocuments.forEach(rememberSummaryRows);
+
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeTextDocument(e => {
+            const { document } = e;
+            if (document.languageId !== 'markdown' || e.contentChanges.length === 0) {
+                return;
+            }
+            if (e.reason === vscode.TextDocumentChangeReason.Undo || e.reason === vscode.TextDocumentChangeReason.Redo) {
+                return;
+            }
+            if (!document.getText().includes(METADATA_MARKER)) {
+                return;
+            }
+            const key = document.uri.toString();
+            clearTimeout(timers.get(key));
+            timers.set(key, setTimeout(() => {
+                timers.delete(key);
+                recalculate(document);
+            }, RECALCULATE_DELAY));
+        }),
+        vscode.workspace.onDidOpenTextDocument(rememberSummaryRows),
+        vscode.workspace.onDidCloseTextDocument(document => summaryRows.delete(document.uri.toString())),
+        { dispose: () => timers.forEach(timer => clearTimeout(timer)) }
+    );
+}
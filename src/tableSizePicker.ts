@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+
+/** テーブルの大きさ (データ行の数 × 列の数) */
+export interface TableSize {
+    rows: number;
+    columns: number;
+}
+
+// クイックピックに表示するよく使う大きさ
+const COMMON_SIZES: TableSize[] = [
+    { rows: 2, columns: 2 },
+    { rows: 3, columns: 2 },
+    { rows: 3, columns: 3 },
+    { rows: 4, columns: 3 },
+    { rows: 4, columns: 4 },
+    { rows: 5, columns: 3 },
+    { rows: 5, columns: 5 }
+];
+
+const MAX_ROWS = 1000;
+const MAX_COLUMNS = 100;
+
+/**
+ * "3x4" や "3 × 4" 形式の文字列をテーブルの大きさとして解釈します。
+ */
+function parseTableSize(text: string): TableSize | undefined {
+    const match = text.match(/^\s*(\d+)\s*[x×X*,]\s*(\d+)\s*$/);
+    if (!match) return undefined;
+    const size = { rows: Number(match[1]), columns: Number(match[2]) };
+    if (size.rows < 1 || size.rows > MAX_ROWS || size.columns < 1 || size.columns > MAX_COLUMNS) return undefined;
+    return size;
+}
+
+/**
+ * 新しく作成するテーブルの大きさを選択させます。
+ * よく使う大きさをクイックピックで表示し、それ以外は入力ボックスで指定できます。
+ * @returns 選択された大きさ、キャンセルされた場合はundefined
+ */
+export async function pickTableSize(): Promise<TableSize | undefined> {
+    const customItem: vscode.QuickPickItem = { label: '$(edit) Custom size...', description: 'rows × columns' };
+    const items: (vscode.QuickPickItem & { size?: TableSize })[] = [
+        ...COMMON_SIZES.map(size => ({
+            label: `$(table) ${size.rows} × ${size.columns}`,
+            description: `${size.rows} rows, ${size.columns} columns`,
+            size
+        })),
+        customItem
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select the table size (rows × columns, excluding the header row)' });
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.size) {
+        return picked.size;
+    }
+
+    const input = await vscode.window.showInputBox({
+        prompt: 'Table size as rows × columns (excluding the header row)',
+        placeHolder: '3x4',
+        validateInput: text => parseTableSize(text)
+            ? undefined
+            : `Enter rows (1-${MAX_ROWS}) and columns (1-${MAX_COLUMNS}), e.g. 3x4`
+    });
+    return input === undefined ? undefined : parseTableSize(input);
+}
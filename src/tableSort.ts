@@ -0,0 +1,100 @@
+/**
+ * テーブルの行の並べ替え
+ *
+ * 列の値から数値・日付・テキストのいずれかを判定し、その種類に応じて比較します。
+ * テキストは Intl.Collator によりロケールに応じた順序 (日本語・英語の混在を含む) で並べ替えます。
+ * Webviewとテキストエディタのコマンドで同じ結果になるよう、両方からこのモジュールを使います。
+ */
+
+/** 列の値の種類 */
+export type ColumnValueType = 'number' | 'date' | 'text';
+
+/** 並べ替えの方向 */
+export type SortDirection = 'asc' | 'desc';
+
+// 数値 (符号、通貨記号、桁区切りのカンマ、小数、指数、パーセントを許容)
+const NUMBER_PATTERN = /^[-+]?[$¥€£]?(?:\d{1,3}(?:,\d{3})+|\d*)(?:\.\d+)?(?:e[-+]?\d+)?%?$/i;
+
+// 日付 (2024-01-31, 2024/1/31, 2024.01.31 12:00, 2024年1月31日)
+const DATE_PATTERNS = [
+    /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/,
+    /^(\d{4})年(\d{1,2})月(\d{1,2})日(?:\s*(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/
+];
+
+/**
+ * セルの値を数値として解釈します。数値でなければ NaN を返します。
+ */
+export function parseNumberValue(value: string): number {
+    const text = value.trim();
+    if (!NUMBER_PATTERN.test(text) || !/\d/.test(text)) return NaN;
+    return Number(text.replace(/[$¥€£,%]/g, ''));
+}
+
+/**
+ * セルの値を日付として解釈します。日付でなければ NaN を返します。
+ * @returns UTCのタイムスタンプ (比較用)
+ */
+export function parseDateValue(value: string): number {
+    const text = value.trim();
+    for (const pattern of DATE_PATTERNS) {
+        const match = text.match(pattern);
+        if (!match) continue;
+        const [year, month, day, hour, minute, second] = match.slice(1).map(v => v === undefined ? 0 : Number(v));
+        const time = Date.UTC(year, month - 1, day, hour, minute, second);
+        const date = new Date(time);
+        // Reject dates such as 2024-02-30 that Date.UTC silently rolls over
+        if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return NaN;
+        return time;
+    }
+    return NaN;
+}
+
+/**
+ * 列の値から種類を判定します。空のセルは判定に含めません。
+ */
+export function detectColumnType(values: string[]): ColumnValueType {
+    const filled = values.map(v => v.trim()).filter(v => v !== '');
+    if (filled.length === 0) return 'text';
+    if (filled.every(v => !isNaN(parseNumberValue(v)))) return 'number';
+    if (filled.every(v => !isNaN(parseDateValue(v)))) return 'date';
+    return 'text';
+}
+
+/**
+ * 指定した列でデータ行を並べ替えます。ヘッダー行 (data[0]) は先頭に固定します。
+ * 空のセルは並べ替えの方向に関わらず末尾に並べます。値が等しい行は元の順序を保ちます。
+ * @param data ヘッダー行を含むテーブルのデータ
+ * @param columnIndex 並べ替えの基準にする列
+ * @param direction 昇順 / 降順
+ * @param locales テキストの比較に使うロケール (省略時は実行環境の既定)
+ * @returns 並べ替えたデータ (新しい配列)
+ */
+export function sortTableRows(data: string[][], columnIndex: number, direction: SortDirection, locales?: string | string[]): string[][] {
+    if (data.length === 0) return [];
+    const [header, ...body] = data;
+    const type = detectColumnType(body.map(row => row[columnIndex] || ''));
+    const collator = new Intl.Collator(locales, { numeric: true, sensitivity: 'base' });
+    const sign = direction === 'asc' ? 1 : -1;
+
+    const compareValues = (a: string, b: string): number => {
+        switch (type) {
+            case 'number':
+                return parseNumberValue(a) - parseNumberValue(b);
+            case 'date':
+                return parseDateValue(a) - parseDateValue(b);
+            default:
+                return collator.compare(a, b);
+        }
+    };
+
+    const sorted = [...body].sort((rowA, rowB) => {
+        const a = (rowA[columnIndex] || '').trim();
+        const b = (rowB[columnIndex] || '').trim();
+        if (a === '' || b === '') {
+            return (a === '' ? 1 : 0) - (b === '' ? 1 : 0);
+        }
+        return sign * compareValues(a, b);
+    });
+
+    return [header, ...sorted];
+}
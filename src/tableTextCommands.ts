@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import {
+    findTables, findTableAtPosition, parseMarkdownTable, generateMarkdownTable, applyLinePrefix, getCellRanges,
+    TableLocation
+} from './markdownParser';
+import { deleteRow, insertColumn, deleteColumn, moveColumn, swapColumns } from './tableOperations';
+import {
+    nextCell, previousCell, nextRow, insertRowAbove, insertRowBelow, moveRowUp, moveRowDown, getSummaryRowIndex,
+    TableTextCursor, TableEditResult
+} from './tableTextEdits';
+import { sortTableRows, SortDirection } from './tableSort';
+import { getTableFormatOptions } from './configuration';
+import { hasSummaryRow } from './tableFormulas';
+
+// カーソルがテーブル内にあるかどうかを表すコンテキストキー (キーバインドの when 句で使用)
+const IN_TABLE_CONTEXT_KEY = 'markdownTableEditor.inTable';
+
+/**
+ * カーソル位置のテーブルとセル
+ */
+interface TableCursor extends TableTextCursor {
+    location: TableLocation;
+}
+
+/**
+ * エディタのカーソル位置にあるテーブルとセルを取得します。
+ */
+function getTableCursor(editor: vscode.TextEditor): TableCursor | undefined {
+    const document = editor.document;
+    const position = editor.selection.active;
+    const location = findTableAtPosition(document.getText(), position.line);
+    if (!location) {
+        return undefined;
+    }
+    const table = parseMarkdownTable(location.content);
+    if (table.data.length === 0) {
+        return undefined;
+    }
+
+    const lineIndex = position.line - location.range.startLine;
+    const row = Math.max(lineIndex - 1, 0);
+
+    // カーソルより後ろで最初に終わるセルがカーソル位置のセル
+    const lineText = document.lineAt(position.line).text.slice(location.prefix.length);
+    const character = position.character - location.prefix.length;
+    const cells = getCellRanges(lineText);
+    const index = cells.findIndex(cell => character <= cell.outerEnd);
+    const column = Math.min(index === -1 ? cells.length - 1 : index, table.alignments.length - 1);
+
+    return { location, table, row, column: Math.max(column, 0), hasSummaryRow: hasSummaryRow(location.metadata) };
+}
+
+/**
+ * テーブルを整形して書き戻し、指定したセルの内容を選択します。
+ */
+async function applyTableEdit(editor: vscode.TextEditor, location: TableLocation, result: TableEditResult) {
+    const document = editor.document;
+    const content = generateMarkdownTable(result.table, { ...getTableFormatOptions(document), metadata: location.metadata }).trim();
+    const text = applyLinePrefix(content, location.prefix);
+    const { startLine, endLine } = location.range;
+    const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    if (document.getText(range) !== text) {
+        const applied = await editor.edit(editBuilder => editBuilder.replace(range, text));
+        if (!applied) {
+            return;
+        }
+    }
+
+    const lines = text.split('\n');
+    const row = Math.min(Math.max(result.row, 0), result.table.data.length - 1);
+    const lineIndex = row === 0 ? 0 : row + 1;
+    const cells = getCellRanges(lines[lineIndex].slice(location.prefix.length));
+    const cell = cells[Math.min(Math.max(result.column, 0), cells.length - 1)];
+    const line = startLine + lineIndex;
+    const offset = location.prefix.length;
+    editor.selection = new vscode.Selection(line, offset + cell.start, line, offset + cell.end);
+    editor.revealRange(editor.selection);
+}
+
+/**
+ * カーソル位置のテーブルを操作するコマンドを登録します。
+ * @param edit 操作後のテーブルとカーソルの移動先を返す関数 (undefined を返した場合は何もしません)
+ */
+function registerTableCommand(
+    context: vscode.ExtensionContext,
+    command: string,
+    edit: (cursor: TableCursor, editor: vscode.TextEditor) => TableEditResult | undefined | Promise<TableEditResult | undefined>
+) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand(command, async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+            const cursor = getTableCursor(editor);
+            if (!cursor) {
+                vscode.window.showErrorMessage('No Markdown table found at the cursor position.');
+                return;
+            }
+            const result = await edit(cursor, editor);
+            if (result) {
+                await applyTableEdit(editor, cursor.location, result);
+            }
+        })
+    );
+}
+
+/**
+ * テーブルの末尾の空行を削除し、テーブルの直後に空行を追加してカーソルを移動します。
+ * テーブルの入力を終えて通常の文章に戻るときに使います。
+ */
+async function leaveTable(editor: vscode.TextEditor, { location, table, row }: TableCursor) {
+    const document = editor.document;
+    const content = generateMarkdownTable(deleteRow(table, row), { ...getTableFormatOptions(document), metadata: location.metadata }).trim();
+    const text = applyLinePrefix(content, location.prefix) + '\n' + location.prefix.trimEnd();
+    const { startLine, endLine } = location.range;
+    const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+    const applied = await editor.edit(editBuilder => editBuilder.replace(range, text));
+    if (applied) {
+        const line = startLine + text.split('\n').length - 1;
+        const position = document.lineAt(line).range.end;
+        editor.selection = new vscode.Selection(position, position);
+    }
+}
+
+// 最後に走査したドキュメントのテーブルの範囲 (カーソルの移動のたびにドキュメント全体を走査しないよう、バージョンごとに保持します)
+let tableRangesCache: { document: vscode.TextDocument, version: number, ranges: TableLocation['range'][] } | undefined;
+
+/**
+ * ドキュメント内のテーブルの範囲を返します。ドキュメントが変更されていなければ前回の結果を使います。
+ */
+function getTableRanges(document: vscode.TextDocument): TableLocation['range'][] {
+    if (tableRangesCache?.document !== document || tableRangesCache.version !== document.version) {
+        tableRangesCache = { document, version: document.version, ranges: findTables(document.getText()).map(t => t.range) };
+    }
+    return tableRangesCache.ranges;
+}
+
+/**
+ * カーソルがテーブル内にあるかどうかのコンテキストキーを更新します。
+ */
+function updateInTableContext(editor: vscode.TextEditor | undefined) {
+    let inTable = false;
+    if (editor && editor.document.languageId === 'markdown') {
+        const line = editor.selection.active.line;
+        // テーブルの行には必ず | が含まれるため、含まれない行ではドキュメント全体を走査しません
+        inTable = editor.document.lineAt(line).text.includes('|')
+            && getTableRanges(editor.document).some(range => range.startLine <= line && line <= range.endLine);
+    }
+    vscode.commands.executeCommand('setContext', IN_TABLE_CONTEXT_KEY, inTable);
+}
+
+/**
+ * テキストエディタ上でテーブルを編集するコマンドを登録します。
+ * Webviewを開かずに、セル間の移動や行・列の操作ができます。
+ * 操作のたびにテーブルを整形 (列幅を揃える) します。
+ */
+export function registerTableTextCommands(context: vscode.ExtensionContext) {
+    registerTableCommand(context, 'markdownTableEditor.nextCell', nextCell);
+    registerTableCommand(context, 'markdownTableEditor.previousCell', previousCell);
+
+    // Enter: 下に行を追加して同じ列に移動します。最後の行が空の場合はテーブルを抜けます
+    registerTableCommand(context, 'markdownTableEditor.nextRow', async (cursor, editor) => {
+        const result = nextRow(cursor);
+        if (result === 'leave') {
+            await leaveTable(editor, cursor);
+            return undefined;
+        }
+        return result;
+    });
+
+    // 集計行があるテーブルでは、行は集計行より上に挿入します
+    registerTableCommand(context, 'markdownTableEditor.insertRowAbove', insertRowAbove);
+    registerTableCommand(context, 'markdownTableEditor.insertRowBelow', insertRowBelow);
+    registerTableCommand(context, 'markdownTableEditor.deleteRow', (cursor) => {
+        const { table, row, column } = cursor;
+        if (table.data.length <= 1) {
+            vscode.window.showErrorMessage('The last row of a table cannot be deleted.');
+            return undefined;
+        }
+        if (row === getSummaryRowIndex(cursor)) {
+            vscode.window.showErrorMessage('The summary row cannot be deleted. Turn off the summaries in the column menu instead.');
+            return undefined;
+        }
+        const next = deleteRow(table, row);
+        return { table: next, row: Math.min(row, next.data.length - 1), column };
+    });
+    registerTableCommand(context, 'markdownTableEditor.moveRowUp', moveRowUp);
+    registerTableCommand(context, 'markdownTableEditor.moveRowDown', moveRowDown);
+
+    registerTableCommand(context, 'markdownTableEditor.insertColumnLeft', ({ table, row, column }) => (
+        { table: insertColumn(table, column), row, column }
+    ));
+    registerTableCommand(context, 'markdownTableEditor.insertColumnRight', ({ table, row, column }) => (
+        { table: insertColumn(table, column + 1), row, column: column + 1 }
+    ));
+    registerTableCommand(context, 'markdownTableEditor.deleteColumn', ({ table, row, column }) => {
+        if (table.alignments.length <= 1) {
+            vscode.window.showErrorMessage('The last column of a table cannot be deleted.');
+            return undefined;
+        }
+        const next = deleteColumn(table, column);
+        return { table: next, row, column: Math.min(column, next.alignments.length - 1) };
+    });
+    registerTableCommand(context, 'markdownTableEditor.moveColumnLeft', ({ table, row, column }) => (
+        column > 0 ? { table: moveColumn(table, column, column - 1), row, column: column - 1 } : undefined
+    ));
+    registerTableCommand(context, 'markdownTableEditor.moveColumnRight', ({ table, row, column }) => (
+        column < table.alignments.length - 1 ? { table: moveColumn(table, column, column + 1), row, column: column + 1 } : undefined
+    ));
+
+    // カーソル位置の列と、選択した列を入れ替えます
+    registerTableCommand(context, 'markdownTableEditor.swapColumns', async ({ table, row, column }) => {
+        const items = table.data[0]
+            .map((header, index) => ({ label: header || `Column ${index + 1}`, description: `列 ${index + 1}`, index }))
+            .filter(item => item.index !== column);
+        if (items.length === 0) {
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: '入れ替える列を選択してください' });
+        if (!picked) {
+            return undefined;
+        }
+        return { table: swapColumns(table, column, picked.index), row, column: picked.index };
+    });
+
+    // カーソル位置の列で並べ替えます (Webviewの並べ替えと同じ規則)
+    // 集計行はテーブルの最後に残します
+    const sortBy = (direction: SortDirection) => (cursor: TableCursor): TableEditResult => {
+        const { table, row, column } = cursor;
+        const summary = getSummaryRowIndex(cursor) === -1 ? [] : table.data.slice(-1);
+        const rows = table.data.slice(0, table.data.length - summary.length);
+        return {
+            table: { data: [...sortTableRows(rows, column, direction, vscode.env.language), ...summary], alignments: table.alignments },
+            row,
+            column
+        };
+    };
+    registerTableCommand(context, 'markdownTableEditor.sortAscending', sortBy('asc'));
+    registerTableCommand(context, 'markdownTableEditor.sortDescending', sortBy('desc'));
+
+    // キーバインド (Tab / Enter など) をテーブル内でのみ有効にします
+    updateInTableContext(vscode.window.activeTextEditor);
+    context.subscriptions.push(
+        vscode.window.onDidChangeActiveTextEditor(updateInTableContext),
+        vscode.window.onDidChangeTextEditorSelection(e => updateInTableContext(e.textEditor)),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            if (tableRangesCache?.document === document) {
+                tableRangesCache = undefined;
+            }
+        })
+    );
+}
@@ -0,0 +1,125 @@
+/**
+ * テキストエディタ上でのテーブルの編集 (セルの移動、行の挿入・移動)
+ *
+ * コマンドの結果 (操作後のテーブルとカーソルを移動するセル) だけを計算し、VS Code には依存しません。
+ * 集計行があるテーブルでは、Webviewと同じく集計行を常に最後の行に残します。
+ */
+import type { MarkdownTable } from './markdownParser';
+import { insertRow, moveRow } from './tableOperations';
+
+/**
+ * カーソル位置のテーブルとセル
+ */
+export interface TableTextCursor {
+    table: MarkdownTable;
+    /** data のインデックス (区切り行はヘッダー行として扱います) */
+    row: number;
+    column: number;
+    /** 最後の行が集計行かどうか (テーブルのメタデータに集計の設定があるかどうか) */
+    hasSummaryRow: boolean;
+}
+
+/**
+ * 操作後のテーブルとカーソルを移動するセル
+ */
+export interface TableEditResult {
+    table: MarkdownTable;
+    row: number;
+    column: number;
+}
+
+/**
+ * 集計行のインデックスを返します。集計行がない場合は -1 を返します。
+ */
+export function getSummaryRowIndex({ table, hasSummaryRow }: TableTextCursor): number {
+    return hasSummaryRow && table.data.length >= 2 ? table.data.length - 1 : -1;
+}
+
+/**
+ * 新しい行を挿入できる最後の位置を返します (集計行がある場合は集計行の位置)。
+ */
+function getRowInsertLimit(cursor: TableTextCursor): number {
+    const summaryRowIndex = getSummaryRowIndex(cursor);
+    return summaryRowIndex === -1 ? cursor.table.data.length : summaryRowIndex;
+}
+
+/**
+ * 行を挿入し、カーソルをその行に移動します。集計行より下には挿入しません。
+ */
+function insertRowAt(cursor: TableTextCursor, index: number, column: number): TableEditResult {
+    const position = Math.min(Math.max(index, 1), getRowInsertLimit(cursor));
+    return { table: insertRow(cursor.table, position), row: position, column };
+}
+
+/**
+ * 次のセルに移動します。最後のセル (集計行がある場合は最後のデータ行の最後のセル) からは新しい行を追加して移動します。
+ */
+export function nextCell(cursor: TableTextCursor): TableEditResult {
+    const { table, row, column } = cursor;
+    const lastColumn = table.alignments.length - 1;
+    if (column < lastColumn) {
+        return { table, row, column: column + 1 };
+    }
+    if (row + 1 < getRowInsertLimit(cursor)) {
+        return { table, row: row + 1, column: 0 };
+    }
+    return insertRowAt(cursor, row + 1, 0);
+}
+
+/**
+ * 前のセルに移動します。
+ */
+export function previousCell({ table, row, column }: TableTextCursor): TableEditResult {
+    if (column > 0) {
+        return { table, row, column: column - 1 };
+    }
+    if (row > 0) {
+        return { table, row: row - 1, column: table.alignments.length - 1 };
+    }
+    return { table, row, column };
+}
+
+/**
+ * Enter: 下に行を追加して同じ列に移動します。
+ * 最後のデータ行が空の場合は、テーブルを抜けることを表す 'leave' を返します。
+ */
+export function nextRow(cursor: TableTextCursor): TableEditResult | 'leave' {
+    const { table, row, column } = cursor;
+    const isLastRow = row > 0 && row === getRowInsertLimit(cursor) - 1;
+    if (isLastRow && table.data[row].every(cell => cell.trim() === '')) {
+        return 'leave';
+    }
+    return insertRowAt(cursor, row + 1, column);
+}
+
+/**
+ * 上に行を挿入します。ヘッダー行の上には挿入できないため、ヘッダー行の直下に挿入します。
+ */
+export function insertRowAbove(cursor: TableTextCursor): TableEditResult {
+    return insertRowAt(cursor, cursor.row, cursor.column);
+}
+
+/**
+ * 下に行を挿入します。
+ */
+export function insertRowBelow(cursor: TableTextCursor): TableEditResult {
+    return insertRowAt(cursor, cursor.row + 1, cursor.column);
+}
+
+/**
+ * 行を上に移動します。ヘッダー行と集計行は移動しません。
+ */
+export function moveRowUp(cursor: TableTextCursor): TableEditResult | undefined {
+    const { table, row, column } = cursor;
+    if (row <= 1 || row === getSummaryRowIndex(cursor)) return undefined;
+    return { table: moveRow(table, row, row - 1), row: row - 1, column };
+}
+
+/**
+ * 行を下に移動します。ヘッダー行と集計行は移動せず、集計行の位置にも移動しません。
+ */
+export function moveRowDown(cursor: TableTextCursor): TableEditResult | undefined {
+    const { table, row, column } = cursor;
+    if (row <= 0 || row + 1 >= getRowInsertLimit(cursor)) return undefined;
+    return { table: moveRow(table, row, row + 1), row: row + 1, column };
+}
@@ -0,0 +1,93 @@
+import { findTables, TableLocation } from './markdownParser';
+
+/**
+ * ドキュメントの変更内容 (vscode.TextDocumentContentChangeEvent と互換)
+ */
+export interface LineChange {
+    range: {
+        start: { line: number, character: number },
+        end: { line: number, character: number }
+    };
+    text: string;
+}
+
+/**
+ * 文字列に含まれる改行の数を返します。
+ */
+function countLineBreaks(text: string): number {
+    return text.split(/\r\n|\r|\n/).length - 1;
+}
+
+/**
+ * 変更がテーブルの開始行より前だけに収まっているか (テーブルを移動させるだけか) を判定します。
+ */
+function isBeforeTable(change: LineChange, startLine: number): boolean {
+    const { start, end } = change.range;
+    if (end.line < startLine) return true;
+    if (end.line > startLine || end.character > 0) return false;
+    // The change ends at the very beginning of the header line:
+    // it only moves the table if it does not join text onto the header
+    return change.text.endsWith('\n') || (change.text === '' && start.character === 0);
+}
+
+/**
+ * ドキュメントの編集に追従して、テーブルの現在位置を追跡します。
+ *
+ * 変更イベントの行数の増減からテーブルの位置をずらし、ずらした位置で
+ * テーブルを再検出します。テーブルが削除されるなどして見つからなくなった場合は
+ * 見失った状態 (current が null) になり、以降は追跡しません。
+ */
+export class TableTracker {
+    private location: TableLocation | null;
+
+    constructor(location: TableLocation) {
+        this.location = location;
+    }
+
+    /**
+     * 現在のテーブルの位置。見失った場合はnull。
+     */
+    get current(): TableLocation | null {
+        return this.location;
+    }
+
+    /**
+     * ドキュメントの変更を反映してテーブルの位置を更新します。
+     * @param documentText 変更後のドキュメント全体のテキスト
+     * @param changes 変更内容 (変更前のドキュメント上の位置)
+     * @returns 更新後のテーブルの位置、見失った場合はnull
+     */
+    update(documentText: string, changes: readonly LineChange[]): TableLocation | null {
+        if (!this.location) return null;
+
+        let { startLine, endLine } = this.location.range;
+
+        // Apply from the bottom up so that positions of the remaining changes stay valid
+        const sorted = [...changes].sort((a, b) =>
+            b.range.start.line - a.range.start.line || b.range.start.character - a.range.start.character);
+
+        for (const change of sorted) {
+            const delta = countLineBreaks(change.text) - (change.range.end.line - change.range.start.line);
+            if (change.range.start.line > endLine) {
+                continue;
+            }
+            if (isBeforeTable(change, startLine)) {
+                startLine += delta;
+                endLine += delta;
+            } else {
+                // The change touches the table itself
+                startLine = Math.min(startLine, change.range.start.line);
+                endLine = Math.max(startLine, endLine + delta);
+            }
+        }
+
+        // Re-detect the table around the shifted range, the detection decides the exact bounds
+        const candidates = findTables(documentText).filter(t =>
+            t.range.startLine <= endLine && startLine <= t.range.endLine);
+        this.location = candidates.find(t => t.range.startLine <= startLine && startLine <= t.range.endLine)
+            || candidates[0]
+            || null;
+
+        return this.location;
+    }
+}
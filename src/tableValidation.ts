@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { findTables, parseMarkdownTable, getCellRanges } from './markdownParser';
+import { findInvalidCells, describeColumnDefinition, InvalidCell } from './tableMetadata';
+
+/**
+ * 列の種類に合っていないセルの一覧の項目
+ */
+interface InvalidCellItem extends vscode.QuickPickItem {
+    /** セルのある行 (ドキュメントの行番号) */
+    line: number;
+    /** 引用やインデントの接頭辞の長さ */
+    offset: number;
+    cell: InvalidCell;
+}
+
+/**
+ * ドキュメント内のテーブルから、列の種類に合っていないセルを探します。
+ * 列の種類はテーブル直前のメタデータのコメントで指定します。
+ */
+function collectInvalidCells(document: vscode.TextDocument): InvalidCellItem[] {
+    const items: InvalidCellItem[] = [];
+    for (const location of findTables(document.getText())) {
+        const columns = location.metadata?.columns;
+        if (!columns) continue;
+        const table = parseMarkdownTable(location.content);
+        for (const cell of findInvalidCells(table.data, columns)) {
+            // データ行は区切り行の分だけ下にあります
+            const line = location.range.startLine + cell.row + 1;
+            const header = table.data[0][cell.col] || `Column ${cell.col + 1}`;
+            items.push({
+                label: cell.value,
+                description: `${header} · ${line + 1}行目`,
+                detail: describeColumnDefinition(cell.definition),
+                line,
+                offset: location.prefix.length,
+                cell
+            });
+        }
+    }
+    return items;
+}
+
+/**
+ * 選択したセルの内容をテキストエディタで選択します。
+ */
+function revealCell(editor: vscode.TextEditor, item: InvalidCellItem) {
+    const text = editor.document.lineAt(item.line).text.slice(item.offset);
+    const range = getCellRanges(text)[item.cell.col];
+    if (!range) return;
+    editor.selection = new vscode.Selection(item.line, item.offset + range.start, item.line, item.offset + range.end);
+    editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+/**
+ * 列の種類に合っていないセルを一覧表示するコマンドを登録します。
+ */
+export function registerTableValidation(context: vscode.ExtensionContext) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('markdownTableEditor.listInvalidCells', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                return;
+            }
+            const items = collectInvalidCells(editor.document);
+            if (items.length === 0) {
+                vscode.window.showInformationMessage('No invalid cells found.');
+                return;
+            }
+            const picked = await vscode.window.showQuickPick(items, {
+                placeHolder: `列の種類に合っていないセル (${items.length}件)`,
+                matchOnDescription: true,
+                matchOnDetail: true
+            });
+            if (picked) {
+                revealCell(editor, picked);
+            }
+        })
+    );
+}
@@ -0,0 +1,77 @@
+import { parseDelimitedDocument, serializeDelimitedDocument, detectLineEnding, toGridRows, toGridCell, fromGridCell } from './delimitedDocument';
+import * as assert from 'assert';
+
+console.log('Running Delimited Document Tests...');
+
+// Unchanged files are written back byte for byte
+const samples: [string, string][] = [
+    ['name,note\r\n"Smith, J","said ""hi"""\r\nLee,\r\n', ','],
+    ['\uFEFF"a";"b"\n"1";"2"', ';'],
+    ['a\tb\n1\t"multi\nline"\n\n3\t4\n', '\t'],
+    ['a,b\rx,y\r', ','],
+    ['', ',']
+];
+for (const [text, delimiter] of samples) {
+    const document = parseDelimitedDocument(text, delimiter);
+    assert.strictEqual(serializeDelimitedDocument(toGridRows(document), document), text, JSON.stringify(text));
+}
+
+// Format detection
+const crlf = parseDelimitedDocument(samples[0][0]);
+assert.deepStrictEqual(crlf.records.map(r => r.fields), [['name', 'note'], ['Smith, J', 'said "hi"'], ['Lee', '']]);
+assert.deepStrictEqual(crlf.records[1].quoted, [true, true]);
+assert.deepStrictEqual(crlf.format, { delimiter: ',', lineEnding: '\r\n', trailingLineEnding: true, bom: false, quoteAll: false });
+const quotedAll = parseDelimitedDocument(samples[1][0], ';');
+assert.ok(quotedAll.format.bom && quotedAll.format.quoteAll && !quotedAll.format.trailingLineEnding);
+assert.strictEqual(detectLineEnding('"a\r\nb"\nc'), '\n', 'Line breaks inside quotes are ignored');
+assert.strictEqual(detectLineEnding('single line'), '\r\n');
+
+// Edited records keep the quoting of each field, untouched records keep their text
+const rows = toGridRows(crlf);
+rows[1] = ['Smith, J', 'changed'];
+rows[2] = ['Lee', 'x'];
+rows.push(['New', 'a "quote"']);
+assert.strictEqual(
+    serializeDelimitedDocument(rows, crlf),
+    'name,note\r\n"Smith, J","changed"\r\nLee,x\r\nNew,"a ""quote"""\r\n'
+);
+
+// New fields follow the quote-all style, embedded newlines use the file's line ending
+const edited = toGridRows(quotedAll);
+edited.push(['3', 'two\nlines']);
+assert.strictEqual(serializeDelimitedDocument(edited, quotedAll), '\uFEFF"a";"b"\n"1";"2"\n"3";"two\nlines"');
+
+// Short rows are padded for the grid, the padding is not written back
+const ragged = parseDelimitedDocument('a,b,c\n1\n');
+assert.deepStrictEqual(toGridRows(ragged), [['a', 'b', 'c'], ['1', '', '']]);
+assert.strictEqual(serializeDelimitedDocument([['a', 'b', 'c'], ['2', '', '']], ragged), 'a,b,c\n2\n');
+
+// Inserted and deleted rows do not shift the original text of the following records
+const quotedRows = parseDelimitedDocument('h1,h2\r\na,b\r\n"c",d\r\n"e, f",g\r\n');
+const withoutRow = toGridRows(quotedRows).filter((_, index) => index !== 1);
+assert.strictEqual(serializeDelimitedDocument(withoutRow, quotedRows), 'h1,h2\r\n"c",d\r\n"e, f",g\r\n', 'Deleting a row keeps the quoting of later rows');
+const withRow = toGridRows(quotedRows);
+withRow.splice(2, 0, ['new', 'row']);
+assert.strictEqual(serializeDelimitedDocument(withRow, quotedRows), 'h1,h2\r\na,b\r\nnew,row\r\n"c",d\r\n"e, f",g\r\n', 'Inserting a row keeps the quoting of later rows');
+const moved = toGridRows(quotedRows);
+moved.splice(1, 1);
+moved.push(['a', 'b'], ['x', 'y']);
+assert.strictEqual(serializeDelimitedDocument(moved, quotedRows), 'h1,h2\r\n"c",d\r\n"e, f",g\r\na,b\r\nx,y\r\n', 'Rows are matched to records by content');
+
+// Grid cells show line breaks as <br>, fields that already contain <br> survive the round trip
+assert.strictEqual(toGridCell('two\r\nlines'), 'two<br>lines');
+assert.strictEqual(fromGridCell('two<br>lines<BR/>three'), 'two\nlines\nthree');
+for (const field of ['x<br>y', 'x<BR />y', 'x&lt;br>y', 'x&amp;lt;br/>y', 'a\nb<br>c', 'AT&T <b>bold</b> &lt;p>']) {
+    assert.strictEqual(fromGridCell(toGridCell(field)), field.replace(/\r\n|\r/g, '\n'), JSON.stringify(field));
+}
+assert.strictEqual(toGridCell('x<br>y'), 'x&lt;br>y', 'Literal <br> is not shown as a line break');
+const html = parseDelimitedDocument('name,html\r\na,x<br>y\r\nb,z\r\n');
+const htmlCells = toGridRows(html).map(row => row.map(toGridCell));
+htmlCells[2][1] = 'changed';
+assert.strictEqual(
+    serializeDelimitedDocument(htmlCells.map(row => row.map(fromGridCell)), html),
+    'name,html\r\na,x<br>y\r\nb,changed\r\n',
+    'Editing another row keeps fields that contain <br>'
+);
+
+console.log('All Delimited Document Tests Passed!');
@@ -0,0 +1,47 @@
+import { getDisplayWidth, splitGraphemes } from './displayWidth';
+import { generateMarkdownTable, formatTables } from './markdownParser';
+import * as assert from 'assert';
+
+console.log('Running Display Width Tests...');
+
+// East Asian Width
+assert.strictEqual(getDisplayWidth('abc'), 3);
+assert.strictEqual(getDisplayWidth('日本語'), 6);
+assert.strictEqual(getDisplayWidth('ｱｲｳ'), 3, 'Halfwidth katakana is narrow');
+assert.strictEqual(getDisplayWidth('ＡＢ'), 4, 'Fullwidth forms are wide');
+assert.strictEqual(getDisplayWidth('한국'), 4);
+
+// Ambiguous characters depend on the setting
+assert.strictEqual(getDisplayWidth('①αΩ'), 3);
+assert.strictEqual(getDisplayWidth('①αΩ', 2), 6);
+
+// Grapheme clusters
+assert.strictEqual(getDisplayWidth('é'), 1, 'Combining accent has no width');
+assert.strictEqual(getDisplayWidth('が'), 2, 'Precomposed kana');
+assert.strictEqual(getDisplayWidth('か\u3099'), 2, 'Kana with combining voiced mark');
+assert.strictEqual(getDisplayWidth('😀'), 2);
+assert.strictEqual(getDisplayWidth('👍🏽'), 2, 'Emoji with skin tone modifier');
+assert.strictEqual(getDisplayWidth('👨\u200D👩\u200D👧'), 2, 'ZWJ sequence');
+assert.strictEqual(getDisplayWidth('🇯🇵🇺🇸'), 4, 'Flags are pairs of regional indicators');
+assert.strictEqual(getDisplayWidth('❤\uFE0F'), 2, 'Emoji presentation selector');
+assert.deepStrictEqual(splitGraphemes('a👨\u200D👩\u200D👧b'), ['a', '👨\u200D👩\u200D👧', 'b']);
+
+// Generated tables line up in a monospace editor
+const generated = generateMarkdownTable({ data: [['名前', 'Name'], ['山田太郎', 'Taro 😀']], alignments: ['none', 'right'] });
+assert.strictEqual(generated, [
+    '| 名前     |    Name |',
+    '| -------- | ------: |',
+    '| 山田太郎 | Taro 😀 |',
+    ''
+].join('\n'));
+const lines = generated.trim().split('\n');
+assert.ok(lines.every(line => getDisplayWidth(line) === getDisplayWidth(lines[0])), 'All rows have the same display width');
+
+// The ambiguous width setting is applied when formatting
+const ambiguousDoc = '| α   | b   |\n| --- | --- |\n| ①   | c   |';
+assert.deepStrictEqual(formatTables(ambiguousDoc), [], 'Already aligned with narrow ambiguous characters');
+assert.deepStrictEqual(formatTables(ambiguousDoc, undefined, undefined, { ambiguousWidth: 2 }).map(e => e.text), [
+    '| α  | b   |\n| --- | --- |\n| ①  | c   |'
+]);
+
+console.log('All display width tests passed!');
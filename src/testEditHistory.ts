@@ -0,0 +1,83 @@
+import { EditHistory, TableSnapshot } from './webview/history';
+import * as assert from 'assert';
+
+console.log('Running Edit History Tests...');
+
+/**
+ * 1つのセルだけのテーブルの状態を返します。
+ */
+const snapshot = (value: string): TableSnapshot => ({ data: [['h'], [value]], alignments: ['none'], metadata: {} });
+
+// Recording, undo and redo
+const history = new EditHistory();
+assert.strictEqual(history.canUndo, false);
+assert.strictEqual(history.canRedo, false);
+assert.strictEqual(history.undo(), undefined, 'Nothing to undo');
+assert.strictEqual(history.redo(), undefined, 'Nothing to redo');
+
+history.record('行の追加', snapshot('a'), snapshot('b'));
+history.record('行の削除', snapshot('b'), snapshot('c'));
+assert.strictEqual(history.canUndo, true);
+
+const undone = history.undo();
+assert.strictEqual(undone?.label, '行の削除');
+assert.deepStrictEqual(undone?.before, snapshot('b'), 'Undo returns the state to go back to');
+assert.strictEqual(history.canRedo, true);
+
+const redone = history.redo();
+assert.strictEqual(redone, undone, 'Redo returns the entry that was undone');
+assert.deepStrictEqual(redone?.after, snapshot('c'));
+assert.strictEqual(history.canRedo, false);
+
+history.undo();
+history.record('セルの編集', snapshot('b'), snapshot('d'));
+assert.strictEqual(history.canRedo, false, 'A new operation discards the redo history');
+assert.strictEqual(history.undo()?.label, 'セルの編集');
+assert.strictEqual(history.undo()?.label, '行の追加');
+assert.strictEqual(history.canUndo, false);
+
+// Consecutive operations with the same key are merged until the history is sealed
+const typing = new EditHistory();
+const first = typing.record('セルの編集', snapshot(''), snapshot('a'), 'cell-1-0');
+const merged = typing.record('セルの編集', snapshot('a'), snapshot('ab'), 'cell-1-0');
+assert.strictEqual(merged, first, 'Typing into the same cell is one operation');
+assert.deepStrictEqual(merged.before, snapshot(''), 'The merged entry keeps the first state');
+assert.deepStrictEqual(merged.after, snapshot('ab'), 'The merged entry takes the latest state');
+
+const otherCell = typing.record('セルの編集', snapshot('ab'), snapshot('abc'), 'cell-1-1');
+assert.notStrictEqual(otherCell, first, 'Another cell starts a new operation');
+
+typing.seal();
+const afterSeal = typing.record('セルの編集', snapshot('abc'), snapshot('abcd'), 'cell-1-1');
+assert.notStrictEqual(afterSeal, otherCell, 'Sealing (e.g. moving the focus) starts a new operation');
+
+typing.record('行の追加', snapshot('abcd'), snapshot('x'));
+const afterUnkeyed = typing.record('セルの編集', snapshot('x'), snapshot('xy'), 'cell-1-1');
+assert.notStrictEqual(afterUnkeyed, afterSeal, 'An operation without a key is never merged into');
+
+typing.undo();
+typing.redo();
+const afterRedo = typing.record('セルの編集', snapshot('xy'), snapshot('xyz'), 'cell-1-1');
+assert.notStrictEqual(afterRedo, afterUnkeyed, 'Undo and redo seal the history');
+
+// Only the latest operations are kept
+const long = new EditHistory();
+for (let i = 0; i < 205; i++) {
+    long.record(`操作${i}`, snapshot(String(i)), snapshot(String(i + 1)));
+}
+let count = 0;
+let oldest;
+for (let entry = long.undo(); entry; entry = long.undo()) {
+    oldest = entry;
+    count++;
+}
+assert.strictEqual(count, 200, 'The history is limited to 200 operations');
+assert.strictEqual(oldest?.label, '操作5', 'The oldest operations are discarded first');
+
+// Clearing
+long.redo();
+long.clear();
+assert.strictEqual(long.canUndo, false);
+assert.strictEqual(long.canRedo, false);
+
+console.log('All edit history tests passed!');
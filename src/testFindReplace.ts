@@ -0,0 +1,42 @@
+import { findMatches, replaceInCell, replaceAll, createSearchPattern, FindOptions } from './webview/findReplace';
+import * as assert from 'assert';
+
+console.log('Running Find and Replace Tests...');
+
+const data = [
+    ['Name', 'Status'],
+    ['apple', 'Done'],
+    ['Pineapple', 'done later'],
+    ['cherry', 'TODO']
+];
+const options = (query: string, overrides: Partial<FindOptions> = {}): FindOptions => ({
+    query, caseSensitive: false, wholeCell: false, regex: false, column: null, ...overrides
+});
+
+// Matching options
+assert.deepStrictEqual(findMatches(data, options('apple')), [{ row: 1, col: 0 }, { row: 2, col: 0 }]);
+assert.deepStrictEqual(findMatches(data, options('done', { caseSensitive: true })), [{ row: 2, col: 1 }]);
+assert.deepStrictEqual(findMatches(data, options('done', { wholeCell: true })), [{ row: 1, col: 1 }]);
+assert.deepStrictEqual(findMatches(data, options('^(apple|cherry)$', { regex: true })), [{ row: 1, col: 0 }, { row: 3, col: 0 }]);
+assert.deepStrictEqual(findMatches(data, options('a', { column: 1 })), [{ row: 0, col: 1 }, { row: 2, col: 1 }], 'Search can be limited to one column');
+assert.deepStrictEqual(findMatches(data, options('e', { column: 0 }), row => row !== 2), [{ row: 0, col: 0 }, { row: 1, col: 0 }, { row: 3, col: 0 }], 'Hidden rows are skipped');
+assert.deepStrictEqual(findMatches(data, options('')), []);
+assert.deepStrictEqual(findMatches(data, options('a.b')), [], 'Special characters are literal without the regex option');
+assert.throws(() => createSearchPattern(options('(', { regex: true })), SyntaxError);
+
+// Replacing
+assert.strictEqual(replaceInCell('a-a-A', options('a'), 'b'), 'b-b-b', 'Every occurrence in the cell is replaced');
+assert.strictEqual(replaceInCell('cost', options('cost'), '$1 off'), '$1 off', 'Replacement is literal without the regex option');
+assert.strictEqual(replaceInCell('2024-01-31', options('(\\d+)-(\\d+)-(\\d+)', { regex: true }), '$3/$2/$1'), '31/01/2024');
+
+const replaced = replaceAll(data, options('done', { wholeCell: true }), 'Finished');
+assert.strictEqual(replaced.count, 1);
+assert.strictEqual(replaced.data[1][1], 'Finished');
+assert.strictEqual(data[1][1], 'Done', 'The original data is not modified');
+assert.strictEqual(replaceAll(data, options('zzz'), 'x').data, data, 'No copy is made without matches');
+const partlyReplaced = replaceAll(data, options('e', { column: 0 }), 'E', () => true, row => row !== 1);
+assert.strictEqual(partlyReplaced.count, 3, 'Cells that cannot be replaced are not counted');
+assert.strictEqual(partlyReplaced.data[1][0], data[1][0], 'Cells that cannot be replaced are kept');
+assert.strictEqual(replaceAll(data, options('apple'), 'x', () => true, () => false).data, data, 'No copy is made when no cell can be replaced');
+
+console.log('All find and replace tests passed!');
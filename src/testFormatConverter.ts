@@ -0,0 +1,41 @@
+import { parseDelimited, toDelimited, detectDelimiter, delimitedToTable, tableToDelimited, tableToJson, tableToHtml } from './formatConverter';
+import { MarkdownTable } from './markdownParser';
+import * as assert from 'assert';
+
+console.log('Running Format Converter Tests...');
+
+// RFC 4180: quoted fields may contain delimiters, quotes and line breaks
+assert.deepStrictEqual(parseDelimited('a,b\r\n"c,d","e ""q""\r\nf"\r\n'), [['a', 'b'], ['c,d', 'e "q"\r\nf']]);
+assert.deepStrictEqual(parseDelimited('a,,b\n,'), [['a', '', 'b'], ['', '']]);
+assert.deepStrictEqual(parseDelimited('\uFEFFx\ty', '\t'), [['x', 'y']], 'BOM is ignored');
+assert.strictEqual(toDelimited([['a', 'b,c'], ['d"e', 'f\ng']]), 'a,"b,c"\r\n"d""e","f\ng"');
+assert.strictEqual(toDelimited([['a', 'b,c']], { delimiter: '\t', lineEnding: '\n' }), 'a\tb,c');
+const tricky = [['x', 'y, "z"'], ['multi\r\nline', '']];
+assert.deepStrictEqual(parseDelimited(toDelimited(tricky)), tricky, 'Quoting round trip');
+
+// Delimiter detection ignores delimiters inside quotes
+assert.strictEqual(detectDelimiter('a\tb\n1\t2'), '\t');
+assert.strictEqual(detectDelimiter('"a\tb",c\n1,2'), ',');
+assert.strictEqual(detectDelimiter('a;b;c'), ';');
+
+// Line breaks inside cells become <br> in Markdown and back
+const table = delimitedToTable('Name,Note\r\nA,"line1\nline2"\r\nB');
+assert.deepStrictEqual(table.data, [['Name', 'Note'], ['A', 'line1<br>line2'], ['B', '']]);
+assert.strictEqual(tableToDelimited(table), 'Name,Note\r\nA,"line1\nline2"\r\nB,');
+assert.strictEqual(delimitedToTable('A\n"x\ny"', ',', '<br />').data[1][0], 'x<br />y', 'The line break tag is configurable');
+assert.strictEqual(delimitedToTable('h\n' + '1\n'.repeat(200000)).data.length, 200001, 'Large inputs do not overflow the call stack');
+assert.strictEqual(tableToDelimited({ data: [['x<br />y<BR/>z']], alignments: ['none'] }), '"x\ny\nz"', 'All line break forms are recognized');
+
+// JSON: array of objects keyed by header, empty and duplicate headers get unique keys
+const sample: MarkdownTable = {
+    data: [['Name', 'Name', '', 'Qty'], ['A', 'x<br>y', 'z', '1']],
+    alignments: ['none', 'none', 'none', 'right']
+};
+assert.deepStrictEqual(JSON.parse(tableToJson(sample)), [{ Name: 'A', Name_2: 'x\ny', column3: 'z', Qty: '1' }]);
+
+// HTML escapes content, keeps <br> and alignment
+const html = tableToHtml({ data: [['a<b', 'Qty'], ['x<br>y', '5']], alignments: ['none', 'right'] });
+assert.ok(html.includes('<th>a&lt;b</th><th style="text-align: right">Qty</th>'));
+assert.ok(html.includes('<td>x<br>y</td><td style="text-align: right">5</td>'));
+
+console.log('All format converter tests passed!');
@@ -0,0 +1,104 @@
+import { parseMarkdownTable, generateMarkdownTable, splitTableRow, getCellRanges, findTables } from './markdownParser';
+import * as assert from 'assert';
+
+/**
+ * GFM仕様 (https://github.github.com/gfm/#tables-extension-) のテーブル例に基づく適合テスト
+ */
+console.log('Running GFM Table Conformance Tests...');
+
+// Example 198: basic table
+let table = parseMarkdownTable(`
+| foo | bar |
+| --- | --- |
+| baz | bim |
+`);
+assert.deepStrictEqual(table.data, [['foo', 'bar'], ['baz', 'bim']]);
+assert.deepStrictEqual(table.alignments, ['none', 'none']);
+
+// Example 199: alignment, cells need not be aligned and outer pipes are optional
+table = parseMarkdownTable(`
+| abc | defghi |
+:-: | -----------:
+bar | baz
+`);
+assert.deepStrictEqual(table.data, [['abc', 'defghi'], ['bar', 'baz']]);
+assert.deepStrictEqual(table.alignments, ['center', 'right']);
+
+// Example 200: escaped pipes, also inside other inline spans
+table = parseMarkdownTable(`
+| f\\|oo  |
+| ------ |
+| b \`\\|\` az |
+| b **\\|** im |
+`);
+assert.deepStrictEqual(table.data, [['f|oo'], ['b `|` az'], ['b **|** im']]);
+
+// Example 201: the table is broken by the beginning of another block (blockquote)
+let tables = findTables('| abc | def |\n| --- | --- |\n| bar | baz |\n> bar');
+assert.deepStrictEqual(tables.map(t => t.range), [{ startLine: 0, endLine: 2 }]);
+
+// Example 202: ... or by the first empty line
+tables = findTables('| abc | def |\n| --- | --- |\n| bar | baz |\nbar\n\nbar');
+assert.deepStrictEqual(tables.map(t => t.range), [{ startLine: 0, endLine: 3 }]);
+
+// Example 203: the header row must match the delimiter row in the number of cells
+tables = findTables('| abc | def |\n| --- |\n| bar |');
+assert.deepStrictEqual(tables, []);
+
+// Example 202: a row without pipes still belongs to the table
+table = parseMarkdownTable(`
+| abc | def |
+| --- | --- |
+| bar | baz |
+bar
+`);
+assert.deepStrictEqual(table.data, [['abc', 'def'], ['bar', 'baz'], ['bar', '']]);
+
+// Example 204: short rows are filled with empty cells
+table = parseMarkdownTable(`
+| abc | def |
+| --- | --- |
+| bar |
+`);
+assert.deepStrictEqual(table.data, [['abc', 'def'], ['bar', '']]);
+
+// Example 205: header and delimiter only
+table = parseMarkdownTable(`
+| abc | def |
+| --- | --- |
+`);
+assert.deepStrictEqual(table.data, [['abc', 'def']]);
+
+// Row tokenizer
+assert.deepStrictEqual(splitTableRow('| a | b |'), ['a', 'b']);
+assert.deepStrictEqual(splitTableRow('a | b'), ['a', 'b']);
+assert.deepStrictEqual(splitTableRow('|a||'), ['a', '']);
+assert.deepStrictEqual(splitTableRow('| `a | b` | c |'), ['`a | b`', 'c'], 'Code spans are not split');
+assert.deepStrictEqual(splitTableRow('| ``a ` | b`` | c |'), ['``a ` | b``', 'c'], 'Code spans use matching backtick runs');
+assert.deepStrictEqual(splitTableRow('| `a | b |'), ['`a', 'b'], 'Unclosed backticks are literal');
+assert.deepStrictEqual(splitTableRow('| \\`a | b` |'), ['\\`a', 'b`'], 'Escaped backticks do not open code spans');
+assert.deepStrictEqual(splitTableRow('| <span title="x|y">s</span> | c |'), ['<span title="x|y">s</span>', 'c'], 'HTML attributes are not split');
+assert.deepStrictEqual(splitTableRow('| a < b | c > d |'), ['a < b', 'c > d'], 'Comparison operators are not HTML');
+assert.deepStrictEqual(splitTableRow('| \\* | \\\\| x |'), ['\\*', '\\\\', 'x'], 'Other escapes are kept, escaped backslash does not escape the pipe');
+
+// Cell positions (used to move the cursor between cells in the text editor)
+const ranges = getCellRanges('| ab  | `x|y` |     |');
+assert.deepStrictEqual(ranges.map(r => [r.start, r.end]), [[2, 4], [8, 13], [16, 16]]);
+assert.deepStrictEqual(ranges.map(r => [r.outerStart, r.outerEnd]), [[1, 6], [7, 14], [15, 20]]);
+assert.deepStrictEqual(getCellRanges('  a | b').map(r => [r.start, r.end]), [[2, 3], [6, 7]], 'Leading pipe and indentation are optional');
+
+// Pipes typed into a cell are escaped on output and survive a round trip
+const sourceData = [['expr', 'note'], ['a | b', '`x | y`']];
+const generated = generateMarkdownTable({ data: sourceData, alignments: ['none', 'none'] });
+assert.ok(generated.includes('a \\| b'), 'Pipe should be escaped');
+assert.ok(generated.includes('`x \\| y`'), 'Pipe inside code span should be escaped');
+assert.deepStrictEqual(parseMarkdownTable(generated).data, sourceData);
+
+// Pipes inside HTML attributes are escaped once and do not gain a backslash on every save
+const htmlData = [['html'], ['<span title="x|y">s</span>']];
+const htmlGenerated = generateMarkdownTable({ data: htmlData, alignments: ['none'] });
+assert.ok(htmlGenerated.includes('<span title="x\\|y">'), 'Pipe inside an HTML attribute should be escaped');
+assert.deepStrictEqual(parseMarkdownTable(htmlGenerated).data, htmlData);
+assert.strictEqual(generateMarkdownTable(parseMarkdownTable(htmlGenerated)), htmlGenerated, 'Round trip should be stable');
+
+console.log('All GFM conformance tests passed!');
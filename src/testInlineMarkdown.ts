@@ -0,0 +1,48 @@
+import { parseInlineMarkdown, hasInlineMarkup, toggleInlineFormat, insertInlineLink } from './webview/inlineMarkdown';
+import * as assert from 'assert';
+
+console.log('Running Inline Markdown Tests...');
+
+// Emphasis, code, links and line breaks
+assert.deepStrictEqual(parseInlineMarkdown('a **b** *c* ~~d~~'), [
+    { type: 'text', text: 'a ' },
+    { type: 'strong', children: [{ type: 'text', text: 'b' }] },
+    { type: 'text', text: ' ' },
+    { type: 'em', children: [{ type: 'text', text: 'c' }] },
+    { type: 'text', text: ' ' },
+    { type: 'del', children: [{ type: 'text', text: 'd' }] }
+]);
+assert.deepStrictEqual(parseInlineMarkdown('`a *b*` x'), [{ type: 'code', text: 'a *b*' }, { type: 'text', text: ' x' }], 'No emphasis inside code');
+assert.deepStrictEqual(parseInlineMarkdown('`` a`b ``'), [{ type: 'code', text: 'a`b' }]);
+assert.deepStrictEqual(parseInlineMarkdown('[**Docs**](https://example.com/a_(b))'), [
+    { type: 'link', href: 'https://example.com/a_(b)', children: [{ type: 'strong', children: [{ type: 'text', text: 'Docs' }] }] }
+]);
+assert.deepStrictEqual(parseInlineMarkdown('[a](<b c> "title")'), [{ type: 'link', href: 'b c', children: [{ type: 'text', text: 'a' }] }]);
+assert.deepStrictEqual(parseInlineMarkdown('1<br>2<BR />3'), [
+    { type: 'text', text: '1' }, { type: 'break' }, { type: 'text', text: '2' }, { type: 'break' }, { type: 'text', text: '3' }
+]);
+assert.deepStrictEqual(parseInlineMarkdown('**a `**` b**'), [
+    { type: 'strong', children: [{ type: 'text', text: 'a ' }, { type: 'code', text: '**' }, { type: 'text', text: ' b' }] }
+], 'Code spans are skipped while looking for the closing delimiter');
+
+// Things that are not markup
+assert.deepStrictEqual(parseInlineMarkdown('snake_case_name'), [{ type: 'text', text: 'snake_case_name' }]);
+assert.deepStrictEqual(parseInlineMarkdown('2 * 3 * 4'), [{ type: 'text', text: '2 * 3 * 4' }]);
+assert.deepStrictEqual(parseInlineMarkdown('\\*x\\*'), [{ type: 'text', text: '*x*' }]);
+assert.deepStrictEqual(parseInlineMarkdown('<b>x</b> [a]'), [{ type: 'text', text: '<b>x</b> [a]' }], 'Other HTML is shown as text');
+assert.strictEqual(hasInlineMarkup('plain text'), false);
+assert.strictEqual(hasInlineMarkup(''), false);
+assert.strictEqual(hasInlineMarkup('a **b**'), true);
+assert.strictEqual(hasInlineMarkup('a\\|b'), true, 'Escapes are rendered without the backslash');
+
+// Wrapping the selection
+assert.deepStrictEqual(toggleInlineFormat('a bc d', 2, 4, 'bold'), { value: 'a **bc** d', start: 4, end: 6 });
+assert.deepStrictEqual(toggleInlineFormat('a **bc** d', 4, 6, 'bold'), { value: 'a bc d', start: 2, end: 4 }, 'Surrounding markers are removed');
+assert.deepStrictEqual(toggleInlineFormat('a **bc** d', 2, 8, 'bold'), { value: 'a bc d', start: 2, end: 4 }, 'Selected markers are removed');
+assert.deepStrictEqual(toggleInlineFormat('a **bc** d', 4, 6, 'italic'), { value: 'a ***bc*** d', start: 5, end: 7 }, 'Bold is not mistaken for italic');
+assert.deepStrictEqual(toggleInlineFormat('a *bc* d', 3, 5, 'italic'), { value: 'a bc d', start: 2, end: 4 });
+assert.deepStrictEqual(toggleInlineFormat('x', 1, 1, 'code'), { value: 'x``', start: 2, end: 2 });
+assert.deepStrictEqual(insertInlineLink('see docs', 4, 8), { value: 'see [docs](https://)', start: 11, end: 19 });
+assert.deepStrictEqual(insertInlineLink('', 0, 0), { value: '[リンク](https://)', start: 1, end: 4 });
+
+console.log('All inline markdown tests passed!');
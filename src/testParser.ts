@@ -1,4 +1,4 @@
-import { parseMarkdownTable, generateMarkdownTable, findTableAtPosition } from './markdownParser';
+import { parseMarkdownTable, generateMarkdownTable, findTableAtPosition, findTables, findTableByHeader, applyLinePrefix, formatTables, scanTables, findMalformedTables } from './markdownParser';
 import * as assert from 'assert';
 
 console.log('Running Parser Tests...');
@@ -11,8 +11,9 @@ const simpleTable = `
 `;
 const parsed = parseMarkdownTable(simpleTable);
 console.log('Parsed:', JSON.stringify(parsed));
-assert.strictEqual(parsed.length, 2, 'Should have 2 rows (header + 1 data row)');
-assert.strictEqual(parsed[0][0], 'Header 1');
+assert.strictEqual(parsed.data.length, 2, 'Should have 2 rows (header + 1 data row)');
+assert.strictEqual(parsed.data[0][0], 'Header 1');
+assert.deepStrictEqual(parsed.alignments, ['none', 'none']);
 
 // Test 2: Generate table
 const generated = generateMarkdownTable(parsed);
@@ -23,6 +24,49 @@ if (!generated.includes('Header 1')) {
     process.exit(1);
 }
 
+// Test 2b: Alignment round trip
+const alignedTable = `
+| Name | Qty | Status |
+|:---|---:|:---:|
+| Apple | 5 | ok |
+`;
+const aligned = parseMarkdownTable(alignedTable);
+assert.deepStrictEqual(aligned.alignments, ['left', 'right', 'center']);
+const alignedGenerated = generateMarkdownTable(aligned);
+console.log('Generated (aligned):', JSON.stringify(alignedGenerated));
+assert.strictEqual(alignedGenerated, [
+    '| Name  | Qty | Status |',
+    '| :---- | --: | :----: |',
+    '| Apple |   5 |   ok   |',
+    ''
+].join('\n'));
+assert.deepStrictEqual(parseMarkdownTable(alignedGenerated), aligned, 'Alignment should survive a round trip');
+
+// Output style options
+const compact = generateMarkdownTable(aligned, { style: 'compact' });
+assert.strictEqual(compact, [
+    '| Name | Qty | Status |',
+    '| :-- | --: | :-: |',
+    '| Apple | 5 | ok |',
+    ''
+].join('\n'));
+assert.deepStrictEqual(parseMarkdownTable(compact), aligned, 'Compact output should survive a round trip');
+const withoutPipes = generateMarkdownTable(aligned, { outerPipes: false });
+assert.strictEqual(withoutPipes.split('\n')[0], 'Name  | Qty | Status');
+assert.deepStrictEqual(parseMarkdownTable(withoutPipes), aligned, 'Output without outer pipes should survive a round trip');
+assert.strictEqual(withoutPipes, [
+    'Name  | Qty | Status',
+    ':---- | --: | :----:',
+    'Apple |   5 |   ok',
+    ''
+].join('\n'), 'The last cell is not padded without outer pipes');
+assert.strictEqual(generateMarkdownTable(parseMarkdownTable(withoutPipes), { outerPipes: false }), withoutPipes, 'Output without outer pipes should be stable');
+assert.deepStrictEqual(formatTables(`Text\n\n${withoutPipes}`, 0, Number.MAX_SAFE_INTEGER, { outerPipes: false }), [], 'A formatted table without outer pipes needs no edit');
+assert.ok(generateMarkdownTable({ data: [['A', 'B'], ['', 'x']], alignments: ['none', 'none'] }, { outerPipes: false }).startsWith('| '),
+    'Outer pipes are kept when a row starts with an empty cell');
+assert.ok(generateMarkdownTable({ data: [['A'], ['1']], alignments: ['none'] }, { outerPipes: false }).startsWith('| '),
+    'Outer pipes are kept for single-column tables');
+
 // Test 3: Find table
 const docText = `
 Some text
@@ -45,4 +89,149 @@ if (tableInfo) {
     assert.ok(tableInfo.content.includes('Header 1'), 'Content should match');
 }
 
+// Test 4: Table boundaries
+const boundaryDoc = [
+    '---',                      // 0 front matter
+    'title: | a | b |',         // 1
+    '---',                      // 2
+    'A paragraph | with pipe',  // 3
+    '',                         // 4
+    '| a | b |',                // 5
+    '|---|---|',                // 6
+    '| 1 | 2 |',                // 7
+    '',                         // 8
+    '```sh',                    // 9
+    'cat x | grep y',           // 10
+    '|---|---|',                // 11
+    '```',                      // 12
+    '<div>',                    // 13
+    '| h | i |',                // 14
+    '|---|---|',                // 15
+    '</div>',                   // 16
+    '',                         // 17
+    '| c | d |',                // 18
+    '|---|---|',                // 19
+    '| 3 | 4 |',                // 20
+    '| e | f |',                // 21
+    '|---|---|',                // 22
+    '| 5 | 6 |',                // 23
+].join('\n');
+const boundaryTables = findTables(boundaryDoc);
+console.log('Detected ranges:', JSON.stringify(boundaryTables.map(t => t.range)));
+assert.deepStrictEqual(boundaryTables.map(t => t.range), [
+    { startLine: 5, endLine: 7 },
+    { startLine: 18, endLine: 20 },
+    { startLine: 21, endLine: 23 }
+]);
+assert.strictEqual(findTableAtPosition(boundaryDoc, 3), null, 'Paragraph with a pipe is not a table');
+assert.strictEqual(findTableAtPosition(boundaryDoc, 10), null, 'Fenced code is not a table');
+assert.strictEqual(findTableAtPosition(boundaryDoc, 14), null, 'HTML block is not a table');
+
+// Test 5: Tables inside blockquotes and list items keep their prefix
+const quoteDoc = [
+    '> Quote',
+    '> | a | b |',
+    '> |---|---|',
+    '> | 1 | 2 |',
+    '- item',
+    '  | c | d |',
+    '  | - | - |',
+    '  | 3 | 4 |',
+].join('\n');
+const quoted = findTableAtPosition(quoteDoc, 2);
+assert.ok(quoted);
+assert.deepStrictEqual(quoted!.range, { startLine: 1, endLine: 3 });
+assert.strictEqual(quoted!.prefix, '> ');
+assert.deepStrictEqual(parseMarkdownTable(quoted!.content).data, [['a', 'b'], ['1', '2']]);
+assert.strictEqual(
+    applyLinePrefix(generateMarkdownTable(parseMarkdownTable(quoted!.content)).trim(), quoted!.prefix),
+    '> | a   | b   |\n> | --- | --- |\n> | 1   | 2   |'
+);
+const listed = findTableAtPosition(quoteDoc, 7);
+assert.ok(listed);
+assert.deepStrictEqual(listed!.range, { startLine: 5, endLine: 7 });
+assert.strictEqual(listed!.prefix, '  ');
+
+// Tables indented 4+ spaces outside a list are indented code blocks
+const indentedDoc = [
+    'Text',
+    '',
+    '    | a | b |',
+    '    |---|---|',
+    '    | 1 | 2 |',
+    '',
+    '    | c | d |',
+    '    | 3 | 4 |',
+    '',
+    '1. item',
+    '',
+    '    | e | f |',
+    '    |---|---|',
+    '- item',
+    '',
+    '      | g | h |',
+    '      |---|---|',
+    '',
+    'Text',
+    '',
+    '\t| i | j |',
+    '\t|---|---|',
+].join('\n');
+assert.deepStrictEqual(findTables(indentedDoc).map(t => t.range.startLine), [11],
+    'Tables in list items are found, indented code blocks (also inside list items and after a tab) are skipped');
+assert.strictEqual(findTables(indentedDoc)[0].prefix, '    ');
+assert.deepStrictEqual(findMalformedTables(indentedDoc), [], 'Indented code blocks are not malformed tables');
+
+// Test 6: Format all tables, skipping the ones that are already formatted
+const formatDoc = [
+    '| a | bb |',
+    '|-|-:|',
+    '| ccc | 1 |',
+    '',
+    '| x   |',
+    '| --- |',
+    '',
+    '> | q |',
+    '> |---|',
+].join('\n');
+const formatEdits = formatTables(formatDoc);
+assert.deepStrictEqual(formatEdits, [
+    { range: { startLine: 0, endLine: 2 }, text: '| a   |  bb |\n| --- | --: |\n| ccc |   1 |' },
+    { range: { startLine: 7, endLine: 8 }, text: '> | q   |\n> | --- |' }
+]);
+assert.deepStrictEqual(formatTables(formatDoc, 5, 6), [], 'Only tables in the range are formatted');
+
+// Finding a table again by its header (restoring an editor after a reload)
+const restoreDoc = [
+    '| A | B |', '| - | - |', '| 1 | 2 |',
+    '',
+    '| X |', '| - |',
+    '',
+    '| A | B |', '| - | - |'
+].join('\n');
+assert.strictEqual(findTableByHeader(restoreDoc, ['A', 'B'], 8)!.range.startLine, 7, 'The nearest table with the same header is used');
+assert.strictEqual(findTableByHeader(restoreDoc, ['A', 'B'], 1)!.range.startLine, 0);
+assert.strictEqual(findTableByHeader(restoreDoc, ['Renamed'], 5)!.range.startLine, 4, 'Falls back to the table at the line');
+assert.strictEqual(findTableByHeader(restoreDoc, ['Renamed'], 3), null);
+
+// Scanning all tables with their size and nearest heading
+const scanDoc = [
+    '---', '# Front matter is not a heading', '---',
+    '| A | B |', '| - | - |', '| 1 | 2 |',
+    '',
+    '## Prices ##',
+    '```', '# Not a heading', '```',
+    '| X | Y | Z |', '| - | - | - |',
+    '',
+    'Setext heading', '==============',
+    '',
+    '> | Q |', '> | - |', '> | 1 |', '> | 2 |'
+].join('\n');
+const scanned = scanTables(scanDoc);
+assert.deepStrictEqual(scanned.map(t => [t.location.range.startLine, t.heading, t.header, t.rowCount, t.columnCount]), [
+    [3, null, ['A', 'B'], 1, 2],
+    [11, 'Prices', ['X', 'Y', 'Z'], 0, 3],
+    [17, 'Setext heading', ['Q'], 2, 1]
+]);
+
 console.log('All tests passed!');
@@ -0,0 +1,142 @@
+import { parseFormula, validateFormula, applyTableFormulas, summarizeValues, formatFormulaValue, restoreSummaryRowPosition, getSummaryRowKey } from './tableFormulas';
+import { parseTableMetadata, serializeTableMetadata, TableMetadata } from './tableMetadata';
+import { generateMarkdownTable, parseMarkdownTable, recalculateTables, formatTables, collectSummaryRows } from './markdownParser';
+import * as assert from 'assert';
+
+console.log('Running Table Formula Tests...');
+
+// Evaluates a formula against a single row
+function calc(expression: string, headers: string[] = ['A', 'B'], row: string[] = ['6', '3']): string {
+    const data = [[...headers, 'Result'], [...row, '']];
+    return applyTableFormulas(data, { formulas: { Result: expression } })[1][headers.length];
+}
+
+// Parsing
+assert.ok(parseFormula('Price * Qty').node);
+assert.ok(parseFormula('ROUND([Unit Price] * 1.1, 2)').node);
+assert.ok(parseFormula('').error, 'Empty formulas are rejected');
+assert.ok(parseFormula('A +').error);
+assert.ok(parseFormula('(A + B').error);
+assert.ok(parseFormula('A ; B').error);
+assert.ok(parseFormula('constructor.constructor("return process")()').error, 'Property access is not part of the grammar');
+assert.strictEqual(validateFormula(parseFormula('A + C').node!, ['A', 'B']), '列「C」が見つかりません');
+assert.strictEqual(validateFormula(parseFormula('EVAL(A)').node!, ['A']), '関数「EVAL」は使用できません');
+assert.strictEqual(validateFormula(parseFormula('[ A ] * 2').node!, ['A']), null, 'Headers are compared without surrounding spaces');
+
+// Arithmetic, precedence and functions
+assert.strictEqual(calc('A + B * 2'), '12');
+assert.strictEqual(calc('(A + B) * 2'), '18');
+assert.strictEqual(calc('-A ^ 2'), '-36', 'Unary minus binds looser than ^');
+assert.strictEqual(calc('2 ^ 3 ^ 2'), '512', '^ is right-associative');
+assert.strictEqual(calc('A % 4'), '2');
+assert.strictEqual(calc('ROUND(A / 7, 2)'), '0.86');
+assert.strictEqual(calc('MAX(A, B, 10) - MIN(A, B)'), '7');
+assert.strictEqual(calc('IF(A > B, A, B)'), '6');
+assert.strictEqual(calc('IF(B = 0, 0, A / B)'), '2');
+assert.strictEqual(calc('0.1 + 0.2'), '0.3', 'Floating point noise is rounded');
+
+// Cell values
+assert.strictEqual(calc('A * B', ['A', 'B'], ['1,200', '']), '0', 'Empty cells count as 0');
+assert.strictEqual(calc('A + B', ['A', 'B'], ['true', '$5']), '6');
+assert.strictEqual(calc('A * 2', ['Unit Price', 'B'], ['5', '']), '#NAME?');
+assert.strictEqual(calc('[Unit Price] * 2', ['Unit Price', 'B'], ['5', '']), '10');
+assert.strictEqual(calc('A + B', ['A', 'B'], ['x', '1']), '#VALUE!');
+assert.strictEqual(calc('A / (B - 3)'), '#DIV/0!');
+assert.strictEqual(calc('IF(B = 3, 1, A / 0)'), '1', 'IF evaluates only the chosen branch');
+assert.strictEqual(calc('A +'), '#ERROR!');
+assert.strictEqual(formatFormulaValue(Infinity), '#VALUE!');
+
+// Computed columns may use other computed columns, cycles are reported
+const chained = applyTableFormulas(
+    [['Price', 'Qty', 'Net', 'Gross'], ['10', '3', '', ''], ['2.5', '4', 'old', 'old']],
+    { formulas: { Net: 'Price * Qty', Gross: 'ROUND(Net * 1.1, 1)' } }
+);
+assert.deepStrictEqual(chained.slice(1), [['10', '3', '30', '33'], ['2.5', '4', '10', '11']]);
+const cyclic = applyTableFormulas([['A', 'B'], ['', '']], { formulas: { A: 'B + 1', B: 'A + 1' } });
+assert.deepStrictEqual(cyclic[1], ['#CYCLE!', '#CYCLE!']);
+
+// Summary row
+assert.strictEqual(summarizeValues(['1', '2', 'x', ''], 'sum'), '3');
+assert.strictEqual(summarizeValues(['1', '2', 'x', ''], 'avg'), '1.5');
+assert.strictEqual(summarizeValues(['1', '2', 'x', ''], 'count'), '3');
+assert.strictEqual(summarizeValues(['x', ''], 'max'), '');
+assert.strictEqual(summarizeValues([], 'sum'), '0');
+const manyValues = Array.from({ length: 200000 }, (_, i) => String(i % 1000));
+assert.strictEqual(summarizeValues(manyValues, 'min'), '0', 'Large columns do not overflow the call stack');
+assert.strictEqual(summarizeValues(manyValues, 'max'), '999');
+
+const metadata: TableMetadata = { formulas: { Amount: 'Price * Qty' }, summary: { Qty: 'sum', Amount: 'sum', Price: 'avg' } };
+const data = [
+    ['Item', 'Price', 'Qty', 'Amount'],
+    ['Apple', '100', '3', ''],
+    ['Pear', '250', '2', ''],
+    ['Total', '', '', '']
+];
+const calculated = applyTableFormulas(data, metadata);
+assert.deepStrictEqual(calculated[3], ['Total', '175', '5', '800'], 'The last row summarizes the computed values');
+assert.deepStrictEqual(calculated[1], ['Apple', '100', '3', '300']);
+assert.strictEqual(calculated[0], data[0], 'Unchanged rows keep the same array');
+assert.strictEqual(applyTableFormulas(calculated, metadata)[1], calculated[1]);
+assert.strictEqual(applyTableFormulas(data, {}), data, 'Tables without formulas are returned as is');
+
+// Metadata round trip
+const comment = serializeTableMetadata(metadata)!;
+assert.deepStrictEqual(parseTableMetadata(comment), metadata);
+assert.deepStrictEqual(
+    parseTableMetadata('<!-- markdown-table: {"formulas":{"A":1,"B":" "},"summary":{"A":"median","B":"max"}} -->'),
+    { summary: { B: 'max' } },
+    'Invalid formulas and summary functions are dropped'
+);
+
+// The generator writes the evaluated values
+const markdown = generateMarkdownTable({ data, alignments: ['none', 'right', 'right', 'right'] }, { metadata });
+assert.deepStrictEqual(parseMarkdownTable(markdown).data, calculated);
+
+// Tables in the document are recalculated when their source cells change
+const doc = [
+    '# Orders',
+    '',
+    comment,
+    '| Item  | Price | Qty | Amount |',
+    '| ----- | ----: | --: | -----: |',
+    '| Apple |   100 |   4 |    300 |',
+    '| Pear  |   250 |   2 |    500 |',
+    '| Total |   175 |   5 |    800 |',
+    '',
+    '| Plain |',
+    '| ----- |',
+    '| 1     |'
+].join('\n');
+const [edit] = recalculateTables(doc);
+assert.deepStrictEqual(edit.range, { startLine: 3, endLine: 7 });
+assert.deepStrictEqual(parseMarkdownTable(edit.text).data.slice(1).map(row => row[3]), ['400', '500', '900']);
+assert.deepStrictEqual(parseMarkdownTable(edit.text).data[3], ['Total', '175', '6', '900']);
+const updated = doc.split('\n');
+updated.splice(3, 5, ...edit.text.split('\n'));
+assert.deepStrictEqual(recalculateTables(updated.join('\n')), [], 'Up-to-date tables are not rewritten');
+assert.deepStrictEqual(formatTables(updated.join('\n')), [], 'Formatting keeps the evaluated values');
+
+// Rows typed below the summary row are moved above it instead of replacing it
+const summaryOnly: TableMetadata = { summary: { Qty: 'sum' } };
+const typedBelow = [['Item', 'Qty'], ['Apple', '5'], ['Pear', '10'], ['Total', '15'], ['Plum', '10']];
+const known = new Set([getSummaryRowKey(['Total', '15'])]);
+assert.deepStrictEqual(restoreSummaryRowPosition(typedBelow, summaryOnly, known).map(row => row[0]), ['Item', 'Apple', 'Pear', 'Plum', 'Total']);
+assert.strictEqual(restoreSummaryRowPosition(typedBelow, summaryOnly, new Set()), typedBelow, 'Without a known summary row nothing moves');
+assert.strictEqual(restoreSummaryRowPosition(typedBelow, {}, known), typedBelow);
+const staleSummary = [['Item', 'Qty'], ['Apple', '7'], ['Total', '15']];
+assert.strictEqual(restoreSummaryRowPosition(staleSummary, summaryOnly, known), staleSummary, 'Editing a data row keeps the summary row last');
+
+const typedDoc = [
+    serializeTableMetadata(summaryOnly)!,
+    '| Item  | Qty |',
+    '| ----- | --: |',
+    '| Apple |   5 |',
+    '| Pear  |  10 |',
+    '| Total |  15 |'
+];
+const knownRows = collectSummaryRows(typedDoc.join('\n'));
+assert.deepStrictEqual([...knownRows], [getSummaryRowKey(['Total', '15'])]);
+const [typedEdit] = recalculateTables([...typedDoc, '| Plum | 10 |'].join('\n'), {}, knownRows);
+assert.deepStrictEqual(parseMarkdownTable(typedEdit.text).data.slice(1), [['Apple', '5'], ['Pear', '10'], ['Plum', '10'], ['Total', '25']]);
+
+console.log('All Table Formula Tests Passed!');
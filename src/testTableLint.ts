@@ -0,0 +1,132 @@
+import { findTableProblems, getRaggedRowFixes, fixRaggedRows, fixDelimiterRow } from './tableLint';
+import { formatMarkdown, applyTableFormatEdits, formatTables, generateMarkdownTable, parseMarkdownTable } from './lib';
+import { findMalformedTables } from './markdownParser';
+import * as assert from 'assert';
+
+console.log('Running Table Lint Tests...');
+
+const formatted = [
+    '# Title',
+    '',
+    '| a   | b   |',
+    '| --- | --- |',
+    '| 1   | 2   |',
+    ''
+].join('\n');
+assert.deepStrictEqual(findTableProblems(formatted), []);
+assert.strictEqual(formatMarkdown(formatted), formatted, 'Formatted documents are returned as is');
+
+// Unformatted tables and ragged rows are reported with their lines
+const messy = [
+    '| a | b |',
+    '|---|---|',
+    '| 1 | 2 | 3 |',
+    '| 4 |',
+    '',
+    '```',
+    '| not | a table |',
+    '|-|-|',
+    '```'
+].join('\n');
+assert.deepStrictEqual(findTableProblems(messy).map(p => [p.kind, p.line]), [
+    ['unformatted', 0],
+    ['raggedRow', 2],
+    ['raggedRow', 3]
+]);
+assert.strictEqual(findTableProblems(messy)[1].message, 'Row has 3 cells but the header has 2.');
+assert.deepStrictEqual(findTableProblems(messy, { checkFormatting: false }).map(p => p.kind), ['raggedRow', 'raggedRow'],
+    'Unformatted tables can be left to the formatter');
+
+// Formatting only touches tables, later tables keep their position
+const twoTables = [
+    '| x |',
+    '|-|',
+    '| long value |',
+    '',
+    'text | kept',
+    '',
+    '> | y | z |',
+    '> |-|-|'
+].join('\n');
+assert.strictEqual(formatMarkdown(twoTables), [
+    '| x          |',
+    '| ---------- |',
+    '| long value |',
+    '',
+    'text | kept',
+    '',
+    '> | y   | z   |',
+    '> | --- | --- |'
+].join('\n'));
+assert.strictEqual(formatMarkdown(twoTables, { style: 'compact' }).split('\n')[0], '| x |');
+
+// Line endings are kept
+const crlf = '| a | b |\r\n|-|-|\r\n| 1 | 2 |\r\n\r\nend';
+assert.strictEqual(formatMarkdown(crlf), '| a   | b   |\r\n| --- | --- |\r\n| 1   | 2   |\r\n\r\nend');
+const noTrailingNewline = '| a |\r\n|-|';
+assert.strictEqual(applyTableFormatEdits(noTrailingNewline, formatTables(noTrailingNewline)), '| a   |\r\n| --- |');
+
+// Computed columns are recalculated
+const computed = [
+    '<!-- markdown-table: {"formulas":{"Sum":"A + B"}} -->',
+    '| A | B | Sum |',
+    '|---|---|-----|',
+    '| 1 | 2 |     |'
+].join('\n');
+assert.strictEqual(formatMarkdown(computed).split('\n')[3], '| 1   | 2   | 3   |');
+
+// Rows longer or shorter than the header are written with aligned columns
+assert.strictEqual(generateMarkdownTable({ data: [['a', 'b'], ['1'], ['1', '2', 'extra']], alignments: ['none', 'none'] }), [
+    '| a   | b   |',
+    '| --- | --- |',
+    '| 1   |     |',
+    '| 1   | 2   | extra |',
+    ''
+].join('\n'));
+
+// Ragged rows can be padded, truncated or given header names
+const ragged = [
+    'Intro',
+    '',
+    '> | a | b |',
+    '> |---|--:|',
+    '> | 1 |',
+    '> | 2 | 3 | 4 |'
+].join('\n');
+assert.deepStrictEqual(getRaggedRowFixes(ragged, 4), ['pad', 'truncate', 'extendHeader']);
+assert.deepStrictEqual(getRaggedRowFixes(formatted, 2), []);
+const fixed = (fix: 'pad' | 'truncate' | 'extendHeader') => applyTableFormatEdits(ragged, [fixRaggedRows(ragged, 4, fix)!]).split('\n').slice(2);
+assert.deepStrictEqual(fixed('truncate'), ['> | a   |   b |', '> | --- | --: |', '> | 1   |     |', '> | 2   |   3 |']);
+assert.deepStrictEqual(fixed('extendHeader'), [
+    '> | a   |   b | Column 3 |',
+    '> | --- | --: | -------- |',
+    '> | 1   |     |          |',
+    '> | 2   |   3 | 4        |'
+]);
+assert.deepStrictEqual(findTableProblems(fixed('extendHeader').join('\n')), []);
+assert.strictEqual(fixRaggedRows(ragged, 0, 'pad'), null);
+
+// Header names
+const headers = ['| Name |  | Name |', '|---|---|---|', '| a | b | c |'].join('\n');
+const headerProblems = findTableProblems(headers).filter(p => p.kind !== 'unformatted');
+assert.deepStrictEqual(headerProblems.map(p => [p.kind, p.line, p.cell]), [
+    ['emptyHeader', 0, { start: 9, end: 9 }],
+    ['duplicateHeader', 0, { start: 12, end: 16 }]
+]);
+
+// Missing and invalid delimiter rows
+const noDelimiter = ['Text', '', '| a | b |', '| 1 | 2 |', '', '| single line |', '', '```', '| x |', '| y |', '```'].join('\n');
+assert.deepStrictEqual(findMalformedTables(noDelimiter).map(m => [m.kind, m.range]), [['missingDelimiter', { startLine: 2, endLine: 3 }]]);
+assert.deepStrictEqual(findTableProblems(noDelimiter).map(p => [p.kind, p.line]), [['missingDelimiter', 2]]);
+const insertedDelimiter = applyTableFormatEdits(noDelimiter, [fixDelimiterRow(noDelimiter, 3)!]);
+assert.deepStrictEqual(parseMarkdownTable(insertedDelimiter.split('\n').slice(2, 5).join('\n')).data, [['a', 'b'], ['1', '2']]);
+assert.strictEqual(insertedDelimiter.split('\n')[3], '| --- | --- |');
+
+const badDelimiter = ['| a | b | c |', '|:--|--:|', '| 1 | 2 | 3 |'].join('\r\n');
+assert.deepStrictEqual(findTableProblems(badDelimiter).map(p => [p.kind, p.line]), [['invalidDelimiter', 1]]);
+const fixedDelimiter = applyTableFormatEdits(badDelimiter, [fixDelimiterRow(badDelimiter, 1)!]);
+assert.strictEqual(fixedDelimiter, ['| a | b | c |', '| :-- | --: | --- |', '| 1 | 2 | 3 |'].join('\r\n'), 'Readable alignments are kept');
+assert.deepStrictEqual(findMalformedTables(fixedDelimiter), []);
+assert.strictEqual(fixDelimiterRow(formatted, 2), null);
+
+console.log('All Table Lint Tests Passed!');
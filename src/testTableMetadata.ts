@@ -0,0 +1,89 @@
+import {
+    parseTableMetadata, serializeTableMetadata, isValidCellValue, findInvalidCells, setColumnDefinition, renameColumnDefinition,
+    renameColumnMetadata, removeColumnMetadata, ColumnDefinitions, TableMetadata
+} from './tableMetadata';
+import { findTables, generateMarkdownTable, parseMarkdownTable } from './markdownParser';
+import * as assert from 'assert';
+
+console.log('Running Table Metadata Tests...');
+
+const columns: ColumnDefinitions = {
+    Status: { type: 'enum', values: ['Todo', 'Done'] },
+    Due: { type: 'date' },
+    Points: { type: 'number' },
+    Done: { type: 'boolean' }
+};
+
+// Round trip through the HTML comment
+const comment = serializeTableMetadata({ columns })!;
+assert.ok(comment.startsWith('<!-- markdown-table: {') && comment.endsWith('} -->'));
+assert.deepStrictEqual(parseTableMetadata(comment), { columns });
+assert.strictEqual(serializeTableMetadata({ columns: {} }), null, 'Nothing to store removes the comment');
+assert.strictEqual(parseTableMetadata('<!-- a regular comment -->'), null);
+assert.strictEqual(parseTableMetadata('<!-- markdown-table: {broken -->'), null);
+assert.deepStrictEqual(parseTableMetadata('<!-- markdown-table: {"columns":{"A":{"type":"unknown"},"B":{"type":"number"}}} -->'),
+    { columns: { B: { type: 'number' } } }, 'Unknown column types are ignored');
+
+// Comments cannot be closed early by a value
+const tricky = serializeTableMetadata({ columns: { 'a-->b': { type: 'enum', values: ['--'] } } })!;
+assert.strictEqual(tricky.indexOf('-->'), tricky.length - 3);
+assert.deepStrictEqual(parseTableMetadata(tricky), { columns: { 'a-->b': { type: 'enum', values: ['--'] } } });
+
+// Validation
+assert.ok(isValidCellValue('Done', columns.Status));
+assert.ok(!isValidCellValue('done', columns.Status), 'Enum values are case-sensitive');
+assert.ok(isValidCellValue('', columns.Status), 'Empty cells are always valid');
+assert.ok(isValidCellValue('2024-02-29', columns.Due));
+assert.ok(!isValidCellValue('2023-02-29', columns.Due));
+assert.ok(isValidCellValue('1,200', columns.Points));
+assert.ok(!isValidCellValue('a lot', columns.Points));
+assert.ok(isValidCellValue('true', columns.Done));
+assert.ok(!isValidCellValue('yes', columns.Done));
+
+const data = [
+    ['Task', 'Status', 'Points'],
+    ['Write', 'DONE', '3'],
+    ['Test', 'Todo', 'many']
+];
+assert.deepStrictEqual(findInvalidCells(data, columns).map(c => [c.row, c.col, c.value]), [[1, 1, 'DONE'], [2, 2, 'many']]);
+
+// Editing definitions
+assert.deepStrictEqual(Object.keys(setColumnDefinition(columns, 'Points', { type: 'text' })), ['Status', 'Due', 'Done'], 'Text columns are not stored');
+assert.deepStrictEqual(setColumnDefinition({}, 'Points', { type: 'number' }), { Points: { type: 'number' } });
+const renamed = renameColumnDefinition(columns, 'Points', 'Score');
+assert.deepStrictEqual(renamed.Score, { type: 'number' });
+assert.strictEqual(renamed.Points, undefined);
+assert.strictEqual(renameColumnDefinition(columns, 'Task', 'Title'), columns, 'Columns without a definition keep the same object');
+assert.strictEqual(renameColumnDefinition(columns, 'Points', 'Due'), columns, 'Existing definitions are not overwritten');
+
+// Renaming or removing a column updates every kind of metadata
+const metadata: TableMetadata = { columns: { Points: { type: 'number' } }, formulas: { Points: 'A * 2' }, summary: { Points: 'sum', Task: 'count' } };
+assert.deepStrictEqual(renameColumnMetadata(metadata, 'Points', 'Score'), {
+    columns: { Score: { type: 'number' } }, formulas: { Score: 'A * 2' }, summary: { Task: 'count', Score: 'sum' }
+});
+assert.strictEqual(renameColumnMetadata(metadata, 'Other', 'Score'), metadata);
+assert.deepStrictEqual(removeColumnMetadata(metadata, 'Points'), { columns: {}, formulas: {}, summary: { Task: 'count' } });
+assert.strictEqual(serializeTableMetadata(removeColumnMetadata({ formulas: { Points: 'A' } }, 'Points')), null);
+
+// The parser reads the comment just above a table, the table itself is unchanged
+const doc = [
+    'Intro',
+    '',
+    '> <!-- markdown-table: {"columns":{"Status":{"type":"enum","values":["Todo","Done"]}}} -->',
+    '> | Task | Status |',
+    '> | ---- | ------ |',
+    '> | a    | Done   |',
+    '',
+    '<!-- markdown-table: {"columns":{"X":{"type":"number"}}} -->',
+    '',
+    '| X |',
+    '| - |'
+].join('\n');
+const [quoted, separated] = findTables(doc);
+assert.deepStrictEqual(quoted.range, { startLine: 3, endLine: 5 });
+assert.strictEqual(quoted.metadataLine, 2);
+assert.deepStrictEqual(quoted.metadata, { columns: { Status: { type: 'enum', values: ['Todo', 'Done'] } } });
+assert.strictEqual(separated.metadata, undefined, 'The comment must be on the line just above the table');
+assert.strictEqual(generateMarkdownTable(parseMarkdownTable(quoted.content)).trim(), quoted.content);
+
+console.log('All Table Metadata Tests Passed!');
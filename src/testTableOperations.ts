@@ -0,0 +1,47 @@
+import { insertRow, deleteRow, duplicateRow, moveRow, insertColumn, deleteColumn, moveColumn, swapColumns, getMovedIndex } from './tableOperations';
+import { MarkdownTable } from './markdownParser';
+import * as assert from 'assert';
+
+console.log('Running Table Operations Tests...');
+
+const table: MarkdownTable = {
+    data: [['A', 'B', 'C'], ['1', '2', '3'], ['4', '5', '6']],
+    alignments: ['left', 'none', 'right']
+};
+
+// Rows
+assert.deepStrictEqual(insertRow(table, 1).data, [['A', 'B', 'C'], ['', '', ''], ['1', '2', '3'], ['4', '5', '6']]);
+assert.deepStrictEqual(insertRow(table, 0).data[1], ['', '', ''], 'Rows are never inserted above the header');
+assert.deepStrictEqual(insertRow(table, 99).data[3], ['', '', '']);
+assert.deepStrictEqual(deleteRow(table, 1).data, [['A', 'B', 'C'], ['4', '5', '6']]);
+assert.strictEqual(deleteRow({ data: [['A']], alignments: ['none'] }, 0).data.length, 1, 'The last row is kept');
+assert.deepStrictEqual(duplicateRow(table, 1).data.map(r => r[0]), ['A', '1', '1', '4']);
+assert.deepStrictEqual(moveRow(table, 2, 1).data.map(r => r[0]), ['A', '4', '1']);
+assert.strictEqual(moveRow(table, 1, 0), table, 'Rows cannot move into the header');
+assert.strictEqual(moveRow(table, 0, 1), table, 'The header does not move');
+
+// Columns keep their alignment
+const inserted = insertColumn(table, 1);
+assert.deepStrictEqual(inserted.data[0], ['A', '', 'B', 'C']);
+assert.deepStrictEqual(inserted.alignments, ['left', 'none', 'none', 'right']);
+const deleted = deleteColumn(table, 0);
+assert.deepStrictEqual(deleted.data[1], ['2', '3']);
+assert.deepStrictEqual(deleted.alignments, ['none', 'right']);
+assert.strictEqual(deleteColumn({ data: [['A']], alignments: ['none'] }, 0).alignments.length, 1, 'The last column is kept');
+const moved = moveColumn(table, 0, 2);
+assert.deepStrictEqual(moved.data[0], ['B', 'C', 'A']);
+assert.deepStrictEqual(moved.alignments, ['none', 'right', 'left']);
+const swapped = swapColumns(table, 0, 2);
+assert.deepStrictEqual(swapped.data[2], ['6', '5', '4']);
+assert.deepStrictEqual(swapped.alignments, ['right', 'none', 'left']);
+
+// The original table is not modified
+assert.deepStrictEqual(table.data[0], ['A', 'B', 'C']);
+assert.deepStrictEqual(table.alignments, ['left', 'none', 'right']);
+
+// Indexes that follow a move
+assert.deepStrictEqual([0, 1, 2, 3].map(i => getMovedIndex(i, 1, 3)), [0, 3, 1, 2]);
+assert.deepStrictEqual([0, 1, 2, 3].map(i => getMovedIndex(i, 3, 1)), [0, 2, 3, 1]);
+assert.deepStrictEqual([0, 1, 2].map(i => getMovedIndex(i, 1, 1)), [0, 1, 2]);
+
+console.log('All table operations tests passed!');
@@ -0,0 +1,35 @@
+import { diffCells, applyCellChanges, diffLines } from './tablePatch';
+import { MarkdownTable } from './markdownParser';
+import * as assert from 'assert';
+
+console.log('Running Table Patch Tests...');
+
+const table: MarkdownTable = {
+    data: [['A', 'B'], ['1', '2'], ['3', '4']],
+    alignments: ['none', 'right']
+};
+
+// Cell diffs
+const edited = table.data.map(row => [...row]);
+edited[2][1] = 'x';
+assert.deepStrictEqual(diffCells(table.data, edited), [{ row: 2, col: 1, value: 'x' }]);
+assert.deepStrictEqual(diffCells(table.data, table.data), []);
+assert.strictEqual(diffCells(table.data, table.data.slice(0, 2)), null, 'Row count changes are not cell changes');
+assert.strictEqual(diffCells(table.data, table.data.map(row => [...row, ''])), null, 'Column count changes are not cell changes');
+
+// Applying cell changes
+const applied = applyCellChanges(table, [{ row: 1, col: 0, value: 'y' }, { row: 9, col: 0, value: 'ignored' }]);
+assert.deepStrictEqual(applied.data, [['A', 'B'], ['y', '2'], ['3', '4']]);
+assert.strictEqual(table.data[1][0], '1', 'The original table is not modified');
+assert.strictEqual(applied.data[2], table.data[2], 'Unchanged rows are shared');
+assert.strictEqual(applied.alignments, table.alignments);
+
+// Line diffs
+assert.strictEqual(diffLines(['a', 'b'], ['a', 'b']), null);
+assert.deepStrictEqual(diffLines(['a', 'b', 'c'], ['a', 'x', 'c']), { start: 1, deleteCount: 1, lines: ['x'] });
+assert.deepStrictEqual(diffLines(['a', 'b'], ['a', 'b', 'c']), { start: 2, deleteCount: 0, lines: ['c'] });
+assert.deepStrictEqual(diffLines(['a', 'b', 'c'], ['a', 'c']), { start: 1, deleteCount: 1, lines: [] });
+assert.deepStrictEqual(diffLines(['a', 'a'], ['a', 'a', 'a']), { start: 2, deleteCount: 0, lines: ['a'] }, 'Prefix and suffix never overlap');
+assert.deepStrictEqual(diffLines(['a', 'b'], ['x', 'y']), { start: 0, deleteCount: 2, lines: ['x', 'y'] });
+
+console.log('All Table Patch Tests Passed!');
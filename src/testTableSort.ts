@@ -0,0 +1,28 @@
+import { detectColumnType, sortTableRows } from './tableSort';
+import * as assert from 'assert';
+
+console.log('Running Table Sort Tests...');
+
+// Column type detection
+assert.strictEqual(detectColumnType(['1', '-2.5', '1,200', '', '30%', '$4']), 'number');
+assert.strictEqual(detectColumnType(['2024-01-31', '2023/12/1', '2024年2月3日']), 'date');
+assert.strictEqual(detectColumnType(['2024-02-30']), 'text', 'Invalid dates are text');
+assert.strictEqual(detectColumnType(['10', 'ten']), 'text');
+
+const header = ['Name', 'Qty', 'Date'];
+
+// Numbers are compared numerically, the header stays first and empty cells go last
+const numeric = sortTableRows([header, ['a', '10', ''], ['b', '', ''], ['c', '9', ''], ['d', '1,000', '']], 1, 'asc');
+assert.deepStrictEqual(numeric.map(r => r[0]), ['Name', 'c', 'a', 'd', 'b']);
+const numericDesc = sortTableRows([header, ['a', '10', ''], ['b', '', ''], ['c', '9', '']], 1, 'desc');
+assert.deepStrictEqual(numericDesc.map(r => r[0]), ['Name', 'a', 'c', 'b']);
+
+// Dates
+const dates = sortTableRows([header, ['a', '', '2024/1/2'], ['b', '', '2023-12-31'], ['c', '', '2024-01-01']], 2, 'asc');
+assert.deepStrictEqual(dates.map(r => r[0]), ['Name', 'b', 'c', 'a']);
+
+// Text is locale-aware and stable
+const text = sortTableRows([header, ['item10', '1', ''], ['Item2', '2', ''], ['item2', '3', ''], ['いちご', '4', ''], ['アップル', '5', '']], 0, 'asc', 'ja');
+assert.deepStrictEqual(text.map(r => r[1]), ['Qty', '2', '3', '1', '5', '4']);
+
+console.log('All table sort tests passed!');
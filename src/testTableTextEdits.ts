@@ -0,0 +1,65 @@
+import { nextCell, previousCell, nextRow, insertRowAbove, insertRowBelow, moveRowUp, moveRowDown, getSummaryRowIndex, TableTextCursor } from './tableTextEdits';
+import { MarkdownTable } from './markdownParser';
+import * as assert from 'assert';
+
+console.log('Running Table Text Edit Tests...');
+
+const plain: MarkdownTable = {
+    data: [['Item', 'Qty'], ['Apple', '5'], ['Pear', '10']],
+    alignments: ['none', 'right']
+};
+const withSummary: MarkdownTable = {
+    data: [['Item', 'Qty'], ['Apple', '5'], ['Pear', '10'], ['Total', '15']],
+    alignments: ['none', 'right']
+};
+const at = (table: MarkdownTable, row: number, column: number, hasSummaryRow = false): TableTextCursor => ({ table, row, column, hasSummaryRow });
+const firstCells = (table: MarkdownTable) => table.data.map(row => row[0]);
+
+assert.strictEqual(getSummaryRowIndex(at(withSummary, 1, 0, true)), 3);
+assert.strictEqual(getSummaryRowIndex(at(withSummary, 1, 0)), -1);
+
+// Tab
+assert.deepStrictEqual(nextCell(at(plain, 1, 0)), { table: plain, row: 1, column: 1 });
+assert.deepStrictEqual(nextCell(at(plain, 1, 1)), { table: plain, row: 2, column: 0 });
+const appended = nextCell(at(plain, 2, 1));
+assert.deepStrictEqual(firstCells(appended.table), ['Item', 'Apple', 'Pear', '']);
+assert.strictEqual(appended.row, 3);
+const beforeSummary = nextCell(at(withSummary, 2, 1, true));
+assert.deepStrictEqual(firstCells(beforeSummary.table), ['Item', 'Apple', 'Pear', '', 'Total'], 'Tab on the last data row inserts above the summary');
+assert.strictEqual(beforeSummary.row, 3);
+assert.deepStrictEqual(firstCells(nextCell(at(withSummary, 3, 1, true)).table), ['Item', 'Apple', 'Pear', '', 'Total'], 'Tab in the summary row too');
+assert.deepStrictEqual(previousCell(at(plain, 2, 0)), { table: plain, row: 1, column: 1 });
+assert.deepStrictEqual(previousCell(at(plain, 0, 0)), { table: plain, row: 0, column: 0 });
+
+// Enter
+const entered = nextRow(at(withSummary, 2, 1, true));
+assert.ok(entered !== 'leave');
+assert.deepStrictEqual(firstCells(entered.table), ['Item', 'Apple', 'Pear', '', 'Total']);
+assert.deepStrictEqual([entered.row, entered.column], [3, 1]);
+const emptyLast: MarkdownTable = { data: [['A'], ['1'], ['']], alignments: ['none'] };
+assert.strictEqual(nextRow(at(emptyLast, 2, 0)), 'leave', 'Enter on an empty last row leaves the table');
+const emptyBeforeSummary: MarkdownTable = { data: [['A'], ['1'], [''], ['1']], alignments: ['none'] };
+assert.strictEqual(nextRow(at(emptyBeforeSummary, 2, 0, true)), 'leave', 'The last data row is the one above the summary');
+assert.notStrictEqual(nextRow(at(emptyBeforeSummary, 2, 0)), 'leave');
+
+// Insert rows
+assert.deepStrictEqual(firstCells(insertRowBelow(at(plain, 2, 0)).table), ['Item', 'Apple', 'Pear', '']);
+assert.deepStrictEqual(firstCells(insertRowBelow(at(withSummary, 2, 0, true)).table), ['Item', 'Apple', 'Pear', '', 'Total']);
+assert.deepStrictEqual(firstCells(insertRowBelow(at(withSummary, 3, 0, true)).table), ['Item', 'Apple', 'Pear', '', 'Total']);
+assert.deepStrictEqual(firstCells(insertRowAbove(at(plain, 0, 0)).table), ['Item', '', 'Apple', 'Pear'], 'Rows are not inserted above the header');
+const aboveSummary = insertRowAbove(at(withSummary, 3, 1, true));
+assert.deepStrictEqual(firstCells(aboveSummary.table), ['Item', 'Apple', 'Pear', '', 'Total']);
+assert.deepStrictEqual([aboveSummary.row, aboveSummary.column], [3, 1]);
+
+// Move rows
+assert.deepStrictEqual(firstCells(moveRowDown(at(plain, 1, 0))!.table), ['Item', 'Pear', 'Apple']);
+assert.strictEqual(moveRowDown(at(plain, 2, 0)), undefined);
+assert.strictEqual(moveRowDown(at(withSummary, 2, 0, true)), undefined, 'The last data row does not move into the summary row');
+assert.deepStrictEqual(firstCells(moveRowDown(at(withSummary, 2, 0))!.table), ['Item', 'Apple', 'Total', 'Pear']);
+assert.strictEqual(moveRowDown(at(withSummary, 3, 0, true)), undefined);
+assert.strictEqual(moveRowDown(at(plain, 0, 0)), undefined, 'The header does not move');
+assert.deepStrictEqual(firstCells(moveRowUp(at(withSummary, 2, 0, true))!.table), ['Item', 'Pear', 'Apple', 'Total']);
+assert.strictEqual(moveRowUp(at(withSummary, 3, 0, true)), undefined, 'The summary row does not move');
+assert.strictEqual(moveRowUp(at(plain, 1, 0)), undefined);
+
+console.log('All Table Text Edit Tests Passed!');
@@ -0,0 +1,61 @@
+import { findTableAtPosition } from './markdownParser';
+import { TableTracker, LineChange } from './tableTracker';
+import * as assert from 'assert';
+
+console.log('Running Table Tracker Tests...');
+
+const table = '| a | b |\n|---|---|\n| 1 | 2 |';
+
+/**
+ * テキストに変更を適用し、変更内容と変更後のテキストを返します。
+ */
+function edit(text: string, startLine: number, startChar: number, endLine: number, endChar: number, newText: string): { text: string, change: LineChange } {
+    const lines = text.split('\n');
+    const offset = (line: number, char: number) => lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) + char;
+    const result = text.slice(0, offset(startLine, startChar)) + newText + text.slice(offset(endLine, endChar));
+    return {
+        text: result,
+        change: { range: { start: { line: startLine, character: startChar }, end: { line: endLine, character: endChar } }, text: newText }
+    };
+}
+
+// Lines inserted above the table shift it down
+let doc = `intro\n\n${table}\n\nafter`;
+let tracker = new TableTracker(findTableAtPosition(doc, 2)!);
+let step = edit(doc, 0, 0, 0, 0, 'one\ntwo\n');
+assert.deepStrictEqual(tracker.update(step.text, [step.change])!.range, { startLine: 4, endLine: 6 });
+
+// Lines removed above the table shift it up
+doc = step.text;
+step = edit(doc, 0, 0, 2, 0, '');
+assert.deepStrictEqual(tracker.update(step.text, [step.change])!.range, { startLine: 2, endLine: 4 });
+
+// A row added at the end grows the table
+doc = step.text;
+step = edit(doc, 4, 9, 4, 9, '\n| 3 | 4 |');
+assert.deepStrictEqual(tracker.update(step.text, [step.change])!.range, { startLine: 2, endLine: 5 });
+
+// Edits below the table do not move it
+doc = step.text;
+step = edit(doc, 7, 0, 7, 5, 'changed\nmore');
+assert.deepStrictEqual(tracker.update(step.text, [step.change])!.range, { startLine: 2, endLine: 5 });
+
+// Several changes in one event (positions refer to the document before the event)
+doc = step.text;
+const below = edit(doc, 7, 0, 7, 0, 'y\n');
+const above = edit(below.text, 0, 0, 0, 0, 'x\n');
+assert.deepStrictEqual(tracker.update(above.text, [above.change, below.change])!.range, { startLine: 3, endLine: 6 });
+
+// Deleting the table loses it
+doc = above.text;
+step = edit(doc, 3, 0, 7, 0, '');
+assert.strictEqual(tracker.update(step.text, [step.change]), null);
+assert.strictEqual(tracker.current, null);
+
+// Breaking the delimiter row loses the table as well
+doc = `${table}`;
+tracker = new TableTracker(findTableAtPosition(doc, 0)!);
+step = edit(doc, 1, 0, 1, 9, 'text');
+assert.strictEqual(tracker.update(step.text, [step.change]), null);
+
+console.log('All table tracker tests passed!');
@@ -0,0 +1,25 @@
+import { getVirtualWindow, getRowOffset } from './webview/virtualRows';
+import * as assert from 'assert';
+
+console.log('Running Virtual Rows Tests...');
+
+const heights = new Array(1000).fill(10);
+
+// Only the rows around the viewport are rendered
+assert.deepStrictEqual(getVirtualWindow(heights, 0, 100, 0), { start: 0, end: 10, paddingTop: 0, paddingBottom: 9900 });
+assert.deepStrictEqual(getVirtualWindow(heights, 505, 100, 0), { start: 50, end: 61, paddingTop: 500, paddingBottom: 9390 });
+assert.deepStrictEqual(getVirtualWindow(heights, 505, 100, 5), { start: 45, end: 66, paddingTop: 450, paddingBottom: 9340 });
+
+// The table starts below the top of the viewport
+assert.deepStrictEqual(getVirtualWindow(heights, -50, 100, 0), { start: 0, end: 5, paddingTop: 0, paddingBottom: 9950 });
+
+// Scrolled past the end, and small tables
+assert.deepStrictEqual(getVirtualWindow(heights, 20000, 100, 2), { start: 998, end: 1000, paddingTop: 9980, paddingBottom: 0 });
+assert.deepStrictEqual(getVirtualWindow([10, 10], 0, 500), { start: 0, end: 2, paddingTop: 0, paddingBottom: 0 });
+assert.deepStrictEqual(getVirtualWindow([], 0, 500), { start: 0, end: 0, paddingTop: 0, paddingBottom: 0 });
+
+// Rows of different heights (multi-line cells)
+assert.deepStrictEqual(getVirtualWindow([10, 50, 10, 10], 15, 20, 0), { start: 1, end: 2, paddingTop: 10, paddingBottom: 20 });
+assert.strictEqual(getRowOffset([10, 50, 10], 2), 60);
+
+console.log('All Virtual Rows Tests Passed!');
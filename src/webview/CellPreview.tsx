@@ -0,0 +1,65 @@
+import React from 'react';
+import { InlineNode } from './inlineMarkdown';
+
+interface CellPreviewProps {
+    nodes: InlineNode[];
+    textAlign: React.CSSProperties['textAlign'];
+    /** Ctrl (Cmd) + クリックでリンクを開きます */
+    onOpenLink: (href: string) => void;
+}
+
+/**
+ * インライン要素をReactの要素として描画します。
+ */
+function renderNodes(nodes: InlineNode[], onOpenLink: (href: string) => void): React.ReactNode[] {
+    return nodes.map((node, i) => {
+        switch (node.type) {
+            case 'text':
+                return <React.Fragment key={i}>{node.text}</React.Fragment>;
+            case 'code':
+                return <code key={i}>{node.text}</code>;
+            case 'break':
+                return <br key={i} />;
+            case 'strong':
+                return <strong key={i}>{renderNodes(node.children, onOpenLink)}</strong>;
+            case 'em':
+                return <em key={i}>{renderNodes(node.children, onOpenLink)}</em>;
+            case 'del':
+                return <del key={i}>{renderNodes(node.children, onOpenLink)}</del>;
+            case 'link':
+                return (
+                    <a
+                        key={i}
+                        href={node.href}
+                        title={`${node.href}\nCtrl+クリックでリンクを開く`}
+                        onMouseDown={(e) => {
+                            e.preventDefault();
+                            if (e.ctrlKey || e.metaKey) {
+                                e.stopPropagation();
+                                onOpenLink(node.href);
+                                return;
+                            }
+                            // 通常のクリックはセルの編集を開始します
+                            const input = e.currentTarget.closest('.cell-editor')?.querySelector<HTMLElement>('input, textarea');
+                            input?.focus();
+                        }}
+                        onClick={(e) => e.preventDefault()}
+                    >{renderNodes(node.children, onOpenLink)}</a>
+                );
+        }
+    });
+}
+
+/**
+ * セルのプレビュー (インライン Markdown を描画した表示)
+ *
+ * フォーカスのないセルの入力欄に重ねて表示し、セルを編集するときは元の Markdown を表示します。
+ * リンク以外の部分へのクリックは下の入力欄に届きます。
+ */
+const CellPreview: React.FC<CellPreviewProps> = ({ nodes, textAlign, onOpenLink }) => (
+    <div className="cell-preview" style={{ textAlign }} aria-hidden="true">
+        {renderNodes(nodes, onOpenLink)}
+    </div>
+);
+
+export default CellPreview;
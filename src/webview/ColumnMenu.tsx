@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ColumnValueType, SortDirection } from '../tableSort';
+import { COLUMN_DATA_TYPE_LABELS, SUMMARY_FUNCTION_LABELS, ColumnDataType, ColumnDefinition, SummaryFunction } from '../tableMetadata';
+
+interface ColumnMenuProps {
+    columnType: ColumnValueType;
+    filterText: string;
+    /** 列の種類の定義 (未設定の場合はテキスト) */
+    definition: ColumnDefinition | undefined;
+    /** 列のデータ行の値 (重複なし)。選択肢の初期値に使います */
+    columnValues: string[];
+    /** 計算列の式 (計算列でない場合は undefined) */
+    formula: string | undefined;
+    /** 計算式が正しくない場合の理由 */
+    formulaError: string | null;
+    /** 集計行の集計方法 (集計しない場合は undefined) */
+    summary: SummaryFunction | undefined;
+    onSort: (direction: SortDirection) => void;
+    onFilterChange: (text: string) => void;
+    onDefinitionChange: (definition: ColumnDefinition | null) => void;
+    onFormulaChange: (expression: string) => void;
+    onSummaryChange: (fn: SummaryFunction | null) => void;
+    /** 列の種類・計算式・集計の設定を表示するかどうか (CSV / TSV ファイルでは保存できないため表示しません) */
+    showColumnSettings: boolean;
+    onClose: () => void;
+}
+
+// 並べ替えの種類の表示名
+const COLUMN_TYPE_LABELS: Record<ColumnValueType, string> = {
+    number: '数値',
+    date: '日付',
+    text: 'テキスト'
+};
+
+/**
+ * 列ヘッダーのメニュー (並べ替え・フィルター)
+ *
+ * メニューの外側をクリックするか Escape キーで閉じます。
+ */
+const ColumnMenu: React.FC<ColumnMenuProps> = ({
+    columnType, filterText, definition, columnValues, formula, formulaError, summary,
+    onSort, onFilterChange, onDefinitionChange, onFormulaChange, onSummaryChange, showColumnSettings, onClose
+}) => {
+    const menuRef = useRef<HTMLDivElement>(null);
+    const dataType: ColumnDataType = definition?.type ?? 'text';
+
+    // 選択肢の入力中の文字列 (確定するまで列の定義は変更しません)
+    const [valuesText, setValuesText] = useState<string>((definition?.values || []).join(', '));
+    useEffect(() => {
+        setValuesText((definition?.values || []).join(', '));
+    }, [definition]);
+
+    // 計算式の入力中の文字列 (確定するまで計算しません)
+    const [formulaText, setFormulaText] = useState<string>(formula || '');
+    useEffect(() => {
+        setFormulaText(formula || '');
+    }, [formula]);
+
+    /**
+     * 入力した計算式を確定します。
+     */
+    const commitFormula = () => {
+        if (formulaText.trim() !== (formula || '')) {
+            onFormulaChange(formulaText);
+        }
+    };
+
+    /**
+     * 列の種類を変更します。選択肢に変更した場合は、列の既存の値を選択肢にします。
+     */
+    const changeDataType = (type: ColumnDataType) => {
+        if (type === 'text') {
+            onDefinitionChange(null);
+        } else if (type === 'enum') {
+            onDefinitionChange({ type, values: definition?.values ?? columnValues });
+        } else {
+            onDefinitionChange({ type });
+        }
+    };
+
+    /**
+     * 入力した選択肢 (カンマ区切り) を確定します。
+     */
+    const commitValues = () => {
+        const values = Array.from(new Set(valuesText.split(',').map(value => value.trim()).filter(value => value !== '')));
+        if (values.join(',') !== (definition?.values || []).join(',')) {
+            onDefinitionChange({ type: 'enum', values });
+        }
+    };
+
+    useEffect(() => {
+        const handleMouseDown = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+                onClose();
+            }
+        };
+        window.addEventListener('mousedown', handleMouseDown);
+        return () => window.removeEventListener('mousedown', handleMouseDown);
+    }, [onClose]);
+
+    return (
+        <div
+            className="column-menu"
+            ref={menuRef}
+            onKeyDown={(e) => {
+                if (e.key === 'Escape') {
+                    e.stopPropagation();
+                    onClose();
+                }
+            }}
+        >
+            <button className="menu-item" onClick={() => onSort('asc')}>昇順で並べ替え</button>
+            <button className="menu-item" onClick={() => onSort('desc')}>降順で並べ替え</button>
+            <div className="menu-note">{COLUMN_TYPE_LABELS[columnType]}として並べ替えます</div>
+            <div className="menu-separator" />
+            <input
+                className="menu-filter"
+                type="text"
+                placeholder="フィルター (含む)"
+                value={filterText}
+                autoFocus
+                onChange={(e) => onFilterChange(e.target.value)}
+            />
+            {filterText !== '' && (
+                <button className="menu-item" onClick={() => onFilterChange('')}>フィルターを解除</button>
+            )}
+            {showColumnSettings && (
+                <>
+                    <div className="menu-separator" />
+                    <label className="menu-field">
+                        <span>列の種類</span>
+                        <select value={dataType} onChange={(e) => changeDataType(e.target.value as ColumnDataType)}>
+                            {(Object.keys(COLUMN_DATA_TYPE_LABELS) as ColumnDataType[]).map(type => (
+                                <option key={type} value={type}>{COLUMN_DATA_TYPE_LABELS[type]}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {dataType === 'enum' && (
+                        <input
+                            className="menu-filter"
+                            type="text"
+                            placeholder="選択肢 (カンマ区切り)"
+                            value={valuesText}
+                            onChange={(e) => setValuesText(e.target.value)}
+                            onBlur={commitValues}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    commitValues();
+                                }
+                            }}
+                        />
+                    )}
+                    <div className="menu-separator" />
+                    <input
+                        className="menu-filter"
+                        type="text"
+                        placeholder="計算式 (例: Price * Qty)"
+                        title="同じ行のほかの列から値を計算します。空白を含む列名は [ ] で囲みます。使用できる関数: ABS, ROUND, MIN, MAX, IF"
+                        value={formulaText}
+                        onChange={(e) => setFormulaText(e.target.value)}
+                        onBlur={commitFormula}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                commitFormula();
+                            }
+                        }}
+                    />
+                    {formulaError && <div className="menu-note menu-error">{formulaError}</div>}
+                    <label className="menu-field">
+                        <span>集計行</span>
+                        <select
+                            value={summary ?? ''}
+                            onChange={(e) => onSummaryChange(e.target.value === '' ? null : e.target.value as SummaryFunction)}
+                        >
+                            <option value="">なし</option>
+                            {(Object.keys(SUMMARY_FUNCTION_LABELS) as SummaryFunction[]).map(fn => (
+                                <option key={fn} value={fn}>{SUMMARY_FUNCTION_LABELS[fn]}</option>
+                            ))}
+                        </select>
+                    </label>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ColumnMenu;
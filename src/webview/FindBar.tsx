@@ -0,0 +1,125 @@
+import React, { useEffect, useRef } from 'react';
+import type { FindOptions } from './findReplace';
+
+interface FindBarProps {
+    options: FindOptions;
+    replacement: string;
+    /** 一致したセルの数 */
+    matchCount: number;
+    /** 現在の一致の位置 (一致がない場合は -1) */
+    currentIndex: number;
+    /** 正規表現が正しくない場合のエラーメッセージ */
+    error: string | null;
+    /** アクティブなセルの列 (「選択中の列のみ」で使用) */
+    activeColumn: { index: number; label: string } | null;
+    onOptionsChange: (options: FindOptions) => void;
+    onReplacementChange: (replacement: string) => void;
+    onNext: () => void;
+    onPrevious: () => void;
+    onReplace: () => void;
+    onReplaceAll: () => void;
+    onClose: () => void;
+}
+
+// 検索オプションの切り替えボタン
+const OPTION_TOGGLES: { key: 'caseSensitive' | 'wholeCell' | 'regex'; label: string; title: string }[] = [
+    { key: 'caseSensitive', label: 'Aa', title: '大文字と小文字を区別する' },
+    { key: 'wholeCell', label: '[ab]', title: 'セル全体が一致' },
+    { key: 'regex', label: '.*', title: '正規表現を使用する' }
+];
+
+/**
+ * 検索・置換バー
+ *
+ * 検索欄で Enter を押すと次の一致、Shift + Enter で前の一致に移動します。Escape で閉じます。
+ */
+const FindBar: React.FC<FindBarProps> = ({
+    options, replacement, matchCount, currentIndex, error, activeColumn,
+    onOptionsChange, onReplacementChange, onNext, onPrevious, onReplace, onReplaceAll, onClose
+}) => {
+    const queryRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        queryRef.current?.focus();
+        queryRef.current?.select();
+    }, []);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // Keep the editor's own shortcuts (cell navigation, undo) from handling keys typed in the bar
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+        }
+    };
+
+    const status = error
+        ? error
+        : options.query === ''
+            ? ''
+            : matchCount === 0 ? '一致なし' : `${currentIndex + 1} / ${matchCount}`;
+
+    return (
+        <div className="find-bar" onKeyDown={handleKeyDown}>
+            <div className="find-row">
+                <input
+                    id="find-input"
+                    ref={queryRef}
+                    className={error ? 'invalid' : undefined}
+                    placeholder="検索"
+                    value={options.query}
+                    onChange={(e) => onOptionsChange({ ...options, query: e.target.value })}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            if (e.shiftKey) {
+                                onPrevious();
+                            } else {
+                                onNext();
+                            }
+                        }
+                    }}
+                />
+                {OPTION_TOGGLES.map(toggle => (
+                    <button
+                        key={toggle.key}
+                        className={`find-toggle${options[toggle.key] ? ' active' : ''}`}
+                        title={toggle.title}
+                        aria-pressed={options[toggle.key]}
+                        onClick={() => onOptionsChange({ ...options, [toggle.key]: !options[toggle.key] })}
+                    >{toggle.label}</button>
+                ))}
+                <span className="find-status">{status}</span>
+                <button onClick={onPrevious} disabled={matchCount === 0} title="前の一致 (Shift + Enter)">↑</button>
+                <button onClick={onNext} disabled={matchCount === 0} title="次の一致 (Enter)">↓</button>
+                <button onClick={onClose} title="閉じる (Escape)">×</button>
+            </div>
+            <div className="find-row">
+                <input
+                    placeholder="置換"
+                    value={replacement}
+                    onChange={(e) => onReplacementChange(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            onReplace();
+                        }
+                    }}
+                />
+                <button onClick={onReplace} disabled={matchCount === 0}>置換</button>
+                <button onClick={onReplaceAll} disabled={matchCount === 0}>すべて置換</button>
+                <label className="find-column" title={activeColumn ? undefined : 'セルを選択してください'}>
+                    <input
+                        type="checkbox"
+                        checked={options.column !== null}
+                        disabled={options.column === null && !activeColumn}
+                        onChange={(e) => onOptionsChange({ ...options, column: e.target.checked && activeColumn ? activeColumn.index : null })}
+                    />
+                    選択中の列のみ{activeColumn && options.column === null ? ` (${activeColumn.label})` : ''}
+                </label>
+            </div>
+        </div>
+    );
+};
+
+export default FindBar;
@@ -1,68 +1,320 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import type { ColumnAlignment } from '../markdownParser';
+import { EditHistory, HistoryEntry, TableSnapshot } from './history';
+import { toTsv, parseClipboardTable } from './clipboard';
+import { detectColumnType, sortTableRows, SortDirection } from '../tableSort';
+import ColumnMenu from './ColumnMenu';
+import CellPreview from './CellPreview';
+import FindBar from './FindBar';
+import { findMatches, replaceInCell, replaceAll, FindOptions, CellMatch } from './findReplace';
+import { parseInlineMarkdown, hasInlineMarkup, toggleInlineFormat, insertInlineLink, InlineFormat } from './inlineMarkdown';
+import type { ExportFormat } from '../formatConverter';
+import type { EditorSettings } from '../configuration';
+import type { TablePanelState, TableUiState } from '../tableEditorPanel';
+import { getDisplayWidth } from '../displayWidth';
+import { brToNewline, newlineToBr } from '../formatConverter';
+import { insertRow, deleteRow, duplicateRow as duplicateTableRow, insertColumn, deleteColumn, moveRow, moveColumn, getMovedIndex } from '../tableOperations';
+import { diffCells } from '../tablePatch';
+import {
+    TableMetadata, ColumnDefinitions, ColumnDefinition, SummaryFunction, BOOLEAN_VALUES, isValidCellValue, describeColumnDefinition,
+    serializeTableMetadata, getColumnDefinition, setColumnDefinition, renameColumnMetadata, removeColumnMetadata
+} from '../tableMetadata';
+import { applyTableFormulas, hasSummaryRow, parseFormula, validateFormula } from '../tableFormulas';
+import { getVirtualWindow, getRowOffset, DEFAULT_ROW_HEIGHT } from './virtualRows';
 
 interface TableEditorProps {
     initialData: string[][];
+    initialAlignments: ColumnAlignment[];
+    /** 列の種類・計算式などのメタデータ (テーブル直前のコメントから読み込んだもの) */
+    initialMetadata: TableMetadata;
+    initialSettings: EditorSettings;
+    /** パネルの状態 (前回のUIの状態を含む) */
+    panelState: TablePanelState;
 }
 
+// 書式のショートカット (Ctrl + キー)
+const FORMAT_SHORTCUTS: Record<string, InlineFormat> = {
+    b: 'bold',
+    i: 'italic',
+    k: 'link'
+};
+
+// ツールバーの書式ボタン
+const FORMAT_BUTTONS: { format: InlineFormat; label: string; title: string }[] = [
+    { format: 'bold', label: 'B', title: '太字 (Ctrl + B)' },
+    { format: 'italic', label: 'I', title: '斜体 (Ctrl + I)' },
+    { format: 'code', label: '</>', title: 'コード (テキストを選択して `)' },
+    { format: 'link', label: 'リンク', title: 'リンク (Ctrl + K)' }
+];
+
+// ヘッダーの配置切り替えボタン (左・中央・右)
+const ALIGNMENT_OPTIONS: { value: ColumnAlignment; label: string; title: string }[] = [
+    { value: 'left', label: '⇤', title: '左揃え' },
+    { value: 'center', label: '↔', title: '中央揃え' },
+    { value: 'right', label: '⇥', title: '右揃え' }
+];
+
+// 日付の入力欄で扱える値 (それ以外の日付の表記はテキストのまま編集する)
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
 /**
  * テーブル編集コンポーネント (ExcelライクなUI)
  * 
  * 主な機能:
  * - データの表示と編集
  * - キーボードショートカットによる操作 (Ctrl+Enterで行追加、Shift+Alt+Downで行複製など)
+ * - 元に戻す / やり直し (Ctrl+Z / Ctrl+Y)
+ * - 範囲選択 (Shift+クリック / Shift+矢印) とTSV形式でのコピー・貼り付け
+ * - 列ヘッダーのメニューによる並べ替えとフィルター (フィルターはMarkdownに反映しない)
  * - VS Code拡張機能とのデータ同期
  */
-const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
+const TableEditor: React.FC<TableEditorProps> = ({ initialData, initialAlignments, initialMetadata, initialSettings, panelState }) => {
     // データがない場合は空のテーブルで初期化
     const [data, setData] = useState<string[][]>(initialData.length > 0 ? initialData : [['', ''], ['', '']]);
 
+    // 列ごとの配置 (区切り行の :--- / ---: / :---: に対応)
+    const [alignments, setAlignments] = useState<ColumnAlignment[]>(
+        initialData.length > 0 ? initialAlignments : ['none', 'none']
+    );
+
+    // 列ごとの種類 (数値・日付・選択肢など) と計算式。ヘッダーの文字列をキーにしてテーブル直前のコメントに保存します
+    const [metadata, setMetadata] = useState<TableMetadata>(initialMetadata || {});
+    const columns: ColumnDefinitions = metadata.columns || {};
+    // 集計行 (テーブルの最後の行) のインデックス。集計行がない場合は -1
+    const summaryRowIndex = hasSummaryRow(metadata) && data.length >= 2 ? data.length - 1 : -1;
+
+    // 拡張機能の設定 (VS Code側で設定が変更されると更新される)
+    const [settings, setSettings] = useState<EditorSettings>(initialSettings);
+
     // ツールバー操作のためにアクティブなセルを追跡
     const [activeCell, setActiveCell] = useState<{ row: number; col: number } | null>(null);
 
-    // 列幅の管理 (各列の幅を保持)
-    const [colWidths, setColWidths] = useState<number[]>([]);
+    // 範囲選択の終点 (アクティブなセルから終点までの矩形が選択範囲になる)
+    const [selectionEnd, setSelectionEnd] = useState<{ row: number; col: number } | null>(null);
+
+    // 列幅の管理 (各列の幅を保持)。保存されていた列幅は列数が変わっていない場合のみ使います
+    const [colWidths, setColWidths] = useState<number[]>(() => {
+        const saved = panelState.ui.columnWidths;
+        return saved && initialData.length > 0 && saved.length === initialData[0].length ? saved : [];
+    });
     
     // リサイズ中の状態
     const [isResizing, setIsResizing] = useState<{ index: number; startX: number; startWidth: number } | null>(null);
 
-    // 1列目を行番号として扱うかどうか
-    const [isRowIndexColumn, setIsRowIndexColumn] = useState<boolean>(false);
+    // 1列目を行番号として扱うかどうか (初期値は設定 markdownTableEditor.rowNumberColumn)
+    const [isRowIndexColumn, setIsRowIndexColumn] = useState<boolean>(panelState.ui.rowNumberColumn ?? initialSettings.rowNumberColumn);
 
-    // データ変更時にVS Codeへメッセージを送信 (反映)
-    // パフォーマンスのためにデバウンス処理を入れることも検討できますが、
-    // タイピングの即時反映のために現状は300msの遅延で行っています。
-    useEffect(() => {
-        const timer = setTimeout(() => {
-             // @ts-ignore
-            if (typeof vscode !== 'undefined') {
-                 // @ts-ignore
+    // CSV / TSV ファイルの編集中かどうか (配置や列の設定はファイルに保存できないため表示しません)
+    const isDelimitedFile = panelState.documentKind === 'delimited';
+
+    // メニューを開いている列
+    const [openMenuColumn, setOpenMenuColumn] = useState<number | null>(null);
+
+    // 列ごとのフィルター文字列 (一致しない行を一時的に非表示にする。Markdownには反映しない)
+    const [filters, setFilters] = useState<Record<number, string>>({});
+
+    // 検索・置換バーを表示しているかどうかと、検索の条件
+    const [isFindOpen, setIsFindOpen] = useState<boolean>(false);
+    const [findOptions, setFindOptions] = useState<FindOptions>({ query: '', caseSensitive: false, wholeCell: false, regex: false, column: null });
+    const [replaceText, setReplaceText] = useState<string>('');
+
+    // 現在の一致の位置 (一致の一覧に対するインデックス)
+    const [findIndex, setFindIndex] = useState<number>(0);
+
+    // ドラッグ中の行・列と、ドロップ先 (over の前または後ろ)
+    const [dragState, setDragState] = useState<{ type: 'row' | 'column'; from: number; over: number | null; after: boolean } | null>(null);
+
+    // ドキュメント内でテーブルを見失ったかどうか (以降の編集は反映されない)
+    const [isTableLost, setIsTableLost] = useState<boolean>(false);
+
+    // 編集履歴 (元に戻す / やり直し)
+    const historyRef = useRef(new EditHistory());
+
+    // 送信待ちの更新 (セル入力中は設定 markdownTableEditor.syncDelay の時間だけ待ってからまとめて送信する)
+    const pendingUpdate = useRef<{ timer: number; snapshot: TableSnapshot; entry: HistoryEntry | null } | null>(null);
+
+    // 最後にVS Codeへ送信した操作 (同じ操作の続きは1つのドキュメント編集にまとめる)
+    const lastPostedEntry = useRef<HistoryEntry | null>(null);
+
+    // VS Code側のテーブルの状態 (最後に送信または受信したもの)。次に送信するセルの変更の基準にします
+    const syncedSnapshot = useRef<TableSnapshot | null>(null);
+
+    // 行の仮想化: 描画した行の高さ (行のインデックスごと) と、表示領域の位置
+    const tbodyRef = useRef<HTMLTableSectionElement>(null);
+    const rowHeights = useRef(new Map<number, number>());
+    const [viewport, setViewport] = useState<{ top: number; height: number }>({ top: 0, height: window.innerHeight });
+    const [, setMeasuredVersion] = useState<number>(0);
+
+    // 描画後にフォーカスを移動するセル (描画されていない行はスクロールしてから移動する)
+    const focusRequest = useRef<{ row: number; col: number } | null>(null);
+    const [, setFocusVersion] = useState<number>(0);
+
+    /**
+     * テーブルの状態をVS Codeへ送信し、Markdownに反映します。
+     * セルの内容だけが変わった場合は変更したセルだけを、行・列や配置が変わった場合はテーブル全体を送信します。
+     * 同じ操作 (同じセルへの連続入力) の続きであれば、VS Code側で直前の編集にまとめられます。
+     */
+    const postUpdate = (snapshot: TableSnapshot, entry: HistoryEntry | null) => {
+        if (isTableLost) return;
+        const mergeWithPrevious = entry !== null && lastPostedEntry.current === entry;
+        const synced = syncedSnapshot.current;
+        const changes = synced && isSameAlignments(synced.alignments, snapshot.alignments) && synced.metadata === snapshot.metadata
+            ? diffCells(synced.data, snapshot.data)
+            : null;
+        if (typeof vscode !== 'undefined') {
+            if (changes) {
+                if (changes.length > 0) {
+                    vscode.postMessage({ command: 'updateCells', changes, mergeWithPrevious });
+                }
+            } else {
                 vscode.postMessage({
                     command: 'updateTable',
-                    data: data
+                    data: snapshot.data,
+                    alignments: snapshot.alignments,
+                    metadata: snapshot.metadata,
+                    mergeWithPrevious
                 });
             }
-        }, 300);
-        return () => clearTimeout(timer);
-    }, [data]);
+        }
+        syncedSnapshot.current = snapshot;
+        lastPostedEntry.current = entry;
+    };
+
+    /**
+     * 送信待ちの更新があれば、すぐに送信します。
+     */
+    const flushPendingUpdate = () => {
+        const pending = pendingUpdate.current;
+        if (pending) {
+            clearTimeout(pending.timer);
+            pendingUpdate.current = null;
+            postUpdate(pending.snapshot, pending.entry);
+        }
+    };
+
+    /**
+     * 更新の送信を予約します。別の操作の更新が送信待ちの場合は、先にそちらを送信します。
+     * @param delay 送信までの待ち時間 (0ならすぐに送信)
+     */
+    const scheduleUpdate = (snapshot: TableSnapshot, entry: HistoryEntry | null, delay: number) => {
+        const pending = pendingUpdate.current;
+        if (pending && pending.entry === entry) {
+            clearTimeout(pending.timer);
+            pendingUpdate.current = null;
+        } else {
+            flushPendingUpdate();
+        }
+
+        if (delay === 0) {
+            postUpdate(snapshot, entry);
+            return;
+        }
+        const timer = window.setTimeout(() => {
+            pendingUpdate.current = null;
+            postUpdate(snapshot, entry);
+        }, delay);
+        pendingUpdate.current = { timer, snapshot, entry };
+    };
+
+    /**
+     * 1つの論理操作としてテーブルを変更します。
+     * 履歴に記録し、Markdownへの反映を予約します。
+     * @param label 操作名
+     * @param next 変更後の状態 (省略した項目は現在の状態のまま)
+     * @param mergeKey 同じキーの連続した操作を1つにまとめる場合に指定 (セル入力など)
+     */
+    const applyEdit = (label: string, next: Partial<TableSnapshot>, mergeKey?: string) => {
+        const nextData = next.data ?? data;
+        const nextMetadata = next.metadata ?? metadata;
+        const after: TableSnapshot = {
+            // 行番号列が有効な場合は、操作のたびに番号を振り直します
+            // 計算列・集計行の値も、操作のたびに計算し直します
+            data: applyTableFormulas(isRowIndexColumn ? withRowNumbers(nextData) : nextData, nextMetadata),
+            alignments: next.alignments ?? alignments,
+            metadata: nextMetadata
+        };
+        const entry = historyRef.current.record(label, { data, alignments, metadata }, after, mergeKey);
+        setData(after.data);
+        setAlignments(after.alignments);
+        setMetadata(after.metadata);
+        // セルの入力は少し待ってから、それ以外の操作は即座に反映します
+        scheduleUpdate(after, entry, mergeKey ? settings.syncDelay : 0);
+    };
+
+    /**
+     * 表示中のテーブルを指定した形式でエクスポートします (保存先はVS Code側で選択)。
+     */
+    const requestExport = (format: ExportFormat) => {
+        if (typeof vscode !== 'undefined') {
+            vscode.postMessage({ command: 'exportTable', format, data, alignments });
+        }
+    };
+
+    /**
+     * 直前の操作を取り消します。
+     */
+    const undo = () => {
+        flushPendingUpdate();
+        const entry = historyRef.current.undo();
+        if (!entry) return;
+        setData(entry.before.data);
+        setAlignments(entry.before.alignments);
+        setMetadata(entry.before.metadata);
+        scheduleUpdate(entry.before, null, 0);
+    };
+
+    /**
+     * 取り消した操作をやり直します。
+     */
+    const redo = () => {
+        flushPendingUpdate();
+        const entry = historyRef.current.redo();
+        if (!entry) return;
+        setData(entry.after.data);
+        setAlignments(entry.after.alignments);
+        setMetadata(entry.after.metadata);
+        scheduleUpdate(entry.after, null, 0);
+    };
+
+    // 前回アクティブだったセルにフォーカスを戻します (初回のみ)
+    useEffect(() => {
+        const saved = panelState.ui.activeCell;
+        if (saved && saved.row < data.length && saved.col < data[0].length) {
+            focusCell(saved.row, saved.col);
+        }
+    }, []);
+
+    // UIの状態を保存します (タブの切り替えやウィンドウの再読み込み後に復元するため)
+    useEffect(() => {
+        if (colWidths.length === 0 || typeof vscode === 'undefined') return;
+        const ui: TableUiState = { columnWidths: colWidths, rowNumberColumn: isRowIndexColumn, activeCell };
+        const header = data[0];
+        vscode.setState({ ...panelState, header, ui });
+        // 列幅のドラッグ中に何度も送らないよう、少し待ってからワークスペースに保存します
+        const timer = window.setTimeout(() => vscode.postMessage({ command: 'saveUiState', header, ui }), 500);
+        return () => window.clearTimeout(timer);
+    }, [colWidths, isRowIndexColumn, activeCell, data[0]]);
 
     // データ初期化時に列幅の初期値を設定 (初回のみ)
     useEffect(() => {
         if (initialData.length > 0 && colWidths.length === 0) {
             // 文字数ベースで簡易的に計算、または固定値
-            setColWidths(new Array(initialData[0].length).fill(150));
+            setColWidths(new Array(initialData[0].length).fill(settings.defaultColumnWidth));
         } else if (data.length > 0 && data[0].length !== colWidths.length) {
             // 列数が増減した場合の同期
             const newWidths = [...colWidths];
             if (data[0].length > colWidths.length) {
                 // 増えた分をデフォルト幅で追加
                 for (let i = colWidths.length; i < data[0].length; i++) {
-                    newWidths.push(150);
+                    newWidths.push(settings.defaultColumnWidth);
                 }
             } else {
                 // 減った分を削除
                 newWidths.length = data[0].length;
             }
             setColWidths(newWidths);
+            // 列の位置がずれるため、フィルターは解除します
+            setFilters({});
         }
     }, [data[0].length]);
 
@@ -102,42 +354,46 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
             switch (message.command) {
                 case 'syncData': 
                     // Receive data from VS Code (Markdown change)
-                    const newData = message.data;
+                    const newData: string[][] = message.data;
+                    const receivedMetadata: TableMetadata = message.metadata || {};
+                    // メタデータが変わっていなければ同じオブジェクトを使い続けます (セル単位の送信の判定に使うため)
+                    const isMetadataChanged = serializeTableMetadata(receivedMetadata) !== serializeTableMetadata(metadata);
+                    const newMetadata = isMetadataChanged ? receivedMetadata : metadata;
+                    syncedSnapshot.current = { data: newData, alignments: message.alignments, metadata: newMetadata };
                     // Check if data is actually different to avoid loops/unnecessary renders
-                    if (JSON.stringify(newData) !== JSON.stringify(data)) {
+                    const changes = diffCells(data, newData);
+                    if (!changes || changes.length > 0 || !isSameAlignments(message.alignments, alignments) || isMetadataChanged) {
                         setData(newData);
+                        setAlignments(message.alignments);
+                        setMetadata(newMetadata);
+                        // Markdown側で直接編集された内容を上書きしないよう、履歴は破棄します
+                        historyRef.current.clear();
                     }
                     break;
+                case 'tableLost':
+                    setIsTableLost(true);
+                    break;
+                case 'updateSettings':
+                    setSettings(message.settings);
+                    break;
             }
         };
 
         window.addEventListener('message', handleMessage);
         return () => window.removeEventListener('message', handleMessage);
-    }, [data]); // Depend on data for comparison
+    }, [data, alignments, metadata]); // Depend on data for comparison
 
-    // 行番号列の設定が変更された場合や、行数が変わった場合に番号を更新
-    useEffect(() => {
-        if (isRowIndexColumn) {
-            updateRowNumbers();
-        }
-    }, [isRowIndexColumn, data.length]);
-
-    const updateRowNumbers = () => {
-        const newData = data.map((row, index) => {
-            // ヘッダー行(index 0)の場合はスキップするか、特別な扱いにしたいが
-            // 現状の実装では data[0] はヘッダーとして扱われているため、
-            // データ行は index 1 から始まる。
-            // しかし data は全データを含むので、index 0 はヘッダー。
-            // ここではデータ行(1以降)の1列目を更新する
-            if (index === 0) return row; // ヘッダーは変更しない（または空にする？）
-            const newRow = [...row];
-            newRow[0] = String(index); // 行番号 (1-based index)
-            return newRow;
-        });
-        
-        // 変更がある場合のみ更新 (無限ループ防止)
-        if (JSON.stringify(newData) !== JSON.stringify(data)) {
-            setData(newData);
+    /**
+     * 行番号列の設定を切り替えます。有効にした場合は番号を振り直します。
+     */
+    const toggleRowIndexColumn = (enabled: boolean) => {
+        setIsRowIndexColumn(enabled);
+        if (enabled) {
+            const numbered = withRowNumbers(data);
+            // 変更がある場合のみ更新 (番号が変わらない行は同じ配列のまま)
+            if (numbered.some((row, index) => row !== data[index])) {
+                applyEdit('行番号の振り直し', { data: numbered });
+            }
         }
     };
 
@@ -147,15 +403,18 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
      */
 
     const handleCellChange = (rowIndex: number, colIndex: number, value: string) => {
-        // 行番号列が有効な場合、1列目は編集不可
-        if (isRowIndexColumn && colIndex === 0 && rowIndex > 0) {
+        // 行番号列が有効な場合、1列目は編集不可 (計算式で求めるセルも同様)
+        if ((isRowIndexColumn && colIndex === 0 && rowIndex > 0) || isComputedCell(rowIndex, colIndex)) {
             return;
         }
         // Save as <br> internally
-        const newValue = value.replace(/\n/g, '<br>');
+        const newValue = newlineToBr(value, settings.lineBreak);
         const newData = data.map((row) => [...row]);
         newData[rowIndex][colIndex] = newValue;
-        setData(newData);
+        // ヘッダーを変更した場合は、列の種類や計算式を新しいヘッダーに付け替えます
+        const nextMetadata = rowIndex === 0 ? renameColumnMetadata(metadata, data[0][colIndex], newValue) : metadata;
+        // 同じセルへの連続した入力は1つの操作にまとめます
+        applyEdit('セルの編集', { data: newData, metadata: nextMetadata }, `cell-${rowIndex}-${colIndex}`);
     };
 
     /**
@@ -164,7 +423,226 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
      */
 
     const handleFocus = (rowIndex: number, colIndex: number) => {
+        historyRef.current.seal();
         setActiveCell({ row: rowIndex, col: colIndex });
+        setSelectionEnd(null);
+    };
+
+    /**
+     * セル内の選択中のテキストに書式 (太字・斜体・コード・リンク) を適用します。
+     * 太字・斜体・コードは、既に適用されている場合は解除します。
+     */
+    const applyInlineFormat = (rowIndex: number, colIndex: number, format: InlineFormat) => {
+        const input = document.getElementById(`cell-${rowIndex}-${colIndex}`) as HTMLInputElement | HTMLTextAreaElement | null;
+        // テキストを選択できない入力欄 (選択肢・日付・チェックボックス) では何もしません
+        if (!input || input.readOnly || typeof input.selectionStart !== 'number') return;
+        const start = input.selectionStart ?? input.value.length;
+        const end = input.selectionEnd ?? start;
+        const result = format === 'link'
+            ? insertInlineLink(input.value, start, end)
+            : toggleInlineFormat(input.value, start, end, format);
+
+        const newData = data.map((row) => [...row]);
+        newData[rowIndex][colIndex] = newlineToBr(result.value, settings.lineBreak);
+        applyEdit('書式', { data: newData });
+        // 再描画でカーソルが末尾に移動するため、描画後に選択範囲を戻します
+        setTimeout(() => {
+            input.focus();
+            input.setSelectionRange(result.start, result.end);
+        }, 0);
+    };
+
+    /**
+     * セルのリンクを開きます (VS Code側でブラウザまたはエディタを開く)。
+     */
+    const openLink = (href: string) => {
+        if (typeof vscode !== 'undefined') {
+            vscode.postMessage({ command: 'openLink', href });
+        }
+    };
+
+    /**
+     * 書式を含むセルのプレビューを返します。書式のないセルはプレビューを重ねません。
+     */
+    const renderCellPreview = (cell: string, colIndex: number) => {
+        if (!hasInlineMarkup(cell)) return null;
+        return <CellPreview nodes={parseInlineMarkdown(cell)} textAlign={toTextAlign(alignments[colIndex])} onOpenLink={openLink} />;
+    };
+
+    /**
+     * データ行のセルの入力欄を返します。列の種類に応じて、選択肢・日付・チェックボックスの入力欄を使います。
+     * 値が列の種類に合っていない場合は、値を失わないようにテキストの入力欄を使います。
+     */
+    const renderCellEditor = (rowIndex: number, colIndex: number, cell: string) => {
+        const isRowNumberCell = isRowIndexColumn && colIndex === 0;
+        const isReadOnly = isRowNumberCell || isComputedCell(rowIndex, colIndex);
+        // 集計行と計算したセルは、列の種類によらずテキストとして表示します
+        const definition = isReadOnly || rowIndex === summaryRowIndex ? undefined : getColumnDefinition(columns, data[0][colIndex]);
+        const value = cell.trim();
+        const commonProps = {
+            id: `cell-${rowIndex}-${colIndex}`,
+            onFocus: () => handleFocus(rowIndex, colIndex),
+            onMouseDown: (e: React.MouseEvent) => handleCellMouseDown(e, rowIndex, colIndex),
+            onKeyDown: (e: React.KeyboardEvent) => handleKeyDown(e, rowIndex, colIndex)
+        };
+
+        if (definition?.type === 'enum') {
+            const values = definition.values || [];
+            return (
+                <select
+                    {...commonProps}
+                    className="typed-editor"
+                    value={value}
+                    onChange={(e) => handleCellChange(rowIndex, colIndex, e.target.value)}
+                >
+                    <option value=""></option>
+                    {values.map(option => <option key={option} value={option}>{option}</option>)}
+                    {value !== '' && !values.includes(value) && <option value={value}>{value}</option>}
+                </select>
+            );
+        }
+        if (definition?.type === 'date' && (value === '' || ISO_DATE_PATTERN.test(value))) {
+            return (
+                <input
+                    {...commonProps}
+                    type="date"
+                    className="typed-editor"
+                    value={value}
+                    onChange={(e) => handleCellChange(rowIndex, colIndex, e.target.value)}
+                />
+            );
+        }
+        if (definition?.type === 'boolean' && isValidCellValue(value, definition)) {
+            return (
+                <input
+                    {...commonProps}
+                    type="checkbox"
+                    className="typed-editor"
+                    checked={value === BOOLEAN_VALUES.checked}
+                    onChange={(e) => handleCellChange(
+                        rowIndex, colIndex, e.target.checked ? BOOLEAN_VALUES.checked : BOOLEAN_VALUES.unchecked
+                    )}
+                />
+            );
+        }
+        return (
+            <>
+                <textarea
+                    {...commonProps}
+                    className={hasInlineMarkup(cell) ? 'has-preview' : undefined}
+                    value={brToNewline(cell)}
+                    onChange={(e) => handleCellChange(rowIndex, colIndex, e.target.value)}
+                    readOnly={isReadOnly}
+                    style={{
+                        textAlign: toTextAlign(alignments[colIndex]),
+                        ...(isReadOnly ? { backgroundColor: 'var(--vscode-editor-inactiveSelectionBackground)', cursor: 'default' } : {})
+                    }}
+                    rows={1}
+                />
+                {renderCellPreview(cell, colIndex)}
+            </>
+        );
+    };
+
+    /**
+     * 現在の選択範囲 (矩形) を返します。
+     */
+    const getSelectionRange = () => {
+        if (!activeCell) return null;
+        const end = selectionEnd || activeCell;
+        return {
+            top: Math.min(activeCell.row, end.row),
+            bottom: Math.max(activeCell.row, end.row),
+            left: Math.min(activeCell.col, end.col),
+            right: Math.max(activeCell.col, end.col)
+        };
+    };
+
+    const selectionRange = getSelectionRange();
+    const isMultiCellSelection = !!selectionRange
+        && (selectionRange.top !== selectionRange.bottom || selectionRange.left !== selectionRange.right);
+
+    const isCellSelected = (rowIndex: number, colIndex: number) => isMultiCellSelection
+        && rowIndex >= selectionRange!.top && rowIndex <= selectionRange!.bottom
+        && colIndex >= selectionRange!.left && colIndex <= selectionRange!.right;
+
+    /**
+     * Shift+クリックで選択範囲を広げます。フォーカスはアクティブなセルに残します。
+     */
+    const handleCellMouseDown = (e: React.MouseEvent, rowIndex: number, colIndex: number) => {
+        if (e.shiftKey && activeCell) {
+            e.preventDefault();
+            setSelectionEnd({ row: rowIndex, col: colIndex });
+        }
+    };
+
+    /**
+     * 選択範囲の終点を移動します (Shift+矢印)。
+     */
+    const extendSelection = (rowDelta: number, colDelta: number) => {
+        if (!activeCell) return;
+        const end = selectionEnd || activeCell;
+        setSelectionEnd({
+            row: Math.min(Math.max(end.row + rowDelta, 0), data.length - 1),
+            col: Math.min(Math.max(end.col + colDelta, 0), data[0].length - 1)
+        });
+    };
+
+    /**
+     * 選択範囲のセルを空にします。
+     */
+    const clearSelectedCells = () => {
+        if (!selectionRange) return;
+        const newData = data.map((row, r) => row.map((cell, c) => isCellSelected(r, c) ? '' : cell));
+        applyEdit('セルのクリア', { data: newData });
+    };
+
+    /**
+     * 選択範囲をTSVとしてコピーします (ExcelやGoogle スプレッドシートに貼り付け可能)。
+     * 1つのセル内でのテキストのコピーは標準の動作に任せます。
+     */
+    const handleCopy = (e: React.ClipboardEvent) => {
+        if (!isMultiCellSelection || !selectionRange) return;
+        e.preventDefault();
+        const cells = data
+            .slice(selectionRange.top, selectionRange.bottom + 1)
+            .map(row => row.slice(selectionRange.left, selectionRange.right + 1));
+        e.clipboardData.setData('text/plain', toTsv(cells));
+    };
+
+    /**
+     * TSV/CSVの貼り付けを処理します。
+     * アクティブなセル (選択範囲の左上) を起点に貼り付け、足りない行や列は追加します。
+     * 範囲選択中に1つの値を貼り付けた場合は、選択範囲すべてをその値で埋めます。
+     */
+    const handlePaste = (e: React.ClipboardEvent) => {
+        if (!selectionRange) return;
+        const text = e.clipboardData.getData('text/plain');
+        let block = parseClipboardTable(text, settings.lineBreak);
+        if (!block) {
+            if (!isMultiCellSelection) return; // 1つのセルへの貼り付けは標準の動作に任せる
+            const value = newlineToBr(text, settings.lineBreak);
+            const height = selectionRange.bottom - selectionRange.top + 1;
+            const width = selectionRange.right - selectionRange.left + 1;
+            block = Array.from({ length: height }, () => new Array(width).fill(value));
+        }
+        e.preventDefault();
+
+        const { top, left } = selectionRange;
+        const rowCount = Math.max(data.length, top + block.length);
+        const colCount = Math.max(data[0].length, left + block[0].length);
+        const newData = Array.from({ length: rowCount }, (_, r) => {
+            const row = [...(data[r] || []), ...new Array(colCount - (data[r] || []).length).fill('')];
+            const source = block![r - top];
+            if (source) {
+                source.forEach((value, c) => { row[left + c] = value; });
+            }
+            return row;
+        });
+        const newAlignments = [...alignments, ...new Array(colCount - alignments.length).fill('none')];
+
+        applyEdit('貼り付け', { data: newData, alignments: newAlignments });
+        setSelectionEnd({ row: top + block.length - 1, col: left + block[0].length - 1 });
     };
 
     /**
@@ -172,21 +650,13 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
      * @param indexOffset アクティブ行からのオフセット (1なら下、0なら上など)
      */
     const addRow = (indexOffset: number = 1) => { // デフォルトは下に追加 (offset 1)
-        const insertIndex = activeCell ? activeCell.row + indexOffset : data.length;
-        const newRow = new Array(data[0].length).fill('');
-        const newData = [...data];
-        // Clamp index
-        const actualIndex = Math.min(Math.max(insertIndex, 0), newData.length);
-        
-        // 行番号列が有効な場合、新しい行の1列目に番号をセット
-        if (isRowIndexColumn) {
-            // ここでは空文字を入れておき、useEffectで番号が再計算されるのを待つか、
-            // 即座に計算する。useEffectにお任せするのがシンプル。
-           newRow[0] = ''; 
-        }
-
-        newData.splice(actualIndex, 0, newRow);
-        setData(newData);
+        const insertIndex = Math.min(
+            activeCell ? activeCell.row + indexOffset : data.length,
+            // 集計行は常に最後の行にします
+            summaryRowIndex === -1 ? data.length : summaryRowIndex
+        );
+        // 行番号列が有効な場合、新しい行の1列目の番号は applyEdit で振り直されます
+        applyEdit('行の追加', { data: insertRow({ data, alignments }, insertIndex).data });
     };
 
     /**
@@ -195,22 +665,17 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
     const addColumn = (indexOffset: number = 1) => { // デフォルトは右に追加 (offset 1)
         // アクティブなセルがない場合は末尾に追加
         const insertIndex = activeCell ? activeCell.col + indexOffset : data[0].length;
-        const newData = data.map(row => {
-             const newRow = [...row];
-             const actualIndex = Math.min(Math.max(insertIndex, 0), newRow.length);
-             newRow.splice(actualIndex, 0, '');
-             return newRow;
-        });
+        const next = insertColumn({ data, alignments }, insertIndex);
         
         // Update column widths
         setColWidths(prev => {
             const newWidths = [...prev];
             const actualIndex = Math.min(Math.max(insertIndex, 0), newWidths.length);
-            newWidths.splice(actualIndex, 0, 150);
+            newWidths.splice(actualIndex, 0, settings.defaultColumnWidth);
             return newWidths;
         });
 
-        setData(newData);
+        applyEdit('列の追加', next);
     };
 
     /**
@@ -219,9 +684,9 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
      */
 
     const removeRow = (index: number) => {
-        if (data.length <= 1) return;
-        const newData = data.filter((_, i) => i !== index);
-        setData(newData);
+        // 集計行は、集計をすべて解除すると削除されます
+        if (data.length <= 1 || index === summaryRowIndex) return;
+        applyEdit('行の削除', { data: deleteRow({ data, alignments }, index).data });
     };
 
     /**
@@ -231,38 +696,495 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
 
     const removeColumn = (index: number) => {
         if (data[0].length <= 1) return;
-        const newData = data.map(row => row.filter((_, i) => i !== index));
-        setData(newData);
+        const next = deleteColumn({ data, alignments }, index);
+        // 同じヘッダーの列が残っていなければ、列の種類や計算式も削除します
+        const header = data[0][index];
+        const nextMetadata = next.data[0].includes(header) ? metadata : removeColumnMetadata(metadata, header);
+        applyEdit('列の削除', { ...next, metadata: nextMetadata });
+    };
+
+    /**
+     * 列の配置を切り替えます。
+     * 既に選択されている配置を再度選んだ場合は配置指定なしに戻します。
+     */
+    const toggleAlignment = (index: number, alignment: ColumnAlignment) => {
+        const newAlignments = [...alignments];
+        newAlignments[index] = alignments[index] === alignment ? 'none' : alignment;
+        applyEdit('列の配置', { alignments: newAlignments });
     };
 
     /**
      * 指定した行を複製して、その直下に挿入します。
      */
     const duplicateRow = (rowIndex: number) => {
-        // 現在の行データをコピー
-        const newRow = [...data[rowIndex]];
-        const newData = [...data];
-        // Insert it below the current row
-        newData.splice(rowIndex + 1, 0, newRow);
-        setData(newData);
+        applyEdit('行の複製', { data: duplicateTableRow({ data, alignments }, rowIndex).data });
     };
 
     /**
-     * 特定のセルにフォーカスを移動し、テキストを選択状態にします。
+     * データ行を移動します。アクティブなセルは移動した行に追従します。
+     * 行番号列が有効な場合、番号は applyEdit で振り直されます。
+     * @param to 移動先 (移動後のインデックス)
      */
-    const focusCell = (rowIndex: number, colIndex: number) => {
-        // レンダリング完了を待つためにsetTimeoutを使用
-        setTimeout(() => {
-            const el = document.getElementById(`cell-${rowIndex}-${colIndex}`) as HTMLInputElement | HTMLTextAreaElement;
-            if (el) {
-                el.focus();
-                // Select text for easier editing
-                el.select();
-                setActiveCell({ row: rowIndex, col: colIndex });
+    const moveRowTo = (from: number, to: number) => {
+        if (summaryRowIndex !== -1 && (from === summaryRowIndex || to === summaryRowIndex)) return;
+        const next = moveRow({ data, alignments }, from, to);
+        if (next.data === data) return;
+        // 移動した行は同じ配列のままなので、参照から移動後の位置を求めます
+        const target = next.data.indexOf(data[from]);
+        applyEdit('行の移動', { data: next.data });
+        setSelectionEnd(null);
+        if (activeCell) {
+            focusCell(getMovedIndex(activeCell.row, from, target), activeCell.col);
+        }
+    };
+
+    /**
+     * 列を移動します。列幅・フィルター・アクティブなセルも移動した列に追従します。
+     * 行番号列が有効な場合、1列目は移動できません。
+     * @param to 移動先 (移動後のインデックス)
+     */
+    const moveColumnTo = (from: number, to: number) => {
+        if (isRowIndexColumn && (from === 0 || to === 0)) return;
+        const next = moveColumn({ data, alignments }, from, to);
+        if (next.data === data) return;
+        const target = Math.min(Math.max(to, 0), data[0].length - 1);
+        const follow = (index: number) => getMovedIndex(index, from, target);
+
+        setColWidths(prev => prev.map((_, index) => prev[getMovedIndex(index, target, from)]));
+        setFilters(prev => Object.fromEntries(Object.entries(prev).map(([col, text]) => [follow(Number(col)), text])));
+        setFindOptions(prev => prev.column === null ? prev : { ...prev, column: follow(prev.column) });
+        setOpenMenuColumn(null);
+        applyEdit('列の移動', next);
+        setSelectionEnd(null);
+        if (activeCell) {
+            focusCell(activeCell.row, follow(activeCell.col));
+        }
+    };
+
+    /**
+     * ドラッグ中の行・列の上にポインターがあるときに、ドロップ先を更新します。
+     * @param after ポインターが行・列の後ろ半分にあるかどうか
+     */
+    const handleDragOver = (e: React.DragEvent, type: 'row' | 'column', index: number, after: boolean) => {
+        if (!dragState || dragState.type !== type) return;
+        // 行番号列の前には列を移動できません
+        if (type === 'column' && isRowIndexColumn && index === 0 && !after) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        if (dragState.over !== index || dragState.after !== after) {
+            setDragState({ ...dragState, over: index, after });
+        }
+    };
+
+    /**
+     * ドロップ先に行・列を移動します。
+     */
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        if (dragState && dragState.over !== null) {
+            const to = getDropIndex(dragState.from, dragState.over, dragState.after);
+            if (dragState.type === 'row') {
+                moveRowTo(dragState.from, to);
+            } else {
+                moveColumnTo(dragState.from, to);
+            }
+        }
+        setDragState(null);
+    };
+
+    /**
+     * 行・列のドラッグを開始します。
+     */
+    const startDrag = (e: React.DragEvent, type: 'row' | 'column', index: number) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', String(index));
+        setDragState({ type, from: index, over: null, after: false });
+    };
+
+    /**
+     * ドラッグ中の行・列とドロップ先を示す class 名を返します。
+     */
+    const getDragClassName = (type: 'row' | 'column', index: number) => {
+        if (!dragState || dragState.type !== type) return undefined;
+        if (dragState.over === index) return dragState.after ? 'drop-after' : 'drop-before';
+        return dragState.from === index ? 'dragging' : undefined;
+    };
+
+    /**
+     * 指定した列でデータ行を並べ替えます。ヘッダー行は固定です。
+     * テキストは表示言語に応じた順序で並べ替えます。
+     */
+    const sortRows = (colIndex: number, direction: SortDirection) => {
+        // 集計行はテーブルの最後に残します
+        const summary = summaryRowIndex === -1 ? [] : [data[summaryRowIndex]];
+        const rows = data.slice(0, data.length - summary.length);
+        applyEdit('並べ替え', { data: [...sortTableRows(rows, colIndex, direction, navigator.language), ...summary] });
+        setOpenMenuColumn(null);
+    };
+
+    /**
+     * 列の種類を設定します。ヘッダーの文字列をキーにして、テーブル直前のコメントに保存されます。
+     * @param definition 新しい定義 (null の場合はテキストの列に戻します)
+     */
+    const setColumnType = (colIndex: number, definition: ColumnDefinition | null) => {
+        applyEdit('列の種類', { metadata: { ...metadata, columns: setColumnDefinition(columns, data[0][colIndex], definition) } });
+    };
+
+    /**
+     * 列の計算式を設定します。計算式のある列は、同じ行のほかの列から値を計算する列になります。
+     * @param expression 計算式 (空の場合は計算式を解除し、計算した値はそのまま残します)
+     */
+    const setColumnFormula = (colIndex: number, expression: string) => {
+        const formulas = { ...metadata.formulas };
+        if (expression.trim() === '') {
+            delete formulas[data[0][colIndex]];
+        } else {
+            formulas[data[0][colIndex]] = expression.trim();
+        }
+        applyEdit('計算式', { metadata: { ...metadata, formulas } });
+    };
+
+    /**
+     * 列の集計方法を設定します。最初の集計を設定すると集計行を追加し、すべて解除すると集計行を削除します。
+     * @param fn 集計方法 (null の場合はその列の集計を解除します)
+     */
+    const setColumnSummary = (colIndex: number, fn: SummaryFunction | null) => {
+        const summary = { ...metadata.summary };
+        if (fn) {
+            summary[data[0][colIndex]] = fn;
+        } else {
+            delete summary[data[0][colIndex]];
+        }
+        const nextMetadata = { ...metadata, summary };
+        let nextData = data;
+        if (summaryRowIndex === -1 && hasSummaryRow(nextMetadata)) {
+            // 1列目を集計しない場合は、1列目を見出しにします
+            const row = new Array<string>(data[0].length).fill('');
+            if (!Object.prototype.hasOwnProperty.call(summary, data[0][0])) row[0] = 'Total';
+            nextData = [...data, row];
+        } else if (summaryRowIndex !== -1 && !hasSummaryRow(nextMetadata)) {
+            nextData = data.slice(0, summaryRowIndex);
+        }
+        applyEdit('集計', { data: nextData, metadata: nextMetadata });
+    };
+
+    /**
+     * 計算式が正しくない場合に、その理由を返します。
+     */
+    const getFormulaError = (expression: string | undefined): string | null => {
+        if (!expression) return null;
+        const parsed = parseFormula(expression);
+        return parsed.error ?? validateFormula(parsed.node, data[0]);
+    };
+
+    /**
+     * 列の値が計算式で求められるセル (計算列のデータ行と、集計行の集計する列) かどうかを判定します。
+     */
+    const isComputedCell = (rowIndex: number, colIndex: number) => {
+        if (rowIndex === 0) return false;
+        const header = data[0][colIndex];
+        if (rowIndex === summaryRowIndex) {
+            return !!metadata.summary && Object.prototype.hasOwnProperty.call(metadata.summary, header);
+        }
+        return !!metadata.formulas && Object.prototype.hasOwnProperty.call(metadata.formulas, header);
+    };
+
+    /**
+     * 列のデータ行の値を重複なしで返します (空のセルは除く)。
+     */
+    const getColumnValues = (colIndex: number) => Array.from(new Set(
+        data.slice(1).map(row => (row[colIndex] || '').trim()).filter(value => value !== '')
+    ));
+
+    /**
+     * 列のフィルター文字列を設定します。空文字の場合はその列のフィルターを解除します。
+     */
+    const setFilter = (colIndex: number, text: string) => {
+        setFilters(prev => {
+            const next = { ...prev };
+            if (text === '') {
+                delete next[colIndex];
             } else {
-                console.warn('Could not find cell to focus:', rowIndex, colIndex);
+                next[colIndex] = text;
             }
+            return next;
+        });
+    };
+
+    const hasFilters = Object.keys(filters).length > 0;
+
+    // メニューの外側クリックで閉じる (ColumnMenu の effect が毎回登録し直さないよう固定する)
+    const closeColumnMenu = useCallback(() => setOpenMenuColumn(null), []);
+
+    /**
+     * データ行がフィルターに一致する (表示する) かどうかを判定します。
+     * 大文字・小文字は区別しません。集計行は常に表示します。
+     */
+    const isRowVisible = (rowIndex: number) => rowIndex === summaryRowIndex || Object.entries(filters).every(([col, text]) =>
+        (data[rowIndex][Number(col)] || '').toLocaleLowerCase().includes(text.toLocaleLowerCase()));
+
+    /**
+     * 検索の対象とする行 (ヘッダー行と、フィルターで表示されている行) かどうかを判定します。
+     */
+    const isSearchableRow = (rowIndex: number) => rowIndex === 0 || isRowVisible(rowIndex);
+
+    /**
+     * 置換できるセルかどうかを判定します。集計行、計算式で求めるセル、行番号の列は置換しません。
+     */
+    const isReplaceableCell = (rowIndex: number, colIndex: number) => rowIndex !== summaryRowIndex
+        && !isComputedCell(rowIndex, colIndex)
+        && !(isRowIndexColumn && colIndex === 0 && rowIndex > 0);
+
+    /**
+     * 置換で変わったヘッダーに合わせて、列の種類や計算式を新しいヘッダーに付け替えます。
+     */
+    const renameReplacedHeaders = (newHeader: string[]) => data[0].reduce(
+        (next, header, colIndex) => newHeader[colIndex] === header ? next : renameColumnMetadata(next, header, newHeader[colIndex]),
+        metadata
+    );
+
+    // 検索に一致したセル (正規表現が正しくない場合はエラーを表示する)
+    let matches: CellMatch[] = [];
+    let findError: string | null = null;
+    if (isFindOpen) {
+        try {
+            matches = findMatches(data, findOptions, isSearchableRow);
+        } catch {
+            findError = '正規表現が正しくありません';
+        }
+    }
+    const currentMatchIndex = matches.length > 0 ? Math.min(findIndex, matches.length - 1) : -1;
+    const currentMatch = currentMatchIndex >= 0 ? matches[currentMatchIndex] : null;
+    const matchedCells = new Set(matches.map(match => `${match.row}-${match.col}`));
+
+    // 現在の一致が見えるようにスクロールします (検索欄からフォーカスは移動しない)
+    useEffect(() => {
+        if (!currentMatch) return;
+        const { row, col } = currentMatch;
+        scrollRowIntoView(row);
+        // 描画されていなかった行は、再描画を待ってから横方向にもスクロールします
+        const timer = window.setTimeout(() => {
+            document.getElementById(`cell-${row}-${col}`)?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
         }, 50);
+        return () => window.clearTimeout(timer);
+    }, [currentMatch?.row, currentMatch?.col]);
+
+    /**
+     * 検索・置換バーを開き、検索欄にフォーカスを移動します。
+     */
+    const openFindBar = () => {
+        if (isFindOpen) {
+            const input = document.getElementById('find-input') as HTMLInputElement | null;
+            input?.focus();
+            input?.select();
+        } else {
+            setIsFindOpen(true);
+        }
+    };
+
+    /**
+     * 検索・置換バーを閉じ、アクティブなセルにフォーカスを戻します。
+     */
+    const closeFindBar = () => {
+        setIsFindOpen(false);
+        if (activeCell) {
+            focusCell(activeCell.row, activeCell.col);
+        }
+    };
+
+    /**
+     * 検索の条件を変更します。一致の位置は先頭に戻ります。
+     */
+    const changeFindOptions = (options: FindOptions) => {
+        setFindOptions(options);
+        setFindIndex(0);
+    };
+
+    /**
+     * 次 (または前) の一致に移動します。末尾からは先頭に戻ります。
+     */
+    const moveToMatch = (step: 1 | -1) => {
+        if (matches.length === 0) return;
+        setFindIndex((currentMatchIndex + step + matches.length) % matches.length);
+    };
+
+    /**
+     * 現在の一致を置換し、次の一致に移動します。
+     */
+    const replaceCurrentMatch = () => {
+        if (!currentMatch) return;
+        const { row, col } = currentMatch;
+        // 置換できないセルは飛ばして次の一致に移動します
+        if (!isReplaceableCell(row, col)) {
+            moveToMatch(1);
+            return;
+        }
+        const newData = data.map(r => [...r]);
+        newData[row][col] = replaceInCell(data[row][col], findOptions, replaceText);
+        applyEdit('置換', { data: newData, metadata: row === 0 ? renameReplacedHeaders(newData[0]) : metadata });
+
+        // 置換後もまだ一致するセルがあるため、置換したセルより後ろの最初の一致を次の位置にします
+        const nextMatches = findMatches(newData, findOptions, isSearchableRow);
+        const nextIndex = nextMatches.findIndex(match => match.row > row || (match.row === row && match.col > col));
+        setFindIndex(nextIndex === -1 ? 0 : nextIndex);
+    };
+
+    /**
+     * 一致したすべてのセルを置換します。1回の操作として元に戻せます。
+     */
+    const replaceAllMatches = () => {
+        const result = replaceAll(data, findOptions, replaceText, isSearchableRow, isReplaceableCell);
+        if (result.count === 0) return;
+        applyEdit('すべて置換', { data: result.data, metadata: renameReplacedHeaders(result.data[0]) });
+        setFindIndex(0);
+    };
+
+    /**
+     * セルの値が列の種類に合っていない場合に、その列の定義を返します。
+     */
+    const getInvalidDefinition = (rowIndex: number, colIndex: number): ColumnDefinition | undefined => {
+        if (rowIndex === 0 || rowIndex === summaryRowIndex) return undefined;
+        const definition = getColumnDefinition(columns, data[0][colIndex]);
+        return definition && !isValidCellValue(data[rowIndex][colIndex] || '', definition) ? definition : undefined;
+    };
+
+    /**
+     * 列の種類に合っていないセルのツールチップを返します。
+     */
+    const getInvalidCellTitle = (rowIndex: number, colIndex: number) => {
+        const definition = getInvalidDefinition(rowIndex, colIndex);
+        return definition ? `値が列の種類 (${describeColumnDefinition(definition)}) と一致しません` : undefined;
+    };
+
+    /**
+     * セルの class 名 (複数選択・検索の一致・列の種類に合わない値) を返します。
+     */
+    const getCellClassName = (rowIndex: number, colIndex: number) => {
+        const classNames: string[] = [];
+        if (isCellSelected(rowIndex, colIndex)) classNames.push('selected');
+        if (matchedCells.has(`${rowIndex}-${colIndex}`)) {
+            classNames.push(currentMatch?.row === rowIndex && currentMatch.col === colIndex ? 'find-current' : 'find-match');
+        }
+        if (getInvalidDefinition(rowIndex, colIndex)) classNames.push('invalid');
+        if (isComputedCell(rowIndex, colIndex)) classNames.push('computed');
+        return classNames.length > 0 ? classNames.join(' ') : undefined;
+    };
+
+    /**
+     * 指定した行の次に表示されている行を探します。見つからない場合は -1 を返します。
+     */
+    const findNextVisibleRow = (rowIndex: number) => {
+        for (let i = rowIndex + 1; i < data.length; i++) {
+            if (isRowVisible(i)) return i;
+        }
+        return -1;
+    };
+
+    /**
+     * 指定した行の前に表示されているデータ行を探します。見つからない場合は -1 を返します。
+     */
+    const findPreviousVisibleRow = (rowIndex: number) => {
+        for (let i = rowIndex - 1; i >= 1; i--) {
+            if (isRowVisible(i)) return i;
+        }
+        return -1;
+    };
+
+    // フィルターで表示されているデータ行と、そのうち実際に描画する範囲 (行の仮想化)
+    const visibleRowIndexes: number[] = [];
+    for (let i = 1; i < data.length; i++) {
+        if (isRowVisible(i)) visibleRowIndexes.push(i);
+    }
+    const visibleRowHeights = visibleRowIndexes.map(i => rowHeights.current.get(i) ?? DEFAULT_ROW_HEIGHT);
+    const virtualWindow = getVirtualWindow(visibleRowHeights, viewport.top, viewport.height);
+    const renderedRowIndexes = visibleRowIndexes.slice(virtualWindow.start, virtualWindow.end);
+
+    /**
+     * 表示領域の位置を更新します (スクロール・リサイズ時)。
+     */
+    const updateViewport = () => {
+        const tbody = tbodyRef.current;
+        if (!tbody) return;
+        const top = -tbody.getBoundingClientRect().top;
+        const height = window.innerHeight;
+        setViewport(prev => prev.top === top && prev.height === height ? prev : { top, height });
+    };
+
+    useEffect(() => {
+        updateViewport();
+        window.addEventListener('scroll', updateViewport, { passive: true });
+        window.addEventListener('resize', updateViewport);
+        return () => {
+            window.removeEventListener('scroll', updateViewport);
+            window.removeEventListener('resize', updateViewport);
+        };
+    }, []);
+
+    /**
+     * データ行が表示領域に入るようにスクロールします (固定表示のヘッダー行に隠れる部分を除く)。
+     * @returns スクロールした場合は true
+     */
+    const scrollRowIntoView = (rowIndex: number) => {
+        const tbody = tbodyRef.current;
+        const position = visibleRowIndexes.indexOf(rowIndex);
+        if (!tbody || position === -1) return false;
+        const rowTop = getRowOffset(visibleRowHeights, position);
+        const rowBottom = rowTop + visibleRowHeights[position];
+        const tbodyTop = tbody.getBoundingClientRect().top;
+        const headerHeight = tbody.previousElementSibling?.getBoundingClientRect().height ?? 0;
+        const viewTop = -tbodyTop + headerHeight;
+        const viewBottom = -tbodyTop + window.innerHeight;
+        let delta = 0;
+        if (rowTop < viewTop) {
+            delta = rowTop - viewTop;
+        } else if (rowBottom > viewBottom) {
+            delta = rowBottom - viewBottom;
+        }
+        if (delta === 0) return false;
+        window.scrollBy(0, delta);
+        updateViewport();
+        return true;
+    };
+
+    // 描画した行の高さを測定し、フォーカスの移動の要求があれば処理します
+    useLayoutEffect(() => {
+        const tbody = tbodyRef.current;
+        if (tbody) {
+            let changed = false;
+            tbody.querySelectorAll<HTMLTableRowElement>('tr[data-row]').forEach(tr => {
+                const row = Number(tr.dataset.row);
+                if (tr.offsetHeight > 0 && rowHeights.current.get(row) !== tr.offsetHeight) {
+                    rowHeights.current.set(row, tr.offsetHeight);
+                    changed = true;
+                }
+            });
+            if (changed) setMeasuredVersion(v => v + 1);
+        }
+
+        const request = focusRequest.current;
+        if (!request) return;
+        const el = document.getElementById(`cell-${request.row}-${request.col}`) as HTMLInputElement | HTMLTextAreaElement | null;
+        if (el) {
+            focusRequest.current = null;
+            el.focus();
+            // Select text for easier editing (選択肢のセルなど、テキストを選択できない入力欄は除く)
+            if (typeof el.select === 'function') el.select();
+            setActiveCell({ row: request.row, col: request.col });
+        } else if (!scrollRowIntoView(request.row)) {
+            // スクロールしても描画されない (存在しない・フィルターで非表示の) セル
+            focusRequest.current = null;
+            console.warn('Could not find cell to focus:', request.row, request.col);
+        }
+    });
+
+    /**
+     * 特定のセルにフォーカスを移動し、テキストを選択状態にします。
+     * 描画されていない行のセルは、スクロールして描画してから移動します。
+     */
+    const focusCell = (rowIndex: number, colIndex: number) => {
+        // 行の追加などと同時に呼ばれるため、再描画の後に移動します
+        focusRequest.current = { row: rowIndex, col: colIndex };
+        setFocusVersion(v => v + 1);
     };
 
     /**
@@ -271,6 +1193,24 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
      */
 
     const handleKeyDown = (e: React.KeyboardEvent, rowIndex: number, colIndex: number) => {
+        // Ctrl + B / I / K: 選択中のテキストを太字・斜体・リンクにする
+        if ((e.ctrlKey || e.metaKey) && !e.shiftKey && !e.altKey && FORMAT_SHORTCUTS[e.key.toLowerCase()]) {
+            e.preventDefault();
+            e.stopPropagation();
+            applyInlineFormat(rowIndex, colIndex, FORMAT_SHORTCUTS[e.key.toLowerCase()]);
+            return;
+        }
+
+        // `: 選択中のテキストをインラインコードにする (選択していない場合は通常の入力)
+        if (e.key === '`' && !e.ctrlKey && !e.metaKey && !e.altKey) {
+            const input = e.target as HTMLInputElement | HTMLTextAreaElement;
+            if (input.selectionStart !== input.selectionEnd) {
+                e.preventDefault();
+                applyInlineFormat(rowIndex, colIndex, 'code');
+                return;
+            }
+        }
+
         // Shift + Enter: 改行を許可 (デフォルト動作)
         if (e.shiftKey && e.key === 'Enter') {
             e.stopPropagation(); // 他のハンドラに伝播しないようにする (例えば行追加など)
@@ -286,6 +1226,50 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
             return;
         }
 
+        // Alt + 上下矢印: 行の移動 / Alt + 左右矢印: 列の移動 (フィルターで非表示の行は飛ばす)
+        if (e.altKey && !e.shiftKey && !e.ctrlKey && !e.metaKey && e.key.startsWith('Arrow')) {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+                const target = e.key === 'ArrowUp' ? findPreviousVisibleRow(rowIndex) : findNextVisibleRow(rowIndex);
+                if (rowIndex > 0 && target !== -1) {
+                    moveRowTo(rowIndex, target);
+                }
+            } else {
+                moveColumnTo(colIndex, colIndex + (e.key === 'ArrowLeft' ? -1 : 1));
+            }
+            return;
+        }
+
+        // Shift + 矢印: 選択範囲の拡大
+        // 左右はセル内のテキスト選択と競合するため、テキスト全体が選択されている場合か範囲選択中のみ
+        if (e.shiftKey && !e.altKey && !e.ctrlKey && !e.metaKey && e.key.startsWith('Arrow')) {
+            const input = e.target as HTMLInputElement | HTMLTextAreaElement;
+            const wholeTextSelected = input.selectionStart === 0 && input.selectionEnd === input.value.length;
+            const isVertical = e.key === 'ArrowUp' || e.key === 'ArrowDown';
+            if (isVertical || wholeTextSelected || isMultiCellSelection) {
+                e.preventDefault();
+                extendSelection(
+                    e.key === 'ArrowUp' ? -1 : e.key === 'ArrowDown' ? 1 : 0,
+                    e.key === 'ArrowLeft' ? -1 : e.key === 'ArrowRight' ? 1 : 0
+                );
+                return;
+            }
+        }
+
+        // Delete: 範囲選択中は選択範囲のセルをすべて空にする
+        if (e.key === 'Delete' && isMultiCellSelection) {
+            e.preventDefault();
+            clearSelectedCells();
+            return;
+        }
+
+        // Escape: 範囲選択の解除
+        if (e.key === 'Escape' && selectionEnd) {
+            setSelectionEnd(null);
+            return;
+        }
+
         // Ctrl + Enter: 下に行を追加
         if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
             e.preventDefault();
@@ -302,11 +1286,12 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
             e.stopPropagation();
             const isLastCol = colIndex === data[0].length - 1;
             if (isLastCol) {
-                // 次の行の最初の列へ移動
-                if (rowIndex < data.length - 1) {
+                // 次の行の最初の列へ移動 (フィルターで非表示の行は飛ばす)
+                const nextRowIndex = findNextVisibleRow(rowIndex);
+                if (nextRowIndex !== -1) {
                     // 行番号列が有効な場合、2列目(index 1)へ移動
                     const nextColIndex = isRowIndexColumn ? 1 : 0;
-                    focusCell(rowIndex + 1, nextColIndex);
+                    focusCell(nextRowIndex, nextColIndex);
                 } else {
                     // 最後の行の最後の列の場合は何もしない (将来的に新しい行を追加するオプションも検討可能)
                 }
@@ -316,6 +1301,25 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
         }
     };
 
+    /**
+     * エディタ全体のキーボードショートカット (元に戻す / やり直し / 検索・置換) を処理します。
+     * セル内の入力欄が持つ標準の取り消し動作より優先します。
+     */
+    const handleEditorKeyDown = (e: React.KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            undo();
+        } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+            e.preventDefault();
+            redo();
+        } else if ((key === 'f' || key === 'h') && !e.shiftKey) {
+            e.preventDefault();
+            openFindBar();
+        }
+    };
+
     /**
      * リサイズ開始
      */
@@ -324,7 +1328,7 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
         setIsResizing({
             index,
             startX: e.clientX,
-            startWidth: colWidths[index] || 150
+            startWidth: colWidths[index] || settings.defaultColumnWidth
         });
     };
 
@@ -336,13 +1340,10 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
         let maxLen = 1; // min chars
         for (const row of data) {
              if (row[index]) {
-                 // シンプルに文字数、全角は2文字分換算などのロジックを入れるとベター
-                 // ここでは簡易的に文字数 * 1.5 (マルチバイトなど考慮) ぐらいで計算してみる
-                 let len = 0;
-                 for (let i = 0; i < row[index].length; i++) {
-                     len += row[index].charCodeAt(i) > 255 ? 2 : 1;
+                 // Markdownの生成と同じ表示幅 (全角は2文字分) で数える。<br> で改行されるセルは最も長い行を使う
+                 for (const line of row[index].split(/<br\s*\/?>/i)) {
+                     maxLen = Math.max(maxLen, getDisplayWidth(line, settings.ambiguousWidth));
                  }
-                 maxLen = Math.max(maxLen, len);
              }
         }
         // フォントサイズなどによるが、概算: 文字数 * 8px + padding
@@ -355,7 +1356,12 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
     };
 
     return (
-        <div className="table-editor-container">
+        <div className="table-editor-container" onKeyDown={handleEditorKeyDown} onCopy={handleCopy} onPaste={handlePaste}>
+            {isTableLost && (
+                <div className="status-banner">
+                    ドキュメント内でこのテーブルが見つからなくなりました。以降の編集はMarkdownに反映されません。
+                </div>
+            )}
             <div className="toolbar">
                 <button 
                     onClick={() => addRow()} 
@@ -372,15 +1378,102 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
                 >
                     列追加
                 </button>
+                <button
+                    onClick={() => activeCell && activeCell.row > 0 && removeRow(activeCell.row)}
+                    onMouseDown={(e) => e.preventDefault()}
+                    disabled={!activeCell || activeCell.row === 0}
+                    style={{ flexShrink: 0 }}
+                >
+                    行削除
+                </button>
+                <button
+                    onClick={() => activeCell && removeColumn(activeCell.col)}
+                    onMouseDown={(e) => e.preventDefault()}
+                    disabled={!activeCell}
+                    style={{ flexShrink: 0 }}
+                >
+                    列削除
+                </button>
+                <button
+                    onClick={undo}
+                    title="Ctrl + Z"
+                    onMouseDown={(e) => e.preventDefault()}
+                    disabled={!historyRef.current.canUndo}
+                    style={{ flexShrink: 0 }}
+                >
+                    元に戻す
+                </button>
+                <button
+                    onClick={redo}
+                    title="Ctrl + Y"
+                    onMouseDown={(e) => e.preventDefault()}
+                    disabled={!historyRef.current.canRedo}
+                    style={{ flexShrink: 0 }}
+                >
+                    やり直す
+                </button>
+                <div className="format-group">
+                    {FORMAT_BUTTONS.map(button => (
+                        <button
+                            key={button.format}
+                            className={`format-btn format-${button.format}`}
+                            title={button.title}
+                            onClick={() => activeCell && applyInlineFormat(activeCell.row, activeCell.col, button.format)}
+                            onMouseDown={(e) => e.preventDefault()} // セル内の選択範囲を保つ
+                            disabled={!activeCell}
+                        >{button.label}</button>
+                    ))}
+                </div>
                 <label style={{ display: 'flex', alignItems: 'center', marginLeft: '10px', fontSize: '13px', whiteSpace: 'nowrap' }}>
                     <input 
                         type="checkbox" 
                         checked={isRowIndexColumn} 
-                        onChange={(e) => setIsRowIndexColumn(e.target.checked)} 
+                        onChange={(e) => toggleRowIndexColumn(e.target.checked)} 
                     />
                     1列目を行番号として扱う
                 </label>
+                <select
+                    className="export-select"
+                    value=""
+                    onChange={(e) => e.target.value && requestExport(e.target.value as ExportFormat)}
+                    title="エクスポート"
+                >
+                    <option value="" disabled>エクスポート...</option>
+                    <option value="csv">CSV</option>
+                    <option value="tsv">TSV</option>
+                    <option value="json">JSON</option>
+                    <option value="html">HTML</option>
+                </select>
+                {hasFilters && (
+                    <div className="filter-status">
+                        {visibleRowIndexes.length} / {data.length - 1} 行を表示
+                        <button
+                            onClick={() => setFilters({})}
+                            onMouseDown={(e) => e.preventDefault()}
+                            style={{ flexShrink: 0 }}
+                        >
+                            フィルター解除
+                        </button>
+                    </div>
+                )}
             </div>
+            {isFindOpen && (
+                <FindBar
+                    options={findOptions}
+                    replacement={replaceText}
+                    matchCount={matches.length}
+                    currentIndex={currentMatchIndex}
+                    error={findError}
+                    activeColumn={activeCell ? { index: activeCell.col, label: data[0][activeCell.col] || `列 ${activeCell.col + 1}` } : null}
+                    onOptionsChange={changeFindOptions}
+                    onReplacementChange={setReplaceText}
+                    onNext={() => moveToMatch(1)}
+                    onPrevious={() => moveToMatch(-1)}
+                    onReplace={replaceCurrentMatch}
+                    onReplaceAll={replaceAllMatches}
+                    onClose={closeFindBar}
+                />
+            )}
             <div className="table-wrapper">
                 <table style={{ tableLayout: 'fixed' }}>
                     <colgroup>
@@ -393,16 +1486,53 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
                         <tr>
                             <th className="row-action-header"></th>
                             {data[0].map((cell, colIndex) => (
-                                <th key={`header-${colIndex}`} style={{ position: 'relative' }}>
+                                <th
+                                    key={`header-${colIndex}`}
+                                    className={joinClassNames(getCellClassName(0, colIndex), getDragClassName('column', colIndex))}
+                                    onDragOver={(e) => handleDragOver(e, 'column', colIndex, isPointerAfterMiddle(e, 'x'))}
+                                    onDrop={handleDrop}
+                                >
                                     <div className="cell-wrapper">
-                                        <input
-                                            id={`cell-0-${colIndex}`}
-                                            type="text"
-                                            value={cell.replace(/<br>/g, '\n')}
-                                            onChange={(e) => handleCellChange(0, colIndex, e.target.value)}
-                                            onFocus={() => handleFocus(0, colIndex)}
-                                            onKeyDown={(e) => handleKeyDown(e, 0, colIndex)}
-                                        />
+                                        <span
+                                            className="drag-handle"
+                                            draggable={!(isRowIndexColumn && colIndex === 0)}
+                                            title="ドラッグして列を移動 (Alt + ← / →)"
+                                            onDragStart={(e) => startDrag(e, 'column', colIndex)}
+                                            onDragEnd={() => setDragState(null)}
+                                        >⋮⋮</span>
+                                        <div className="cell-editor">
+                                            <input
+                                                id={`cell-0-${colIndex}`}
+                                                type="text"
+                                                className={hasInlineMarkup(cell) ? 'has-preview' : undefined}
+                                                value={brToNewline(cell)}
+                                                onChange={(e) => handleCellChange(0, colIndex, e.target.value)}
+                                                onFocus={() => handleFocus(0, colIndex)}
+                                                onMouseDown={(e) => handleCellMouseDown(e, 0, colIndex)}
+                                                onKeyDown={(e) => handleKeyDown(e, 0, colIndex)}
+                                                style={{ textAlign: toTextAlign(alignments[colIndex]) }}
+                                            />
+                                            {renderCellPreview(cell, colIndex)}
+                                        </div>
+                                        {!isDelimitedFile && <div className="align-group">
+                                            {ALIGNMENT_OPTIONS.map(option => (
+                                                <button
+                                                    key={option.value}
+                                                    className={`align-btn${alignments[colIndex] === option.value ? ' active' : ''}`}
+                                                    title={option.title}
+                                                    onClick={() => toggleAlignment(colIndex, option.value)}
+                                                    onMouseDown={(e) => e.preventDefault()}
+                                                    tabIndex={-1}
+                                                >{option.label}</button>
+                                            ))}
+                                        </div>}
+                                        <button
+                                            className={`menu-btn${filters[colIndex] ? ' active' : ''}`}
+                                            title={isDelimitedFile ? '並べ替え・フィルター' : '並べ替え・フィルター・列の設定'}
+                                            onClick={() => setOpenMenuColumn(openMenuColumn === colIndex ? null : colIndex)}
+                                            onMouseDown={(e) => e.preventDefault()}
+                                            tabIndex={-1}
+                                        >▾</button>
                                         <button 
                                             className="delete-btn" 
                                             onClick={() => removeColumn(colIndex)} 
@@ -415,16 +1545,51 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
                                             onDoubleClick={() => autoFitColumn(colIndex)}
                                         />
                                     </div>
+                                    {openMenuColumn === colIndex && (
+                                        <ColumnMenu
+                                            columnType={detectColumnType(data.slice(1).map(row => row[colIndex] || ''))}
+                                            filterText={filters[colIndex] || ''}
+                                            onSort={(direction) => sortRows(colIndex, direction)}
+                                            definition={getColumnDefinition(columns, cell)}
+                                            columnValues={getColumnValues(colIndex)}
+                                            onFilterChange={(text) => setFilter(colIndex, text)}
+                                            formula={metadata.formulas?.[cell]}
+                                            formulaError={getFormulaError(metadata.formulas?.[cell])}
+                                            summary={metadata.summary?.[cell]}
+                                            onDefinitionChange={(definition) => setColumnType(colIndex, definition)}
+                                            onFormulaChange={(expression) => setColumnFormula(colIndex, expression)}
+                                            onSummaryChange={(fn) => setColumnSummary(colIndex, fn)}
+                                            showColumnSettings={!isDelimitedFile}
+                                            onClose={closeColumnMenu}
+                                        />
+                                    )}
                                 </th>
                             ))}
                         </tr>
                     </thead>
-                    <tbody>
-                        {data.slice(1).map((row, rIndex) => {
-                            const rowIndex = rIndex + 1;
+                    <tbody ref={tbodyRef}>
+                        {virtualWindow.paddingTop > 0 && (
+                            <tr className="virtual-spacer">
+                                <td colSpan={data[0].length + 1} style={{ height: `${virtualWindow.paddingTop}px` }} />
+                            </tr>
+                        )}
+                        {renderedRowIndexes.map(rowIndex => {
+                            const row = data[rowIndex];
                             return (
-                                <tr key={`row-${rowIndex}`}>
-                                    <td>
+                                <tr
+                                    key={`row-${rowIndex}`}
+                                    data-row={rowIndex}
+                                    className={joinClassNames(getDragClassName('row', rowIndex), rowIndex === summaryRowIndex ? 'summary-row' : undefined)}
+                                    onDragOver={(e) => handleDragOver(e, 'row', rowIndex, isPointerAfterMiddle(e, 'y'))}
+                                    onDrop={handleDrop}
+                                >
+                                    <td
+                                        className="row-gutter"
+                                        draggable
+                                        title="ドラッグして行を移動 (Alt + ↑ / ↓)"
+                                        onDragStart={(e) => startDrag(e, 'row', rowIndex)}
+                                        onDragEnd={() => setDragState(null)}
+                                    >
                                         <button 
                                             className="delete-btn row-btn" 
                                             onClick={() => removeRow(rowIndex)} 
@@ -433,17 +1598,15 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
                                         >×</button>
                                     </td>
                                     {row.map((cell, colIndex) => (
-                                        <td key={`cell-${rowIndex}-${colIndex}`} style={{ position: 'relative' }}>
-                                             <textarea
-                                                id={`cell-${rowIndex}-${colIndex}`}
-                                                value={cell.replace(/<br>/g, '\n')}
-                                                onChange={(e) => handleCellChange(rowIndex, colIndex, e.target.value)}
-                                                onFocus={() => handleFocus(rowIndex, colIndex)}
-                                                onKeyDown={(e) => handleKeyDown(e, rowIndex, colIndex)}
-                                                readOnly={isRowIndexColumn && colIndex === 0}
-                                                style={isRowIndexColumn && colIndex === 0 ? { backgroundColor: 'var(--vscode-editor-inactiveSelectionBackground)', cursor: 'default' } : {}}
-                                                rows={1}
-                                            />
+                                        <td
+                                            key={`cell-${rowIndex}-${colIndex}`}
+                                            className={getCellClassName(rowIndex, colIndex)}
+                                            title={getInvalidCellTitle(rowIndex, colIndex)}
+                                            style={{ position: 'relative' }}
+                                        >
+                                            <div className="cell-editor">
+                                                {renderCellEditor(rowIndex, colIndex, cell)}
+                                            </div>
                                             <div 
                                                 className="resizer"
                                                 onMouseDown={(e) => startResize(colIndex, e)}
@@ -454,6 +1617,11 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
                                 </tr>
                             );
                         })}
+                        {virtualWindow.paddingBottom > 0 && (
+                            <tr className="virtual-spacer">
+                                <td colSpan={data[0].length + 1} style={{ height: `${virtualWindow.paddingBottom}px` }} />
+                            </tr>
+                        )}
                     </tbody>
                 </table>
             </div>
@@ -461,4 +1629,54 @@ const TableEditor: React.FC<TableEditorProps> = ({ initialData }) => {
     );
 };
 
+/**
+ * データ行の1列目に行番号 (1始まり) を振ります。ヘッダー行は変更しません。
+ */
+function withRowNumbers(data: string[][]): string[][] {
+    return data.map((row, index) => {
+        if (index === 0 || row[0] === String(index)) return row;
+        const newRow = [...row];
+        newRow[0] = String(index);
+        return newRow;
+    });
+}
+
+/**
+ * ドラッグ&ドロップで from の行・列を over の前 (after なら後ろ) に置いたときの、移動後のインデックスを返します。
+ */
+function getDropIndex(from: number, over: number, after: boolean): number {
+    const position = after ? over + 1 : over;
+    return from < position ? position - 1 : position;
+}
+
+/**
+ * ポインターが要素の後ろ半分 (下半分または右半分) にあるかどうかを判定します。
+ */
+function isPointerAfterMiddle(e: React.DragEvent, axis: 'x' | 'y'): boolean {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return axis === 'x' ? e.clientX > rect.left + rect.width / 2 : e.clientY > rect.top + rect.height / 2;
+}
+
+/**
+ * 空でない class 名を連結します。すべて空の場合は undefined を返します。
+ */
+function joinClassNames(...names: (string | undefined)[]): string | undefined {
+    const joined = names.filter(Boolean).join(' ');
+    return joined === '' ? undefined : joined;
+}
+
+/**
+ * 2つの列の配置が同じかどうかを判定します。
+ */
+function isSameAlignments(a: ColumnAlignment[], b: ColumnAlignment[]): boolean {
+    return a.length === b.length && a.every((alignment, index) => alignment === b[index]);
+}
+
+/**
+ * 列の配置をCSSのtext-alignに変換します。
+ */
+function toTextAlign(alignment: ColumnAlignment | undefined): 'left' | 'center' | 'right' {
+    return alignment === 'center' || alignment === 'right' ? alignment : 'left';
+}
+
 export default TableEditor;
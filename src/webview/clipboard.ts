@@ -0,0 +1,38 @@
+import { tableToDelimited, delimitedToTable } from '../formatConverter';
+
+/**
+ * クリップボードとのデータ変換 (Excel / Google スプレッドシートとの相互運用)
+ *
+ * セル内の改行はテーブルでは `<br>` として保持されているため、
+ * コピー時は改行に、貼り付け時は `<br>` に変換します。
+ */
+
+/**
+ * セルの範囲をTSV文字列に変換します。
+ * タブ・改行・ダブルクォートを含むセルはダブルクォートで囲みます (Excelと同じ形式)。
+ */
+export function toTsv(cells: string[][]): string {
+    return tableToDelimited({ data: cells, alignments: [] }, { delimiter: '\t', lineEnding: '\n' });
+}
+
+/**
+ * クリップボードのテキストをセルの範囲に変換します。
+ * タブを含む場合はTSV、複数行でカンマを含む場合はCSVとして解析します。
+ * @param lineBreak セル内の改行を表すタグ
+ * @returns セルの2次元配列 (改行は `<br>` に変換済み)。1つのセルに収まる通常のテキストの場合はnull
+ */
+export function parseClipboardTable(text: string, lineBreak: string = '<br>'): string[][] | null {
+    // Spreadsheets add a line break after the last row
+    const trimmed = text.replace(/\r?\n$/, '');
+    const isMultiLine = /[\r\n]/.test(trimmed);
+    let delimiter: string;
+    if (trimmed.includes('\t')) {
+        delimiter = '\t';
+    } else if (isMultiLine) {
+        delimiter = trimmed.includes(',') ? ',' : '\t';
+    } else {
+        return null;
+    }
+
+    return delimitedToTable(trimmed, delimiter, lineBreak).data;
+}
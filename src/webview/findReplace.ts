@@ -0,0 +1,105 @@
+/**
+ * セルの検索と置換
+ *
+ * 検索はセルに保存されている Markdown のテキスト (`<br>` などを含む) に対して行います。
+ */
+
+/** 検索の条件 */
+export interface FindOptions {
+    /** 検索する文字列 (正規表現が有効な場合はパターン) */
+    query: string;
+    /** 大文字と小文字を区別するかどうか */
+    caseSensitive: boolean;
+    /** セル全体が一致する場合のみ一致とみなすかどうか */
+    wholeCell: boolean;
+    /** 正規表現として検索するかどうか */
+    regex: boolean;
+    /** 検索する列 (null の場合はすべての列) */
+    column: number | null;
+}
+
+/** 一致したセル */
+export interface CellMatch {
+    row: number;
+    col: number;
+}
+
+/**
+ * 正規表現の特殊文字をエスケープします。
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 検索の条件から正規表現を作成します。検索する文字列が空の場合は null を返します。
+ * @throws {SyntaxError} 正規表現として正しくない場合
+ */
+export function createSearchPattern(options: FindOptions): RegExp | null {
+    if (options.query === '') return null;
+    const source = options.regex ? options.query : escapeRegExp(options.query);
+    return new RegExp(options.wholeCell ? `^(?:${source})$` : source, options.caseSensitive ? 'g' : 'gi');
+}
+
+/**
+ * セルが検索の対象かどうかを判定します。
+ */
+function isTargetColumn(col: number, options: FindOptions): boolean {
+    return options.column === null || options.column === col;
+}
+
+/**
+ * 検索の条件に一致するセルを、行・列の順に返します。
+ * @param isRowVisible 検索する行 (フィルターで非表示の行を除く場合に指定)
+ * @throws {SyntaxError} 正規表現として正しくない場合
+ */
+export function findMatches(data: string[][], options: FindOptions, isRowVisible: (row: number) => boolean = () => true): CellMatch[] {
+    const pattern = createSearchPattern(options);
+    if (!pattern) return [];
+    const matches: CellMatch[] = [];
+    data.forEach((row, rowIndex) => {
+        if (!isRowVisible(rowIndex)) return;
+        row.forEach((cell, col) => {
+            if (!isTargetColumn(col, options)) return;
+            pattern.lastIndex = 0;
+            if (pattern.test(cell)) {
+                matches.push({ row: rowIndex, col });
+            }
+        });
+    });
+    return matches;
+}
+
+/**
+ * セル内の一致した部分をすべて置換します。
+ * 正規表現が有効な場合は、置換文字列の `$1` などでグループを参照できます。
+ */
+export function replaceInCell(cell: string, options: FindOptions, replacement: string): string {
+    const pattern = createSearchPattern(options);
+    if (!pattern) return cell;
+    return options.regex
+        ? cell.replace(pattern, replacement)
+        : cell.replace(pattern, () => replacement);
+}
+
+/**
+ * 一致したすべてのセルを置換した新しいデータを返します。
+ * @param isRowVisible 検索する行 (フィルターで非表示の行を除く場合に指定)
+ * @param isReplaceable 置換できるセル (計算で求めるセルなど、編集できないセルを除く場合に指定)
+ * @returns 置換後のデータと、置換したセルの数
+ */
+export function replaceAll(
+    data: string[][],
+    options: FindOptions,
+    replacement: string,
+    isRowVisible: (row: number) => boolean = () => true,
+    isReplaceable: (row: number, col: number) => boolean = () => true
+): { data: string[][]; count: number } {
+    const matches = findMatches(data, options, isRowVisible).filter(({ row, col }) => isReplaceable(row, col));
+    if (matches.length === 0) return { data, count: 0 };
+    const next = data.map(row => [...row]);
+    matches.forEach(({ row, col }) => {
+        next[row][col] = replaceInCell(next[row][col], options, replacement);
+    });
+    return { data: next, count: matches.length };
+}
@@ -1,13 +1,19 @@
 declare module "*.css";
 
 interface VsCodeApi {
-    postMessage(message: any): void;
+    postMessage(message: import('../tableEditorPanel').WebviewMessage): void;
     setState(state: any): void;
     getState(): any;
 }
 
 declare function acquireVsCodeApi(): VsCodeApi;
 
+// WebviewのHTMLで acquireVsCodeApi() の結果を代入しているグローバル変数
+declare const vscode: VsCodeApi;
+
 interface Window {
-    initialData: string[][];
+    initialTable: import('../markdownParser').MarkdownTable;
+    initialMetadata: import('../tableMetadata').TableMetadata;
+    editorSettings: import('../configuration').EditorSettings;
+    panelState: import('../tableEditorPanel').TablePanelState;
 }
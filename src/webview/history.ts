@@ -0,0 +1,111 @@
+import type { ColumnAlignment } from '../markdownParser';
+import type { TableMetadata } from '../tableMetadata';
+
+/**
+ * 履歴に保存するテーブルの状態
+ */
+export interface TableSnapshot {
+    data: string[][];
+    alignments: ColumnAlignment[];
+    /** 列の種類・計算式などのメタデータ */
+    metadata: TableMetadata;
+}
+
+/**
+ * 1つの論理操作 (セルの編集、行の追加など) の履歴
+ */
+export interface HistoryEntry {
+    label: string;
+    before: TableSnapshot;
+    after: TableSnapshot;
+    /** 同じキーの連続した操作 (同じセルへの入力など) は1つの履歴にまとめます */
+    mergeKey?: string;
+}
+
+// 保持する履歴の最大数
+const MAX_HISTORY = 200;
+
+/**
+ * Webview内の編集履歴 (元に戻す / やり直し)
+ *
+ * 操作ごとに変更前後の状態を記録します。
+ * セルへの入力は、別のセルに移動するか別の操作を行うまで1つの履歴にまとめます。
+ */
+export class EditHistory {
+    private undoStack: HistoryEntry[] = [];
+    private redoStack: HistoryEntry[] = [];
+    // 直前の履歴に以降の操作をまとめない状態かどうか
+    private sealed = true;
+
+    get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * 操作を記録します。
+     * @returns 記録した履歴 (直前の履歴にまとめた場合はその履歴)
+     */
+    record(label: string, before: TableSnapshot, after: TableSnapshot, mergeKey?: string): HistoryEntry {
+        this.redoStack = [];
+
+        const last = this.undoStack[this.undoStack.length - 1];
+        if (mergeKey && !this.sealed && last && last.mergeKey === mergeKey) {
+            last.after = after;
+            return last;
+        }
+
+        const entry: HistoryEntry = { label, before, after, mergeKey };
+        this.undoStack.push(entry);
+        if (this.undoStack.length > MAX_HISTORY) {
+            this.undoStack.shift();
+        }
+        this.sealed = !mergeKey;
+        return entry;
+    }
+
+    /**
+     * 以降の操作を直前の履歴にまとめないようにします (セルの移動時など)。
+     */
+    seal() {
+        this.sealed = true;
+    }
+
+    /**
+     * 直前の操作を取り消します。
+     * @returns 取り消した履歴 (before の状態に戻す)
+     */
+    undo(): HistoryEntry | undefined {
+        const entry = this.undoStack.pop();
+        if (entry) {
+            this.redoStack.push(entry);
+            this.sealed = true;
+        }
+        return entry;
+    }
+
+    /**
+     * 取り消した操作をやり直します。
+     * @returns やり直した履歴 (after の状態にする)
+     */
+    redo(): HistoryEntry | undefined {
+        const entry = this.redoStack.pop();
+        if (entry) {
+            this.undoStack.push(entry);
+            this.sealed = true;
+        }
+        return entry;
+    }
+
+    /**
+     * 履歴をすべて破棄します (Markdown側で直接編集された場合など)。
+     */
+    clear() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.sealed = true;
+    }
+}
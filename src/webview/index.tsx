@@ -1,10 +1,17 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import TableEditor from './TableEditor';
+import type { TablePanelState } from '../tableEditorPanel';
 import './index.css';
 
+// Webviewを作り直した場合 (ウィンドウの再読み込みなど) は、直前に保存したUIの状態を優先します
+const savedState = typeof vscode !== 'undefined' ? vscode.getState() as TablePanelState | undefined : undefined;
+const panelState: TablePanelState = savedState && savedState.documentUri === window.panelState.documentUri
+    ? { ...window.panelState, ui: savedState.ui }
+    : window.panelState;
+
 const rootElement = document.getElementById('root');
 if (rootElement) {
     const root = createRoot(rootElement);
-    root.render(<TableEditor initialData={window.initialData} />);
+    root.render(<TableEditor initialData={window.initialTable.data} initialAlignments={window.initialTable.alignments} initialMetadata={window.initialMetadata} initialSettings={window.editorSettings} panelState={panelState} />);
 }
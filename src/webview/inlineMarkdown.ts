@@ -0,0 +1,278 @@
+import { findClosingBackticks } from '../markdownParser';
+
+/**
+ * セル内のインライン Markdown の解析と書式の適用
+ *
+ * セルのプレビュー表示用に、太字・斜体・取り消し線・インラインコード・リンク・`<br>` を解析します。
+ * HTMLとして挿入せずReactの要素として描画するため、`<br>` 以外のHTMLタグはそのまま文字列として扱います。
+ */
+
+/** インライン要素 */
+export type InlineNode =
+    | { type: 'text'; text: string }
+    | { type: 'code'; text: string }
+    | { type: 'strong' | 'em' | 'del'; children: InlineNode[] }
+    | { type: 'link'; href: string; children: InlineNode[] }
+    | { type: 'break' };
+
+/** 書式の種類 (ツールバーとショートカットで使用) */
+export type InlineFormat = 'bold' | 'italic' | 'code' | 'link';
+
+/**
+ * 書式を適用した結果 (セルの値と、適用後に選択する範囲)
+ */
+export interface InlineEdit {
+    value: string;
+    start: number;
+    end: number;
+}
+
+// バックスラッシュでエスケープできる記号 (CommonMark の ASCII punctuation)
+const ESCAPABLE_PATTERN = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const BREAK_PATTERN = /^<br\s*\/?>/i;
+// リンク先 (`<...>` または空白を含まないURL。括弧は1段階まで) と省略可能なタイトル
+const LINK_DESTINATION_PATTERN = /^\(\s*(<[^<>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/;
+// 強調の区切り (長いものから順に試す)
+const EMPHASIS_DELIMITERS: { marker: string; type: 'strong' | 'em' | 'del' }[] = [
+    { marker: '**', type: 'strong' },
+    { marker: '__', type: 'strong' },
+    { marker: '~~', type: 'del' },
+    { marker: '*', type: 'em' },
+    { marker: '_', type: 'em' }
+];
+
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}]/u;
+const WHITESPACE_PATTERN = /\s/;
+
+/**
+ * 指定位置から始まる同じ文字の連続数を返します。
+ */
+function runLength(text: string, start: number): number {
+    let end = start;
+    while (text[end] === text[start]) end++;
+    return end - start;
+}
+
+/**
+ * `[ラベル](リンク先)` 形式のリンクを解析します。
+ */
+function matchLink(text: string, start: number): { label: string; href: string; end: number } | null {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '\\') {
+            i++;
+        } else if (ch === '[') {
+            depth++;
+        } else if (ch === ']' && --depth === 0) {
+            const destination = LINK_DESTINATION_PATTERN.exec(text.slice(i + 1));
+            if (!destination) return null;
+            const href = destination[1].replace(/^<|>$/g, '');
+            return { label: text.slice(start + 1, i), href, end: i + 1 + destination[0].length };
+        }
+    }
+    return null;
+}
+
+/**
+ * 強調 (`**太字**`, `*斜体*`, `~~取り消し線~~` など) を解析します。
+ * 閉じ区切りを探す間、コードスパンとエスケープは読み飛ばします。
+ */
+function matchEmphasis(text: string, start: number): { type: 'strong' | 'em' | 'del'; inner: string; end: number } | null {
+    for (const { marker, type } of EMPHASIS_DELIMITERS) {
+        if (!text.startsWith(marker, start)) continue;
+        const contentStart = start + marker.length;
+        if (contentStart >= text.length || WHITESPACE_PATTERN.test(text[contentStart])) continue;
+        // Underscores inside words (snake_case) are not emphasis
+        const isUnderscore = marker[0] === '_';
+        if (isUnderscore && start > 0 && WORD_CHAR_PATTERN.test(text[start - 1])) continue;
+
+        let i = contentStart + 1;
+        while (i < text.length) {
+            const ch = text[i];
+            if (ch === '\\') {
+                i += 2;
+                continue;
+            }
+            if (ch === '`') {
+                const length = runLength(text, i);
+                const close = findClosingBackticks(text, i + length, length);
+                i = close === -1 ? i + length : close + length;
+                continue;
+            }
+            if (ch === marker[0]) {
+                const length = runLength(text, i);
+                const closes = length === marker.length
+                    && !WHITESPACE_PATTERN.test(text[i - 1])
+                    && !(isUnderscore && i + length < text.length && WORD_CHAR_PATTERN.test(text[i + length]));
+                if (closes) {
+                    return { type, inner: text.slice(contentStart, i), end: i + length };
+                }
+                i += length;
+                continue;
+            }
+            i++;
+        }
+    }
+    return null;
+}
+
+/**
+ * セルの値 (インライン Markdown) を解析します。
+ */
+export function parseInlineMarkdown(text: string): InlineNode[] {
+    const nodes: InlineNode[] = [];
+    let buffer = '';
+    const push = (node: InlineNode) => {
+        if (buffer) {
+            nodes.push({ type: 'text', text: buffer });
+            buffer = '';
+        }
+        nodes.push(node);
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === '\\' && i + 1 < text.length && ESCAPABLE_PATTERN.test(text[i + 1])) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (ch === '`') {
+            const length = runLength(text, i);
+            const close = findClosingBackticks(text, i + length, length);
+            if (close === -1) {
+                buffer += text.slice(i, i + length);
+                i += length;
+                continue;
+            }
+            let code = text.slice(i + length, close);
+            // A single leading and trailing space is stripped (so that `` ` `` can contain backticks)
+            if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ') && code.trim() !== '') {
+                code = code.slice(1, -1);
+            }
+            push({ type: 'code', text: code });
+            i = close + length;
+            continue;
+        }
+
+        const lineBreak = ch === '<' ? BREAK_PATTERN.exec(text.slice(i)) : null;
+        if (lineBreak) {
+            push({ type: 'break' });
+            i += lineBreak[0].length;
+            continue;
+        }
+
+        const link = ch === '[' ? matchLink(text, i) : null;
+        if (link) {
+            push({ type: 'link', href: link.href, children: parseInlineMarkdown(link.label) });
+            i = link.end;
+            continue;
+        }
+
+        const emphasis = matchEmphasis(text, i);
+        if (emphasis) {
+            push({ type: emphasis.type, children: parseInlineMarkdown(emphasis.inner) });
+            i = emphasis.end;
+            continue;
+        }
+
+        buffer += ch;
+        i++;
+    }
+
+    if (buffer) {
+        nodes.push({ type: 'text', text: buffer });
+    }
+    return nodes;
+}
+
+/**
+ * プレビュー表示が必要か (書式やエスケープを含み、見た目が元の文字列と異なるか) を判定します。
+ */
+export function hasInlineMarkup(text: string): boolean {
+    // Most cells contain no syntax characters at all
+    if (!/[\\`*_~[<]/.test(text)) return false;
+    const nodes = parseInlineMarkdown(text);
+    return !(nodes.length === 0 || (nodes.length === 1 && nodes[0].type === 'text' && nodes[0].text === text));
+}
+
+// 書式ごとの区切り
+const FORMAT_MARKERS: Record<Exclude<InlineFormat, 'link'>, string> = {
+    bold: '**',
+    italic: '*',
+    code: '`'
+};
+
+/**
+ * 文字列の先頭・末尾にある指定した文字の連続数を返します。
+ */
+function countEdgeRun(text: string, ch: string, fromEnd: boolean): number {
+    let count = 0;
+    while (count < text.length && text[fromEnd ? text.length - 1 - count : count] === ch) count++;
+    return count;
+}
+
+/**
+ * 前後の区切りの連続数から、書式が適用されているかどうかを判定します。
+ * 斜体の `*` は太字の `**` と区別するため、連続数が奇数 (`*`, `***`) の場合のみ斜体とみなします。
+ */
+function isMarked(leading: number, trailing: number, format: Exclude<InlineFormat, 'link'>): boolean {
+    if (format === 'italic') return leading % 2 === 1 && trailing % 2 === 1;
+    const length = FORMAT_MARKERS[format].length;
+    return leading >= length && trailing >= length;
+}
+
+/**
+ * 選択範囲を区切りで囲みます。既に囲まれている場合は区切りを取り除きます。
+ * @param value セルの値
+ * @param start 選択範囲の開始位置
+ * @param end 選択範囲の終了位置
+ */
+export function toggleInlineFormat(value: string, start: number, end: number, format: Exclude<InlineFormat, 'link'>): InlineEdit {
+    const marker = FORMAT_MARKERS[format];
+    const length = marker.length;
+    const before = value.slice(0, start);
+    const selected = value.slice(start, end);
+    const after = value.slice(end);
+
+    // The selection itself includes the markers: [**text**]
+    if (selected.length >= length * 2
+        && isMarked(countEdgeRun(selected, marker[0], false), countEdgeRun(selected, marker[0], true), format)) {
+        const inner = selected.slice(length, -length);
+        return { value: before + inner + after, start, end: start + inner.length };
+    }
+    // The markers surround the selection: **[text]**
+    if (isMarked(countEdgeRun(before, marker[0], true), countEdgeRun(after, marker[0], false), format)) {
+        return {
+            value: before.slice(0, -length) + selected + after.slice(length),
+            start: start - length,
+            end: end - length
+        };
+    }
+    return {
+        value: before + marker + selected + marker + after,
+        start: start + length,
+        end: end + length
+    };
+}
+
+/**
+ * 選択範囲をリンク (`[選択範囲](url)`) にします。
+ * 選択範囲がある場合はURLの部分を、ない場合はリンクの文字列の部分を選択します。
+ */
+export function insertInlineLink(value: string, start: number, end: number): InlineEdit {
+    const label = value.slice(start, end);
+    const placeholderLabel = 'リンク';
+    const placeholderUrl = 'https://';
+    const text = `[${label || placeholderLabel}](${placeholderUrl})`;
+    const next = value.slice(0, start) + text + value.slice(end);
+    if (label) {
+        const urlStart = start + label.length + 3;
+        return { value: next, start: urlStart, end: urlStart + placeholderUrl.length };
+    }
+    return { value: next, start: start + 1, end: start + 1 + placeholderLabel.length };
+}
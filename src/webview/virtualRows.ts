@@ -0,0 +1,75 @@
+/**
+ * 行の仮想化 (画面に表示されている範囲の行だけを描画する) のための計算
+ *
+ * 行の高さはセルの内容 (改行など) によって変わるため、描画した行の高さを測定して使い、
+ * まだ描画していない行には既定の高さを仮定します。
+ */
+
+/** まだ描画していない行の高さ (ピクセル、1行のセルの高さ) */
+export const DEFAULT_ROW_HEIGHT = 33;
+
+/** 表示範囲の前後に余分に描画する行数 (スクロール中に空白が見えないようにする) */
+const OVERSCAN_ROWS = 10;
+
+/**
+ * 描画する行の範囲
+ */
+export interface VirtualWindow {
+    /** 描画する最初の行 (行の一覧に対するインデックス) */
+    start: number;
+    /** 描画する最後の行の次のインデックス */
+    end: number;
+    /** 描画しない先頭の行の高さの合計 */
+    paddingTop: number;
+    /** 描画しない末尾の行の高さの合計 */
+    paddingBottom: number;
+}
+
+/**
+ * 指定した行より前の行の高さの合計 (行の上端の位置) を返します。
+ */
+export function getRowOffset(heights: readonly number[], index: number): number {
+    let offset = 0;
+    for (let i = 0; i < index && i < heights.length; i++) {
+        offset += heights[i];
+    }
+    return offset;
+}
+
+/**
+ * スクロール位置から描画する行の範囲を求めます。
+ * @param heights 各行の高さ
+ * @param viewportTop 行の一覧の上端から見た、表示領域の上端の位置 (行の一覧が画面より下にある場合は負の値)
+ * @param viewportHeight 表示領域の高さ
+ */
+export function getVirtualWindow(
+    heights: readonly number[],
+    viewportTop: number,
+    viewportHeight: number,
+    overscan: number = OVERSCAN_ROWS
+): VirtualWindow {
+    // 表示領域の上端にかかる行
+    let first = 0;
+    let offset = 0;
+    while (first < heights.length && offset + heights[first] <= viewportTop) {
+        offset += heights[first];
+        first++;
+    }
+    // 表示領域の下端を超える最初の行
+    let last = first;
+    while (last < heights.length && offset < viewportTop + viewportHeight) {
+        offset += heights[last];
+        last++;
+    }
+
+    const start = Math.max(0, first - overscan);
+    const end = Math.min(heights.length, last + overscan);
+    const total = getRowOffset(heights, heights.length);
+    const paddingTop = getRowOffset(heights, start);
+    return {
+        start,
+        end,
+        paddingTop,
+        paddingBottom: total - getRowOffset(heights, end)
+    };
+}
@@ -1,4 +1,5 @@
 const path = require('path');
+const webpack = require('webpack');
 
 //@ts-check
 
@@ -72,4 +73,43 @@ const webviewConfig = {
   devtool: 'source-map' // Helpful for debugging webview
 };
 
-module.exports = [extensionConfig, webviewConfig];
+/**
+ * Library and command line (md-table) that run without VS Code.
+ * vscode is intentionally not an external here, so importing it fails the build.
+ * @type {import('webpack').Configuration}
+ */
+const cliConfig = {
+  target: 'node',
+  mode: 'none',
+  entry: {
+    lib: './src/lib.ts',
+    cli: './src/cli.ts'
+  },
+  output: {
+    path: path.resolve(__dirname, 'dist'),
+    filename: '[name].js',
+    libraryTarget: 'commonjs'
+  },
+  resolve: {
+    extensions: ['.ts', '.js']
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        exclude: /node_modules/,
+        use: [
+          {
+            loader: 'ts-loader'
+          }
+        ]
+      }
+    ]
+  },
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true, include: 'cli.js' })
+  ],
+  devtool: 'nosources-source-map'
+};
+
+module.exports = [extensionConfig, webviewConfig, cliConfig];
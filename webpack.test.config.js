@@ -1,13 +1,30 @@
-
 const path = require('path');
 
 module.exports = {
   target: 'node',
   mode: 'development',
-  entry: './src/testParser.ts',
+  entry: {
+    testParser: './src/testParser.ts',
+    testGfmTables: './src/testGfmTables.ts',
+    testTableTracker: './src/testTableTracker.ts',
+    testTableSort: './src/testTableSort.ts',
+    testFormatConverter: './src/testFormatConverter.ts',
+    testDisplayWidth: './src/testDisplayWidth.ts',
+    testTableOperations: './src/testTableOperations.ts',
+    testInlineMarkdown: './src/testInlineMarkdown.ts',
+    testFindReplace: './src/testFindReplace.ts',
+    testTablePatch: './src/testTablePatch.ts',
+    testVirtualRows: './src/testVirtualRows.ts',
+    testTableMetadata: './src/testTableMetadata.ts',
+    testTableFormulas: './src/testTableFormulas.ts',
+    testDelimitedDocument: './src/testDelimitedDocument.ts',
+    testTableLint: './src/testTableLint.ts',
+    testTableTextEdits: './src/testTableTextEdits.ts',
+    testEditHistory: './src/testEditHistory.ts',
+  },
   output: {
     path: path.resolve(__dirname, 'dist'),
-    filename: 'testParser.js',
+    filename: '[name].js',
   },
   resolve: {
     extensions: ['.ts', '.js'],